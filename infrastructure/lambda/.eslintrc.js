@@ -1,15 +1,10 @@
 module.exports = {
   env: {
     node: true,
-    es6: true
+    es2022: true
   },
   parserOptions: {
-    ecmaVersion: 2020,
-    sourceType: 'script'
-  },
-  rules: {
-    // Allow CommonJS in Lambda functions
-    '@typescript-eslint/no-var-requires': 'off',
-    'import/no-unresolved': 'off'
+    ecmaVersion: 2022,
+    sourceType: 'module'
   }
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,9 @@
+import type { APIGatewayProxyEvent } from 'aws-lambda';
+
+// The caller's Cognito user id (sub). API Gateway's user pool authorizer has already verified the
+// token by the time the Lambda runs and passes its claims in the request context, so the
+// Authorization header itself is never trusted here.
+export function getUserId(event: APIGatewayProxyEvent): string | null {
+  const sub = event.requestContext?.authorizer?.claims?.sub;
+  return typeof sub === 'string' && sub.length > 0 ? sub : null;
+}
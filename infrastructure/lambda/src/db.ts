@@ -0,0 +1,81 @@
+import { GetSecretValueCommand, SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { Client, ClientConfig, types } from 'pg';
+
+// Return DATE columns as plain 'YYYY-MM-DD' strings instead of Date objects,
+// so a log's local calendar day isn't shifted by the Lambda's timezone
+types.setTypeParser(1082, (value: string) => value);
+
+// pg sets `ended` once the connection has closed but doesn't declare it on Client
+let dbClient: (Client & { ended?: boolean }) | null = null;
+const secretsClient = new SecretsManagerClient({ region: process.env.AWS_REGION });
+
+async function getDbCredentials(): Promise<{ username: string; password: string }> {
+  try {
+    const command = new GetSecretValueCommand({
+      SecretId: process.env.DB_SECRET_ARN
+    });
+    const secret = await secretsClient.send(command);
+    return JSON.parse(secret.SecretString ?? '{}');
+  } catch (error) {
+    console.error('Error getting DB credentials:', error);
+    throw error;
+  }
+}
+
+// The RDS instance configured by the stack, with credentials from Secrets Manager
+async function getDeployedConnection(): Promise<ClientConfig> {
+  const credentials = await getDbCredentials();
+  return {
+    host: process.env.DB_ENDPOINT,
+    port: parseInt(process.env.DB_PORT ?? '5432', 10),
+    database: process.env.DB_NAME,
+    user: credentials.username,
+    password: credentials.password,
+    ssl: {
+      rejectUnauthorized: false
+    }
+  };
+}
+
+export async function connectToDb(): Promise<Client> {
+  if (dbClient && !dbClient.ended) {
+    return dbClient;
+  }
+  
+  try {
+    // Local development (see scripts/dev-server.ts) sets DATABASE_URL instead of the deployed settings
+    const connection = process.env.DATABASE_URL
+      ? { connectionString: process.env.DATABASE_URL }
+      : await getDeployedConnection();
+
+    dbClient = new Client({
+      ...connection,
+      connectionTimeoutMillis: 10000,
+      query_timeout: 10000,
+    });
+    
+    await dbClient.connect();
+    console.log('Connected to PostgreSQL database');
+
+    // The schema is managed by migrations (see migrate.ts), never changed on connect
+    return dbClient;
+  } catch (error) {
+    console.error('Error connecting to database:', error);
+    // Don't hand the failed client to the next request; it would wait for a query timeout
+    dbClient = null;
+    throw error;
+  }
+}
+
+// Run `work` in a transaction on the shared client, rolling back if it throws
+export async function withTransaction<T>(db: Client, work: () => Promise<T>): Promise<T> {
+  await db.query('BEGIN');
+  try {
+    const result = await work();
+    await db.query('COMMIT');
+    return result;
+  } catch (error) {
+    await db.query('ROLLBACK');
+    throw error;
+  }
+}
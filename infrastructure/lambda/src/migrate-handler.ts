@@ -0,0 +1,10 @@
+import { connectToDb } from './db';
+import { migrateUp } from './migrate';
+
+// Invoked by the stack's RunMigrations trigger on deploy, before the API function is updated.
+// Throwing fails the deployment, so the API never runs against a schema it doesn't expect.
+export const handler = async (): Promise<{ applied: number[] }> => {
+  const db = await connectToDb();
+  const applied = await migrateUp(db);
+  return { applied: applied.map(({ version }) => version) };
+};
@@ -0,0 +1,97 @@
+import type { Client } from 'pg';
+import { withTransaction } from './db';
+import { migrations as allMigrations } from './migrations';
+
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: string | null; // null while pending
+}
+
+// Arbitrary key for the advisory lock that stops a deploy and a developer's machine migrating at once
+const MIGRATION_LOCK_KEY = 720514;
+
+function checkOrder(migrations: Migration[]): void {
+  migrations.forEach((migration, index) => {
+    if (index > 0 && migration.version <= migrations[index - 1].version) {
+      throw new Error(`Migration ${migration.version} (${migration.name}) is out of order`);
+    }
+  });
+}
+
+async function ensureMigrationsTable(db: Client): Promise<void> {
+  await db.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+async function loadApplied(db: Client): Promise<Map<number, { name: string; appliedAt: string }>> {
+  const result = await db.query('SELECT version, name, applied_at FROM schema_migrations ORDER BY version');
+  return new Map(result.rows.map((row) => [
+    Number(row.version),
+    { name: row.name as string, appliedAt: new Date(row.applied_at).toISOString() }
+  ]));
+}
+
+// Apply every pending migration in order, each in its own transaction, and return the ones applied.
+// Refuses to run if the database has a migration this code doesn't know, i.e. it is older than the schema.
+export async function migrateUp(db: Client, migrations: Migration[] = allMigrations): Promise<Migration[]> {
+  checkOrder(migrations);
+  await ensureMigrationsTable(db);
+
+  await db.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+  try {
+    const applied = await loadApplied(db);
+    const known = new Set(migrations.map(({ version }) => version));
+    const unknown = [...applied.keys()].filter((version) => !known.has(version));
+    if (unknown.length > 0) {
+      throw new Error(`Database has migrations this code doesn't include (${unknown.join(', ')}); deploy newer code`);
+    }
+
+    const pending = migrations.filter(({ version }) => !applied.has(version));
+    for (const migration of pending) {
+      console.log(`Applying migration ${migration.version} (${migration.name})`);
+      await withTransaction(db, async () => {
+        await db.query(migration.sql);
+        await db.query(
+          'INSERT INTO schema_migrations (version, name) VALUES ($1, $2)',
+          [migration.version, migration.name]
+        );
+      });
+    }
+    return pending;
+  } finally {
+    await db.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+  }
+}
+
+// Every known migration with when it was applied, plus any applied ones this code doesn't include
+export async function getMigrationStatus(
+  db: Client,
+  migrations: Migration[] = allMigrations
+): Promise<MigrationStatus[]> {
+  await ensureMigrationsTable(db);
+  const applied = await loadApplied(db);
+
+  const statuses: MigrationStatus[] = migrations.map(({ version, name }) => ({
+    version,
+    name,
+    appliedAt: applied.get(version)?.appliedAt ?? null
+  }));
+  for (const [version, { name, appliedAt }] of applied) {
+    if (!migrations.some((migration) => migration.version === version)) {
+      statuses.push({ version, name, appliedAt });
+    }
+  }
+  return statuses.sort((a, b) => a.version - b.version);
+}
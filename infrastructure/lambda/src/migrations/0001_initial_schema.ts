@@ -0,0 +1,140 @@
+import type { Migration } from '../migrate';
+
+// The schema the Lambda used to create on cold start. Every statement is idempotent, so databases
+// that already have these tables simply record the migration as applied.
+export const initialSchema: Migration = {
+  version: 1,
+  name: 'initial_schema',
+  sql: `
+    CREATE TABLE IF NOT EXISTS food_items (
+      id SERIAL PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      calories INTEGER NOT NULL,
+      protein DECIMAL(5,2) DEFAULT 0,
+      carbs DECIMAL(5,2) DEFAULT 0,
+      fat DECIMAL(5,2) DEFAULT 0,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Custom foods are private to the user who created them; shared foods have no owner
+    ALTER TABLE food_items ADD COLUMN IF NOT EXISTS user_id VARCHAR(128);
+    CREATE INDEX IF NOT EXISTS food_items_user_id_idx ON food_items (user_id) WHERE user_id IS NOT NULL;
+
+    ALTER TABLE food_items
+      ADD COLUMN IF NOT EXISTS fiber DECIMAL(8,2),
+      ADD COLUMN IF NOT EXISTS sugar DECIMAL(8,2),
+      ADD COLUMN IF NOT EXISTS saturated_fat DECIMAL(8,2),
+      ADD COLUMN IF NOT EXISTS sodium DECIMAL(8,2),
+      ADD COLUMN IF NOT EXISTS potassium DECIMAL(8,2),
+      ADD COLUMN IF NOT EXISTS cholesterol DECIMAL(8,2),
+      ADD COLUMN IF NOT EXISTS calcium DECIMAL(8,2),
+      ADD COLUMN IF NOT EXISTS iron DECIMAL(8,2),
+      ADD COLUMN IF NOT EXISTS vitamin_a DECIMAL(8,2),
+      ADD COLUMN IF NOT EXISTS vitamin_c DECIMAL(8,2),
+      ADD COLUMN IF NOT EXISTS vitamin_d DECIMAL(8,2);
+
+    -- Trigram indexes back the ranked, typo-tolerant name search
+    CREATE EXTENSION IF NOT EXISTS pg_trgm;
+    CREATE INDEX IF NOT EXISTS food_items_name_trgm_idx ON food_items USING gin (lower(name) gin_trgm_ops);
+    CREATE INDEX IF NOT EXISTS food_items_name_prefix_idx ON food_items (lower(name) text_pattern_ops);
+
+    -- Packaged foods can be found by their UPC/EAN barcode, stored as 13-digit GTINs where possible
+    ALTER TABLE food_items ADD COLUMN IF NOT EXISTS barcode VARCHAR(14);
+    CREATE INDEX IF NOT EXISTS food_items_barcode_idx ON food_items (barcode) WHERE barcode IS NOT NULL;
+
+    -- Household serving definitions per food (e.g. 1 slice = 30g)
+    CREATE TABLE IF NOT EXISTS food_servings (
+      id SERIAL PRIMARY KEY,
+      food_id INTEGER NOT NULL REFERENCES food_items(id) ON DELETE CASCADE,
+      label VARCHAR(50) NOT NULL,
+      grams DECIMAL(7,2) NOT NULL CHECK (grams > 0),
+      UNIQUE (food_id, label)
+    );
+
+    -- One row per logged food, per user
+    CREATE TABLE IF NOT EXISTS food_logs (
+      id SERIAL PRIMARY KEY,
+      user_id VARCHAR(128) NOT NULL,
+      name VARCHAR(255) NOT NULL,
+      calories INTEGER NOT NULL,
+      protein DECIMAL(6,2) DEFAULT 0,
+      carbs DECIMAL(6,2) DEFAULT 0,
+      fat DECIMAL(6,2) DEFAULT 0,
+      portion_size DECIMAL(7,2) NOT NULL,
+      logged_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE INDEX IF NOT EXISTS food_logs_user_logged_at_idx ON food_logs (user_id, logged_at);
+
+    -- log_date is the calendar day in the user's own timezone, supplied by the client
+    ALTER TABLE food_logs ADD COLUMN IF NOT EXISTS log_date DATE;
+    UPDATE food_logs SET log_date = (logged_at AT TIME ZONE 'UTC')::date WHERE log_date IS NULL;
+    CREATE INDEX IF NOT EXISTS food_logs_user_log_date_idx ON food_logs (user_id, log_date);
+
+    -- Meal slot an entry belongs to; older entries default to snacks
+    ALTER TABLE food_logs ADD COLUMN IF NOT EXISTS meal VARCHAR(20) NOT NULL DEFAULT 'snacks';
+
+    -- Per-100g basis so an entry can be rescaled when its portion is edited
+    ALTER TABLE food_logs
+      ADD COLUMN IF NOT EXISTS calories_per_100g DECIMAL(7,2),
+      ADD COLUMN IF NOT EXISTS protein_per_100g DECIMAL(7,2),
+      ADD COLUMN IF NOT EXISTS carbs_per_100g DECIMAL(7,2),
+      ADD COLUMN IF NOT EXISTS fat_per_100g DECIMAL(7,2);
+    UPDATE food_logs SET
+      calories_per_100g = calories * 100.0 / portion_size,
+      protein_per_100g = protein * 100.0 / portion_size,
+      carbs_per_100g = carbs * 100.0 / portion_size,
+      fat_per_100g = fat * 100.0 / portion_size
+    WHERE calories_per_100g IS NULL;
+
+    -- Unit the portion was entered in; portion_size always holds the resolved grams
+    ALTER TABLE food_logs
+      ADD COLUMN IF NOT EXISTS serving_unit VARCHAR(50) NOT NULL DEFAULT 'g',
+      ADD COLUMN IF NOT EXISTS serving_quantity DECIMAL(8,2);
+    UPDATE food_logs SET serving_quantity = portion_size WHERE serving_quantity IS NULL;
+
+    -- Per-100g micronutrients copied from the food when it was logged; missing keys are unknown
+    ALTER TABLE food_logs ADD COLUMN IF NOT EXISTS micronutrients_per_100g JSONB NOT NULL DEFAULT '{}';
+
+    -- One weigh-in per user per day
+    CREATE TABLE IF NOT EXISTS weight_entries (
+      id SERIAL PRIMARY KEY,
+      user_id VARCHAR(128) NOT NULL,
+      entry_date DATE NOT NULL,
+      weight_kg DECIMAL(6,2) NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (user_id, entry_date)
+    );
+
+    -- Daily calorie and macro targets
+    CREATE TABLE IF NOT EXISTS user_goals (
+      user_id VARCHAR(128) PRIMARY KEY,
+      calories INTEGER NOT NULL,
+      protein DECIMAL(6,1) NOT NULL,
+      carbs DECIMAL(6,1) NOT NULL,
+      fat DECIMAL(6,1) NOT NULL,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    -- Composite foods built from food_items
+    CREATE TABLE IF NOT EXISTS recipes (
+      id SERIAL PRIMARY KEY,
+      user_id VARCHAR(128) NOT NULL,
+      name VARCHAR(255) NOT NULL,
+      servings INTEGER NOT NULL DEFAULT 1,
+      cooked_weight_grams DECIMAL(8,2) NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+    CREATE TABLE IF NOT EXISTS recipe_ingredients (
+      id SERIAL PRIMARY KEY,
+      recipe_id INTEGER NOT NULL REFERENCES recipes(id) ON DELETE CASCADE,
+      food_id INTEGER NOT NULL REFERENCES food_items(id),
+      grams DECIMAL(8,2) NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS recipes_user_id_idx ON recipes (user_id);
+    CREATE INDEX IF NOT EXISTS recipe_ingredients_recipe_id_idx ON recipe_ingredients (recipe_id);
+  `
+};
@@ -0,0 +1,14 @@
+import type { Migration } from '../migrate';
+
+// Where a shared food was imported from (e.g. 'usda' and its FoodData Central id), so re-running an
+// import updates the same rows instead of matching them by name
+export const foodSources: Migration = {
+  version: 3,
+  name: 'food_sources',
+  sql: `
+    ALTER TABLE food_items
+      ADD COLUMN source VARCHAR(20),
+      ADD COLUMN source_id VARCHAR(64);
+    CREATE UNIQUE INDEX food_items_source_idx ON food_items (source, source_id);
+  `
+};
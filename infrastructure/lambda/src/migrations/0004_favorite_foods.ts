@@ -0,0 +1,27 @@
+import type { Migration } from '../migrate';
+
+// Starred foods, and which food or recipe each log entry came from so recently and frequently
+// logged foods can be offered again. Entries logged earlier, typed in by hand or imported stay unlinked.
+export const favoriteFoods: Migration = {
+  version: 4,
+  name: 'favorite_foods',
+  sql: `
+    ALTER TABLE food_logs
+      ADD COLUMN food_id INTEGER REFERENCES food_items(id) ON DELETE SET NULL,
+      ADD COLUMN recipe_id INTEGER REFERENCES recipes(id) ON DELETE SET NULL;
+    CREATE INDEX food_logs_user_source_idx ON food_logs (user_id, food_id, recipe_id, logged_at)
+      WHERE food_id IS NOT NULL OR recipe_id IS NOT NULL;
+
+    -- Each favorite is either a food or one of the user's recipes
+    CREATE TABLE favorite_foods (
+      id SERIAL PRIMARY KEY,
+      user_id VARCHAR(128) NOT NULL,
+      food_id INTEGER REFERENCES food_items(id) ON DELETE CASCADE,
+      recipe_id INTEGER REFERENCES recipes(id) ON DELETE CASCADE,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      CHECK ((food_id IS NULL) <> (recipe_id IS NULL))
+    );
+    CREATE UNIQUE INDEX favorite_foods_food_idx ON favorite_foods (user_id, food_id) WHERE food_id IS NOT NULL;
+    CREATE UNIQUE INDEX favorite_foods_recipe_idx ON favorite_foods (user_id, recipe_id) WHERE recipe_id IS NOT NULL;
+  `
+};
@@ -0,0 +1,12 @@
+import type { Migration } from '../migrate';
+
+// The id a client generates for each new log entry and sends again when it retries or replays the
+// create, so an insert whose response was lost isn't logged twice. Older entries have none.
+export const logClientRequestIds: Migration = {
+  version: 5,
+  name: 'log_client_request_ids',
+  sql: `
+    ALTER TABLE food_logs ADD COLUMN client_request_id VARCHAR(64);
+    CREATE UNIQUE INDEX food_logs_client_request_idx ON food_logs (user_id, client_request_id);
+  `
+};
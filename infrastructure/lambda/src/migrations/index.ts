@@ -0,0 +1,16 @@
+import type { Migration } from '../migrate';
+import { initialSchema } from './0001_initial_schema';
+import { nutritionalData } from './0002_nutritional_data';
+import { foodSources } from './0003_food_sources';
+import { favoriteFoods } from './0004_favorite_foods';
+import { logClientRequestIds } from './0005_log_client_request_ids';
+
+// Every schema and data change, oldest first. Add a new module with the next version rather than
+// editing one that may already have been applied somewhere.
+export const migrations: Migration[] = [
+  initialSchema,
+  nutritionalData,
+  foodSources,
+  favoriteFoods,
+  logClientRequestIds
+];
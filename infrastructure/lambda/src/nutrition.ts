@@ -0,0 +1,162 @@
+import type { QueryResultRow } from 'pg';
+import {
+  Schema,
+  ValidationError,
+  array,
+  decimalMax,
+  isPlainObject,
+  nullable,
+  number,
+  object,
+  optional,
+  refine,
+  string
+} from './validation';
+
+// Optional per-100g nutrients beyond calories and macros; NULL means the value is unknown.
+// Units: g for fiber, sugar and saturated fat, µg for vitamins A and D, mg for the rest.
+export const MICRONUTRIENTS = [
+  { key: 'fiber', column: 'fiber' },
+  { key: 'sugar', column: 'sugar' },
+  { key: 'saturatedFat', column: 'saturated_fat' },
+  { key: 'sodium', column: 'sodium' },
+  { key: 'potassium', column: 'potassium' },
+  { key: 'cholesterol', column: 'cholesterol' },
+  { key: 'calcium', column: 'calcium' },
+  { key: 'iron', column: 'iron' },
+  { key: 'vitaminA', column: 'vitamin_a' },
+  { key: 'vitaminC', column: 'vitamin_c' },
+  { key: 'vitaminD', column: 'vitamin_d' }
+] as const;
+
+// Values are per 100g, so no single macro (or their sum) can exceed 100g
+export const MAX_CALORIES_PER_100G = 900;
+export const MAX_MACROS_PER_100G = 100;
+
+export type MicronutrientKey = (typeof MICRONUTRIENTS)[number]['key'];
+export type Micronutrients = Record<MicronutrientKey, number | null>;
+
+export interface Serving {
+  label: string;
+  grams: number;
+}
+
+// Shape shared by foods, custom foods and recipes in search results
+export interface Food {
+  id: number;
+  name: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  isCustom: boolean;
+  type: 'food' | 'recipe';
+  barcode?: string | null;
+  servingSize?: number;
+  servings: Serving[];
+  micronutrients: Micronutrients;
+}
+
+const toNullableNumber = (value: unknown): number | null =>
+  value === null || value === undefined ? null : Number(value);
+
+// Read micronutrient columns from a food_items row, keeping unknown values as null
+export function toMicronutrients(row: QueryResultRow): Micronutrients {
+  const micronutrients = {} as Micronutrients;
+  for (const { key, column } of MICRONUTRIENTS) {
+    micronutrients[key] = toNullableNumber(row[column]);
+  }
+  return micronutrients;
+}
+
+// Keep only known micronutrient keys from a JSONB object, with missing ones as null
+export function normalizeMicronutrients(input: Record<string, unknown> | null | undefined): Micronutrients {
+  const micronutrients = {} as Micronutrients;
+  for (const { key } of MICRONUTRIENTS) {
+    micronutrients[key] = toNullableNumber(input ? input[key] : undefined);
+  }
+  return micronutrients;
+}
+
+// Micronutrient columns are DECIMAL(8,2)
+const nutrientValue = optional(nullable(number({ max: decimalMax(8, 2) })));
+
+// Micronutrients object from a client; each known key may be a non-negative number, null or absent
+export const micronutrients: Schema<Micronutrients> = (value, field) => {
+  if (!isPlainObject(value)) {
+    throw new ValidationError(`${field} must be an object`);
+  }
+  const result = {} as Micronutrients;
+  for (const { key } of MICRONUTRIENTS) {
+    result[key] = nutrientValue(value[key], `${field}.${key}`) ?? null;
+  }
+  return result;
+};
+
+// Convert a food_items row into the Food shape the client expects
+export function toFood(row: QueryResultRow, servings: Serving[] = []): Food {
+  return {
+    id: row.id,
+    name: row.name,
+    calories: Number(row.calories),
+    protein: Number(row.protein),
+    carbs: Number(row.carbs),
+    fat: Number(row.fat),
+    isCustom: row.user_id !== null && row.user_id !== undefined,
+    type: 'food',
+    barcode: row.barcode || null,
+    servings,
+    micronutrients: toMicronutrients(row)
+  };
+}
+
+// Strip spaces and dashes from a scanned or typed barcode and check its length and check digit.
+// Returns the code as a GTIN (UPC-A is zero-padded to EAN-13), or null if it isn't valid.
+export function normalizeBarcode(code: unknown): string | null {
+  const digits = String(code).replace(/[\s-]/g, '');
+  if (!/^(\d{8}|\d{12,14})$/.test(digits)) {
+    return null;
+  }
+
+  // GS1 check digit: weights alternate 3 and 1 starting from the digit next to the check digit
+  const body = digits.slice(0, -1);
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    sum += Number(body[body.length - 1 - i]) * (i % 2 === 0 ? 3 : 1);
+  }
+  if ((10 - (sum % 10)) % 10 !== Number(digits[digits.length - 1])) {
+    return null;
+  }
+
+  return digits.length === 12 ? `0${digits}` : digits;
+}
+
+export const barcode: Schema<string> = (value, field) => {
+  const normalized = typeof value === 'string' || typeof value === 'number' ? normalizeBarcode(value) : null;
+  if (!normalized) {
+    throw new ValidationError(`${field} must be a valid UPC or EAN code`);
+  }
+  return normalized;
+};
+
+export const MAX_SERVING_LABEL_LENGTH = 50;
+
+const servingLabel: Schema<string> = refine(
+  string({ maxLength: MAX_SERVING_LABEL_LENGTH }),
+  (label) => (label === 'g' ? 'g is reserved for gram portions' : null)
+);
+
+// Household servings for a food (e.g. 1 slice = 30g); labels must be unique
+export const servings: Schema<Serving[]> = refine(
+  array(object({ label: servingLabel, grams: number({ positive: true, max: decimalMax(7, 2) }) })),
+  (list) => {
+    const labels = new Set<string>();
+    for (const { label } of list) {
+      if (labels.has(label)) {
+        return `duplicate serving label: ${label}`;
+      }
+      labels.add(label);
+    }
+    return null;
+  }
+);
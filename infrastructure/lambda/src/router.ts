@@ -0,0 +1,186 @@
+import type { APIGatewayProxyEvent } from 'aws-lambda';
+import type { Client } from 'pg';
+import { getUserId } from './auth';
+import { Schema, ValidationError } from './validation';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+// Routes need a signed-in user unless they opt into anonymous access
+export type AuthMode = 'required' | 'optional';
+
+// Every response uses this envelope; error codes are stable identifiers clients can branch on
+export type ResponseBody =
+  | { success: true; data: unknown }
+  | { success: false; error: { code: string; message: string } };
+
+export interface RouterResponse {
+  statusCode: number;
+  body: ResponseBody;
+}
+
+export interface RouteResult {
+  statusCode: number;
+  data: unknown;
+}
+
+export const ok = (data: unknown): RouteResult => ({ statusCode: 200, data });
+export const created = (data: unknown): RouteResult => ({ statusCode: 201, data });
+
+// Thrown by handlers for an expected failure; its message is shown to the client as is
+export class HttpError extends Error {
+  constructor(readonly statusCode: number, readonly code: string, message: string) {
+    super(message);
+  }
+}
+
+export const badRequest = (message: string): HttpError => new HttpError(400, 'VALIDATION_ERROR', message);
+export const notFound = (message: string): HttpError => new HttpError(404, 'NOT_FOUND', message);
+export const conflict = (message: string): HttpError => new HttpError(409, 'CONFLICT', message);
+
+export interface RouteRequest<P, Q, B, A extends AuthMode> {
+  params: P;
+  query: Q;
+  body: B;
+  userId: A extends 'required' ? string : string | null;
+  db: Client;
+}
+
+interface RouteDefinition<P, Q, B, A extends AuthMode> {
+  method: HttpMethod;
+  path: string; // e.g. '/logs/:id'; `:name` segments become params
+  auth?: A;
+  params?: Schema<P>;
+  query?: Schema<Q>;
+  body?: Schema<B>;
+}
+
+export type RouteHandler<P, Q, B, A extends AuthMode> = (request: RouteRequest<P, Q, B, A>) => Promise<RouteResult>;
+
+interface RawRequest {
+  params: Record<string, string>;
+  query: Record<string, string | undefined>;
+  body: string | null;
+  userId: string | null;
+  connect: () => Promise<Client>;
+}
+
+export interface Route {
+  method: HttpMethod;
+  path: string;
+  auth: AuthMode;
+  handle: (request: RawRequest) => Promise<RouteResult>;
+}
+
+function parseBody(body: string | null): unknown {
+  if (!body) {
+    return {};
+  }
+  try {
+    return JSON.parse(body);
+  } catch (error) {
+    throw new HttpError(400, 'INVALID_JSON', 'Request body must be valid JSON');
+  }
+}
+
+// Wrap a typed route so the router can call it: inputs are validated before the database is touched.
+// The handler is a separate argument so TypeScript can infer its request type from the schemas.
+export function defineRoute<P = unknown, Q = unknown, B = unknown, A extends AuthMode = 'required'>(
+  definition: RouteDefinition<P, Q, B, A>,
+  handler: RouteHandler<P, Q, B, A>
+): Route {
+  const { params, query, body } = definition;
+  return {
+    method: definition.method,
+    path: definition.path,
+    auth: definition.auth ?? 'required',
+    handle: async (request) => {
+      const input = {
+        params: params ? params(request.params, '') : (request.params as P),
+        query: query ? query(request.query, '') : (request.query as Q),
+        body: body ? body(parseBody(request.body), '') : (undefined as B)
+      };
+      const db = await request.connect();
+      return handler({ ...input, userId: request.userId as RouteRequest<P, Q, B, A>['userId'], db });
+    }
+  };
+}
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function compilePath(path: string): { pattern: RegExp; paramNames: string[] } {
+  const paramNames: string[] = [];
+  const source = path
+    .split('/')
+    .map((segment) => {
+      if (segment.startsWith(':')) {
+        paramNames.push(segment.slice(1));
+        return '([^/]+)';
+      }
+      return escapeRegExp(segment);
+    })
+    .join('/');
+  return { pattern: new RegExp(`^${source}/?$`), paramNames };
+}
+
+function decodeParam(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch (error) {
+    return value;
+  }
+}
+
+function toErrorResponse(error: unknown): RouterResponse {
+  if (error instanceof HttpError) {
+    return { statusCode: error.statusCode, body: { success: false, error: { code: error.code, message: error.message } } };
+  }
+  if (error instanceof ValidationError) {
+    return { statusCode: 400, body: { success: false, error: { code: 'VALIDATION_ERROR', message: error.message } } };
+  }
+
+  // Anything else is a bug or an outage; log it but don't leak its details to the client
+  console.error('Unhandled route error:', error);
+  return {
+    statusCode: 500,
+    body: { success: false, error: { code: 'INTERNAL_ERROR', message: 'Something went wrong. Please try again.' } }
+  };
+}
+
+// Match a request against the route table by path, then method. A path that matches no route is a
+// 404; one that matches only under other methods is a 405.
+export function createRouter(routes: Route[], { connect }: { connect: () => Promise<Client> }) {
+  const compiled = routes.map((route) => ({ route, ...compilePath(route.path) }));
+
+  return async (event: APIGatewayProxyEvent): Promise<RouterResponse> => {
+    try {
+      const candidates = compiled.filter(({ pattern }) => pattern.test(event.path));
+      if (candidates.length === 0) {
+        throw new HttpError(404, 'ROUTE_NOT_FOUND', `No route matches ${event.path}`);
+      }
+
+      const match = candidates.find(({ route }) => route.method === event.httpMethod);
+      if (!match) {
+        throw new HttpError(405, 'METHOD_NOT_ALLOWED', `${event.httpMethod} is not supported on ${event.path}`);
+      }
+
+      const userId = getUserId(event);
+      if (match.route.auth === 'required' && !userId) {
+        throw new HttpError(401, 'UNAUTHORIZED', 'Authentication required');
+      }
+
+      const values = match.pattern.exec(event.path)?.slice(1) ?? [];
+      const params = Object.fromEntries(match.paramNames.map((name, index) => [name, decodeParam(values[index])]));
+
+      const result = await match.route.handle({
+        params,
+        query: event.queryStringParameters ?? {},
+        body: event.body,
+        userId,
+        connect
+      });
+      return { statusCode: result.statusCode, body: { success: true, data: result.data } };
+    } catch (error) {
+      return toErrorResponse(error);
+    }
+  };
+}
@@ -0,0 +1,162 @@
+import type { Client, QueryResultRow } from 'pg';
+import { Food, toFood } from '../nutrition';
+import { Route, defineRoute, notFound, ok } from '../router';
+import { object, oneOf, recordId } from '../validation';
+import { loadFoodServings } from './foods';
+import { loadRecipes, recipeToFood } from './recipes';
+
+const FOOD_TYPES = ['food', 'recipe'] as const;
+type FoodType = (typeof FOOD_TYPES)[number];
+
+// Length of the recent and frequent lists
+const QUICK_ADD_LIMIT = 10;
+// Frequent foods are counted over this many days and need at least two entries in them
+const FREQUENT_DAYS = 90;
+const MIN_FREQUENT_LOGS = 2;
+
+// The portion a food was last logged at
+interface LoggedPortion {
+  portionSize: number;
+  servingUnit: string;
+  servingQuantity: number;
+}
+
+interface QuickAddFood {
+  food: Food;
+  isFavorite: boolean;
+  lastPortion: LoggedPortion | null; // null until the food has been logged from search or quick-add
+  lastLoggedAt: string | null;
+  recentLogCount: number; // entries in the last FREQUENT_DAYS days
+}
+
+const favoriteParams = object({ type: oneOf(FOOD_TYPES), id: recordId() });
+
+// food_logs and favorite_foods rows point at either a food or a recipe
+const sourceKey = (row: QueryResultRow): string =>
+  (row.recipe_id !== null ? `recipe-${row.recipe_id}` : `food-${row.food_id}`);
+
+// Load the foods and recipes behind the given rows that the user can still see, keyed by sourceKey
+async function loadSourceFoods(db: Client, userId: string, rows: QueryResultRow[]): Promise<Map<string, Food>> {
+  const foods = new Map<string, Food>();
+  const foodIds = [...new Set(rows.filter((row) => row.food_id !== null).map((row) => row.food_id as number))];
+  const recipeIds = new Set(rows.filter((row) => row.recipe_id !== null).map((row) => row.recipe_id as number));
+
+  if (foodIds.length > 0) {
+    const result = await db.query(
+      'SELECT * FROM food_items WHERE id = ANY($1) AND (user_id IS NULL OR user_id = $2)',
+      [foodIds, userId]
+    );
+    const servingsByFood = await loadFoodServings(db, result.rows.map((row) => row.id));
+    for (const row of result.rows) {
+      foods.set(`food-${row.id}`, toFood(row, servingsByFood.get(row.id)));
+    }
+  }
+
+  if (recipeIds.size > 0) {
+    for (const recipe of await loadRecipes(db, userId)) {
+      if (recipeIds.has(recipe.id)) {
+        foods.set(`recipe-${recipe.id}`, recipeToFood(recipe));
+      }
+    }
+  }
+
+  return foods;
+}
+
+// Throw unless the user can see the food or recipe
+async function checkFavoriteTarget(db: Client, userId: string, type: FoodType, id: number): Promise<void> {
+  const result = type === 'recipe'
+    ? await db.query('SELECT 1 FROM recipes WHERE id = $1 AND user_id = $2', [id, userId])
+    : await db.query('SELECT 1 FROM food_items WHERE id = $1 AND (user_id IS NULL OR user_id = $2)', [id, userId]);
+  if (result.rows.length === 0) {
+    throw notFound(type === 'recipe' ? 'Recipe not found' : 'Food not found');
+  }
+}
+
+export const favoriteRoutes: Route[] = [
+  // Favorites plus recently and frequently logged foods, each with the portion it was last logged at
+  defineRoute({
+    method: 'GET',
+    path: '/foods/quick-add'
+  }, async ({ db, userId }) => {
+    // The latest entry for each food or recipe, with how many entries it has had lately
+    const usage = await db.query(
+      `SELECT DISTINCT ON (food_id, recipe_id)
+              food_id, recipe_id, portion_size, serving_unit, serving_quantity, logged_at,
+              COUNT(*) FILTER (WHERE logged_at > CURRENT_TIMESTAMP - make_interval(days => $2))
+                OVER (PARTITION BY food_id, recipe_id) AS recent_log_count
+       FROM food_logs
+       WHERE user_id = $1 AND (food_id IS NOT NULL OR recipe_id IS NOT NULL)
+       ORDER BY food_id, recipe_id, logged_at DESC`,
+      [userId, FREQUENT_DAYS]
+    );
+    const favorites = await db.query(
+      'SELECT food_id, recipe_id FROM favorite_foods WHERE user_id = $1 ORDER BY created_at DESC, id DESC',
+      [userId]
+    );
+
+    const foods = await loadSourceFoods(db, userId, [...usage.rows, ...favorites.rows]);
+    const favoriteKeys = new Set(favorites.rows.map(sourceKey));
+    const usageByKey = new Map(usage.rows.map((row) => [sourceKey(row), row]));
+
+    const toQuickAddFood = (key: string): QuickAddFood[] => {
+      const food = foods.get(key);
+      const lastUse = usageByKey.get(key);
+      if (!food) {
+        return [];
+      }
+      return [{
+        food,
+        isFavorite: favoriteKeys.has(key),
+        lastPortion: lastUse
+          ? {
+            portionSize: Number(lastUse.portion_size),
+            servingUnit: lastUse.serving_unit,
+            servingQuantity: Number(lastUse.serving_quantity)
+          }
+          : null,
+        lastLoggedAt: lastUse ? new Date(lastUse.logged_at).toISOString() : null,
+        recentLogCount: lastUse ? Number(lastUse.recent_log_count) : 0
+      }];
+    };
+
+    const used = usage.rows.map(sourceKey).flatMap(toQuickAddFood);
+    return ok({
+      favorites: [...favoriteKeys].flatMap(toQuickAddFood),
+      recent: [...used]
+        .sort((a, b) => (b.lastLoggedAt ?? '').localeCompare(a.lastLoggedAt ?? ''))
+        .slice(0, QUICK_ADD_LIMIT),
+      frequent: used
+        .filter((item) => item.recentLogCount >= MIN_FREQUENT_LOGS)
+        .sort((a, b) => b.recentLogCount - a.recentLogCount || (b.lastLoggedAt ?? '').localeCompare(a.lastLoggedAt ?? ''))
+        .slice(0, QUICK_ADD_LIMIT)
+    });
+  }),
+
+  // Starring a food twice is harmless
+  defineRoute({
+    method: 'PUT',
+    path: '/foods/favorites/:type/:id',
+    params: favoriteParams
+  }, async ({ db, userId, params: { type, id } }) => {
+    await checkFavoriteTarget(db, userId, type, id);
+    await db.query(
+      `INSERT INTO favorite_foods (user_id, food_id, recipe_id) VALUES ($1, $2, $3)
+       ON CONFLICT DO NOTHING`,
+      [userId, type === 'food' ? id : null, type === 'recipe' ? id : null]
+    );
+    return ok({ type, id, isFavorite: true });
+  }),
+
+  defineRoute({
+    method: 'DELETE',
+    path: '/foods/favorites/:type/:id',
+    params: favoriteParams
+  }, async ({ db, userId, params: { type, id } }) => {
+    await db.query(
+      `DELETE FROM favorite_foods WHERE user_id = $1 AND ${type === 'recipe' ? 'recipe_id' : 'food_id'} = $2`,
+      [userId, id]
+    );
+    return ok({ type, id, isFavorite: false });
+  })
+];
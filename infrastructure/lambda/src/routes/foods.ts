@@ -0,0 +1,234 @@
+import type { Client } from 'pg';
+import { withTransaction } from '../db';
+import {
+  Food,
+  MAX_CALORIES_PER_100G,
+  MAX_MACROS_PER_100G,
+  MICRONUTRIENTS,
+  Serving,
+  barcode,
+  micronutrients,
+  normalizeMicronutrients,
+  servings,
+  toFood
+} from '../nutrition';
+import { Route, created, defineRoute, notFound, ok } from '../router';
+import { Schema, ValidationError, fromString, nullable, number, object, optional, refine, string } from '../validation';
+import { loadRecipes, recipeToFood } from './recipes';
+
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 50;
+
+// Match ranks for food search, best first. Names that only match fuzzily rank last.
+const MATCH_RANK = { exact: 0, prefix: 1, word: 2, substring: 3, fuzzy: 4 };
+
+const escapeLikePattern = (value: string): string => value.replace(/[\\%_]/g, '\\$&');
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Rank a name against a lowercased search term; mirrors the CASE in searchFoods
+function rankMatch(name: string, term: string): number {
+  const lowerName = name.toLowerCase();
+  if (lowerName === term) return MATCH_RANK.exact;
+  if (lowerName.startsWith(term)) return MATCH_RANK.prefix;
+  if (new RegExp(`(^|[^a-z0-9])${escapeRegExp(term)}`).test(lowerName)) return MATCH_RANK.word;
+  if (lowerName.includes(term)) return MATCH_RANK.substring;
+  return MATCH_RANK.fuzzy;
+}
+
+// Search cursors are opaque to clients: base64url-encoded JSON holding the next offset
+const encodeSearchCursor = (offset: number): string => Buffer.from(JSON.stringify({ offset })).toString('base64url');
+
+const searchCursor: Schema<number> = (value, field) => {
+  try {
+    const { offset } = JSON.parse(Buffer.from(String(value), 'base64url').toString('utf8'));
+    if (Number.isInteger(offset) && offset >= 0) {
+      return offset;
+    }
+  } catch (error) {
+    // Fall through to the validation error
+  }
+  throw new ValidationError(`${field} is invalid`);
+};
+
+// Load serving definitions for the given foods, keyed by food id
+export async function loadFoodServings(db: Client, foodIds: number[]): Promise<Map<number, Serving[]>> {
+  const servingsByFood = new Map<number, Serving[]>();
+  if (foodIds.length === 0) {
+    return servingsByFood;
+  }
+
+  const result = await db.query(
+    'SELECT food_id, label, grams FROM food_servings WHERE food_id = ANY($1) ORDER BY grams',
+    [foodIds]
+  );
+  for (const row of result.rows) {
+    const foodServings = servingsByFood.get(row.food_id) || [];
+    foodServings.push({ label: row.label, grams: Number(row.grams) });
+    servingsByFood.set(row.food_id, foodServings);
+  }
+  return servingsByFood;
+}
+
+// Shared by the page and count queries: $1 is the lowercased term, $2 its LIKE-escaped form, $3 the user id
+const FOOD_SEARCH_FILTER = `(user_id IS NULL OR user_id = $3)
+       AND (lower(name) LIKE '%' || $2 || '%' OR lower(name) % $1 OR $1 <% lower(name))`;
+
+// Ranked name search over shared foods, the caller's custom foods and their recipes.
+// Exact, prefix, word-start and substring matches come first; pg_trgm similarity
+// catches typos such as "chiken", and breaks ties within each rank.
+// Returns one page of results plus the total number of matches.
+async function searchFoods(
+  db: Client,
+  userId: string | null,
+  searchTerm: string,
+  { limit, offset }: { limit: number; offset: number }
+): Promise<{ foods: Food[]; total: number }> {
+  const term = searchTerm.trim().toLowerCase();
+  if (!term) {
+    return { foods: [], total: 0 };
+  }
+
+  const filterParams = [term, escapeLikePattern(term), userId];
+  // Recipes are merged in afterwards, so fetch enough foods to fill the page whatever they displace
+  const result = await db.query(
+    `SELECT *,
+            CASE
+              WHEN lower(name) = $1 THEN ${MATCH_RANK.exact}
+              WHEN lower(name) LIKE $2 || '%' THEN ${MATCH_RANK.prefix}
+              WHEN lower(name) ~ ('(^|[^a-z0-9])' || $4) THEN ${MATCH_RANK.word}
+              WHEN lower(name) LIKE '%' || $2 || '%' THEN ${MATCH_RANK.substring}
+              ELSE ${MATCH_RANK.fuzzy}
+            END AS match_rank,
+            word_similarity($1, lower(name)) AS score
+     FROM food_items
+     WHERE ${FOOD_SEARCH_FILTER}
+     ORDER BY match_rank, score DESC, length(name), name
+     LIMIT $5`,
+    [...filterParams, escapeRegExp(term), offset + limit]
+  );
+  const countResult = await db.query(
+    `SELECT COUNT(*) AS total FROM food_items WHERE ${FOOD_SEARCH_FILTER}`,
+    filterParams
+  );
+  const servingsByFood = await loadFoodServings(db, result.rows.map((row) => row.id));
+  const recipes = userId ? await loadRecipes(db, userId, { nameFilter: `%${escapeLikePattern(term)}%` }) : [];
+
+  const matches = [
+    ...result.rows.map((row) => ({
+      food: toFood(row, servingsByFood.get(row.id)),
+      rank: Number(row.match_rank),
+      score: Number(row.score)
+    })),
+    ...recipes.map((recipe) => ({ food: recipeToFood(recipe), rank: rankMatch(recipe.name, term), score: 1 }))
+  ];
+
+  const foods = matches
+    .sort((a, b) =>
+      a.rank - b.rank
+      || b.score - a.score
+      || a.food.name.length - b.food.name.length
+      || a.food.name.localeCompare(b.food.name))
+    .slice(offset, offset + limit)
+    .map((match) => match.food);
+
+  return { foods, total: Number(countResult.rows[0].total) + recipes.length };
+}
+
+const customFoodInput = refine(
+  object({
+    name: string({ maxLength: 255 }),
+    calories: number({ max: MAX_CALORIES_PER_100G }),
+    protein: number({ max: MAX_MACROS_PER_100G }),
+    carbs: number({ max: MAX_MACROS_PER_100G }),
+    fat: number({ max: MAX_MACROS_PER_100G }),
+    servings: optional(servings),
+    micronutrients: optional(micronutrients),
+    barcode: optional(nullable(barcode))
+  }),
+  (input) => (input.protein + input.carbs + input.fat > MAX_MACROS_PER_100G
+    ? `protein, carbs and fat together cannot exceed ${MAX_MACROS_PER_100G}g per 100g`
+    : null)
+);
+
+export const foodRoutes: Route[] = [
+  // Ranked food search (shared foods plus the caller's own custom foods and recipes)
+  defineRoute({
+    method: 'GET',
+    path: '/foods/search',
+    auth: 'optional',
+    query: object({
+      name: optional(string({ allowEmpty: true })),
+      limit: optional(fromString(number({ integer: true, min: 1, max: MAX_SEARCH_LIMIT }))),
+      cursor: optional(searchCursor)
+    })
+  }, async ({ db, userId, query }) => {
+    const limit = query.limit ?? DEFAULT_SEARCH_LIMIT;
+    const offset = query.cursor ?? 0;
+    const { foods, total } = await searchFoods(db, userId, query.name ?? '', { limit, offset });
+    const nextOffset = offset + foods.length;
+    return ok({ foods, total, nextCursor: nextOffset < total ? encodeSearchCursor(nextOffset) : null });
+  }),
+
+  // Barcode lookup: the caller's own custom food wins over a shared one with the same code
+  defineRoute({
+    method: 'GET',
+    path: '/foods/barcode/:code',
+    auth: 'optional',
+    params: object({ code: barcode })
+  }, async ({ db, userId, params }) => {
+    const result = await db.query(
+      `SELECT * FROM food_items
+       WHERE barcode = $1 AND (user_id IS NULL OR user_id = $2)
+       ORDER BY user_id IS NULL, id
+       LIMIT 1`,
+      [params.code, userId]
+    );
+    if (result.rows.length === 0) {
+      throw notFound(`No food found for barcode ${params.code}`);
+    }
+
+    const food = result.rows[0];
+    const servingsByFood = await loadFoodServings(db, [food.id]);
+    return ok(toFood(food, servingsByFood.get(food.id)));
+  }),
+
+  // Custom foods are private to the user who created them
+  defineRoute({
+    method: 'POST',
+    path: '/foods',
+    body: customFoodInput
+  }, async ({ db, userId, body }) => {
+    const values = body.micronutrients ?? normalizeMicronutrients(null);
+    const foodServings = body.servings ?? [];
+
+    const food = await withTransaction(db, async () => {
+      const result = await db.query(
+        `INSERT INTO food_items (
+           name, calories, protein, carbs, fat, user_id, barcode, ${MICRONUTRIENTS.map(({ column }) => column).join(', ')}
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, ${MICRONUTRIENTS.map((_, index) => `$${index + 8}`).join(', ')})
+         RETURNING *`,
+        [
+          body.name,
+          Math.round(body.calories),
+          body.protein,
+          body.carbs,
+          body.fat,
+          userId,
+          body.barcode ?? null,
+          ...MICRONUTRIENTS.map(({ key }) => values[key])
+        ]
+      );
+
+      for (const serving of foodServings) {
+        await db.query(
+          'INSERT INTO food_servings (food_id, label, grams) VALUES ($1, $2, $3)',
+          [result.rows[0].id, serving.label, serving.grams]
+        );
+      }
+      return result.rows[0];
+    });
+
+    return created(toFood(food, foodServings));
+  })
+];
@@ -0,0 +1,46 @@
+import type { QueryResultRow } from 'pg';
+import { Route, defineRoute, ok } from '../router';
+import { MAX_INTEGER, decimalMax, number, object } from '../validation';
+
+// Calories are stored as an INTEGER and the macros as DECIMAL(6,1)
+const goalsInput = object({
+  calories: number({ max: MAX_INTEGER }),
+  protein: number({ max: decimalMax(6, 1) }),
+  carbs: number({ max: decimalMax(6, 1) }),
+  fat: number({ max: decimalMax(6, 1) })
+});
+
+const toDailyGoals = (row: QueryResultRow) => ({
+  calories: Number(row.calories),
+  protein: Number(row.protein),
+  carbs: Number(row.carbs),
+  fat: Number(row.fat)
+});
+
+export const goalRoutes: Route[] = [
+  // Resolves to null until the user has saved goals
+  defineRoute({
+    method: 'GET',
+    path: '/goals'
+  }, async ({ db, userId }) => {
+    const result = await db.query('SELECT * FROM user_goals WHERE user_id = $1', [userId]);
+    return ok(result.rows.length > 0 ? toDailyGoals(result.rows[0]) : null);
+  }),
+
+  defineRoute({
+    method: 'PUT',
+    path: '/goals',
+    body: goalsInput
+  }, async ({ db, userId, body }) => {
+    const result = await db.query(
+      `INSERT INTO user_goals (user_id, calories, protein, carbs, fat)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (user_id)
+       DO UPDATE SET calories = EXCLUDED.calories, protein = EXCLUDED.protein,
+                     carbs = EXCLUDED.carbs, fat = EXCLUDED.fat, updated_at = CURRENT_TIMESTAMP
+       RETURNING *`,
+      [userId, Math.round(body.calories), body.protein, body.carbs, body.fat]
+    );
+    return ok(toDailyGoals(result.rows[0]));
+  })
+];
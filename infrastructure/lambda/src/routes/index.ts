@@ -0,0 +1,17 @@
+import { Route } from '../router';
+import { favoriteRoutes } from './favorites';
+import { foodRoutes } from './foods';
+import { goalRoutes } from './goals';
+import { logRoutes } from './logs';
+import { recipeRoutes } from './recipes';
+import { weightRoutes } from './weights';
+
+// Every endpoint the API serves. Each resource keeps its routes, schemas and queries in its own module.
+export const routes: Route[] = [
+  ...foodRoutes,
+  ...favoriteRoutes,
+  ...logRoutes,
+  ...weightRoutes,
+  ...goalRoutes,
+  ...recipeRoutes
+];
@@ -0,0 +1,365 @@
+import type { Client, QueryResultRow } from 'pg';
+import { withTransaction } from '../db';
+import { MAX_SERVING_LABEL_LENGTH, micronutrients, normalizeMicronutrients } from '../nutrition';
+import { Route, badRequest, conflict, created, defineRoute, notFound, ok } from '../router';
+import {
+  Infer,
+  MAX_INTEGER,
+  array,
+  decimalMax,
+  isoDate,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  partial,
+  recordId,
+  refine,
+  string,
+  timestamp
+} from '../validation';
+
+const MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'snacks'] as const;
+const MAX_SUMMARY_DAYS = 93;
+const MAX_EXPORT_DAYS = 366;
+export const MAX_IMPORT_ENTRIES = 500;
+
+// Convert a food_logs row into the camelCase shape the client expects
+function toFoodLogEntry(row: QueryResultRow) {
+  return {
+    id: row.id as number,
+    name: row.name as string,
+    calories: Number(row.calories),
+    protein: Number(row.protein),
+    carbs: Number(row.carbs),
+    fat: Number(row.fat),
+    portionSize: Number(row.portion_size),
+    servingUnit: row.serving_unit as string,
+    servingQuantity: Number(row.serving_quantity),
+    loggedAt: new Date(row.logged_at).toISOString(),
+    logDate: row.log_date as string,
+    meal: row.meal as string,
+    caloriesPer100g: Number(row.calories_per_100g),
+    proteinPer100g: Number(row.protein_per_100g),
+    carbsPer100g: Number(row.carbs_per_100g),
+    fatPer100g: Number(row.fat_per_100g),
+    micronutrientsPer100g: normalizeMicronutrients(row.micronutrients_per_100g),
+    foodId: row.food_id as number | null,
+    recipeId: row.recipe_id as number | null,
+    updatedAt: new Date(row.updated_at || row.created_at).toISOString()
+  };
+}
+
+// Upper bounds match the food_logs columns
+const MAX_MACRO = decimalMax(6, 2);
+const MAX_PER_100G = decimalMax(7, 2);
+
+const foodLogFields = {
+  name: string({ maxLength: 255 }),
+  calories: number({ max: MAX_INTEGER }),
+  protein: number({ max: MAX_MACRO }),
+  carbs: number({ max: MAX_MACRO }),
+  fat: number({ max: MAX_MACRO }),
+  portionSize: number({ positive: true, max: decimalMax(7, 2) }),
+  loggedAt: optional(timestamp()),
+  // The user's local day, which only the client knows; deriving it from loggedAt would use UTC
+  logDate: isoDate(),
+  meal: optional(oneOf(MEAL_TYPES)),
+  caloriesPer100g: optional(number({ max: MAX_PER_100G })),
+  proteinPer100g: optional(number({ max: MAX_PER_100G })),
+  carbsPer100g: optional(number({ max: MAX_PER_100G })),
+  fatPer100g: optional(number({ max: MAX_PER_100G })),
+  servingUnit: optional(string({ maxLength: MAX_SERVING_LABEL_LENGTH })),
+  servingQuantity: optional(number({ positive: true, max: decimalMax(8, 2) })),
+  micronutrientsPer100g: optional(micronutrients),
+  // The food or recipe the entry was logged from, used for recent and frequent foods
+  foodId: optional(nullable(number({ integer: true, positive: true, max: MAX_INTEGER }))),
+  recipeId: optional(nullable(number({ integer: true, positive: true, max: MAX_INTEGER })))
+};
+
+const PER_100G_FIELDS = [
+  ['calories', 'caloriesPer100g'],
+  ['protein', 'proteinPer100g'],
+  ['carbs', 'carbsPer100g'],
+  ['fat', 'fatPer100g']
+] as const;
+
+type Per100gSource = Pick<
+  Infer<ReturnType<typeof object<typeof foodLogFields>>>,
+  (typeof PER_100G_FIELDS)[number][number] | 'portionSize'
+>;
+
+// Missing per-100g values are worked out from the portion (see insertFoodLog), and a tiny portion can
+// scale them past what the column holds
+function checkPer100g(entry: Per100gSource): string | null {
+  for (const [field, per100gField] of PER_100G_FIELDS) {
+    const amount = field === 'calories' ? Math.round(entry.calories) : entry[field];
+    if (entry[per100gField] === undefined && (amount * 100) / entry.portionSize > MAX_PER_100G) {
+      return `${field} per 100g must be at most ${MAX_PER_100G}; check portionSize or send ${per100gField}`;
+    }
+  }
+  return null;
+}
+
+// New entries may carry an id the client generated, so a create it retries or replays after a lost
+// response returns the entry already saved instead of logging it twice
+const newFoodLogFields = { ...foodLogFields, clientRequestId: optional(string({ maxLength: 64 })) };
+
+const foodLogInput = refine(object(newFoodLogFields), checkPer100g);
+
+// Imported entries must say when they were eaten, which is also how duplicates are recognised
+const importedFoodLogInput = refine(object({ ...newFoodLogFields, loggedAt: timestamp() }), checkPer100g);
+
+const foodLogUpdate = object({
+  ...partial(foodLogFields),
+  // Edits replayed from another device send the updatedAt they were based on
+  expectedUpdatedAt: optional(timestamp())
+});
+
+type FoodLogInput = Infer<typeof foodLogInput>;
+
+const logId = object({ id: recordId() });
+
+// Throw unless `from`-`to` is an inclusive range of at most `maxDays` days
+function checkDateRange(from: string, to: string, maxDays: number): void {
+  const rangeDays = (Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000);
+  if (rangeDays < 0 || rangeDays >= maxDays) {
+    throw badRequest(`from must not be after to, and the range may span at most ${maxDays} days`);
+  }
+}
+
+// Insert a validated log entry and return the new row, or the row an earlier request with the same
+// clientRequestId saved. A food or recipe the user can't see isn't linked.
+async function insertFoodLog(db: Client, userId: string, input: FoodLogInput): Promise<QueryResultRow> {
+  const result = await db.query(
+    `INSERT INTO food_logs (
+       user_id, name, calories, protein, carbs, fat, portion_size, logged_at, log_date, meal,
+       calories_per_100g, protein_per_100g, carbs_per_100g, fat_per_100g, serving_unit, serving_quantity,
+       micronutrients_per_100g, food_id, recipe_id, client_request_id
+     )
+     VALUES ($1, $2, $3, $4, $5, $6, $7, COALESCE($8, CURRENT_TIMESTAMP), $9, COALESCE($10, 'snacks'),
+             COALESCE($11, $3 * 100.0 / $7), COALESCE($12, $4 * 100.0 / $7),
+             COALESCE($13, $5 * 100.0 / $7), COALESCE($14, $6 * 100.0 / $7),
+             COALESCE($15, 'g'), COALESCE($16, $7), $17,
+             (SELECT id FROM food_items WHERE id = $18 AND (user_id IS NULL OR user_id = $1)),
+             (SELECT id FROM recipes WHERE id = $19 AND user_id = $1), $20)
+     ON CONFLICT (user_id, client_request_id) DO NOTHING
+     RETURNING *`,
+    [
+      userId,
+      input.name,
+      Math.round(input.calories),
+      input.protein,
+      input.carbs,
+      input.fat,
+      input.portionSize,
+      input.loggedAt ?? null,
+      input.logDate,
+      input.meal ?? null,
+      input.caloriesPer100g ?? null,
+      input.proteinPer100g ?? null,
+      input.carbsPer100g ?? null,
+      input.fatPer100g ?? null,
+      input.servingUnit ?? null,
+      input.servingQuantity ?? null,
+      JSON.stringify(input.micronutrientsPer100g ?? normalizeMicronutrients(null)),
+      input.foodId ?? null,
+      input.recipeId ?? null,
+      input.clientRequestId ?? null
+    ]
+  );
+  if (result.rows.length > 0) {
+    return result.rows[0];
+  }
+
+  const existing = await db.query(
+    'SELECT * FROM food_logs WHERE user_id = $1 AND client_request_id = $2',
+    [userId, input.clientRequestId]
+  );
+  return existing.rows[0];
+}
+
+export const logRoutes: Route[] = [
+  // Per-day totals for an inclusive date range, used for the log history view
+  defineRoute({
+    method: 'GET',
+    path: '/logs/summary',
+    query: object({ from: isoDate(), to: isoDate() })
+  }, async ({ db, userId, query: { from, to } }) => {
+    checkDateRange(from, to, MAX_SUMMARY_DAYS);
+
+    const result = await db.query(
+      `SELECT log_date,
+              COUNT(*) AS entry_count,
+              COALESCE(SUM(calories), 0) AS calories,
+              COALESCE(SUM(protein), 0) AS protein,
+              COALESCE(SUM(carbs), 0) AS carbs,
+              COALESCE(SUM(fat), 0) AS fat
+       FROM food_logs
+       WHERE user_id = $1 AND log_date BETWEEN $2 AND $3
+       GROUP BY log_date
+       ORDER BY log_date`,
+      [userId, from, to]
+    );
+
+    return ok(result.rows.map((row) => ({
+      date: row.log_date,
+      entryCount: Number(row.entry_count),
+      calories: Number(row.calories),
+      protein: Number(row.protein),
+      carbs: Number(row.carbs),
+      fat: Number(row.fat)
+    })));
+  }),
+
+  // Entries for a single `date`, or for an inclusive `from`-`to` range (used for export)
+  defineRoute({
+    method: 'GET',
+    path: '/logs',
+    query: object({ date: optional(isoDate()), from: optional(isoDate()), to: optional(isoDate()) })
+  }, async ({ db, userId, query: { date, from, to } }) => {
+    if (date !== undefined) {
+      const result = await db.query(
+        `SELECT * FROM food_logs
+         WHERE user_id = $1 AND log_date = $2
+         ORDER BY logged_at DESC`,
+        [userId, date]
+      );
+      return ok(result.rows.map(toFoodLogEntry));
+    }
+
+    if (from === undefined || to === undefined) {
+      throw badRequest('date, or both from and to, must be given in YYYY-MM-DD format');
+    }
+    checkDateRange(from, to, MAX_EXPORT_DAYS);
+
+    const result = await db.query(
+      `SELECT * FROM food_logs
+       WHERE user_id = $1 AND log_date BETWEEN $2 AND $3
+       ORDER BY log_date, logged_at`,
+      [userId, from, to]
+    );
+    return ok(result.rows.map(toFoodLogEntry));
+  }),
+
+  defineRoute({
+    method: 'POST',
+    path: '/logs',
+    body: foodLogInput
+  }, async ({ db, userId, body }) => created(toFoodLogEntry(await insertFoodLog(db, userId, body)))),
+
+  // Add many entries at once, e.g. from an export archive, in one transaction. An entry matching an
+  // existing one's name, time and portion is skipped so importing the same file twice doesn't double the log.
+  defineRoute({
+    method: 'POST',
+    path: '/logs/import',
+    body: object({ entries: array(importedFoodLogInput, { minLength: 1, maxLength: MAX_IMPORT_ENTRIES }) })
+  }, async ({ db, userId, body: { entries } }) => {
+    const imported = await withTransaction(db, async () => {
+      let count = 0;
+      for (const entry of entries) {
+        const duplicate = await db.query(
+          `SELECT 1 FROM food_logs
+           WHERE user_id = $1 AND name = $2 AND logged_at = $3 AND portion_size = $4
+           LIMIT 1`,
+          [userId, entry.name, entry.loggedAt, entry.portionSize]
+        );
+        if (duplicate.rows.length === 0) {
+          await insertFoodLog(db, userId, entry);
+          count += 1;
+        }
+      }
+      return count;
+    });
+
+    return ok({ imported, skipped: entries.length - imported });
+  }),
+
+  defineRoute({
+    method: 'PUT',
+    path: '/logs/:id',
+    params: logId,
+    body: foodLogUpdate
+  }, async ({ db, userId, params: { id }, body }) => {
+    const row = await withTransaction(db, async () => {
+      // If the entry has changed since the version the edit was based on, reject it rather than overwrite
+      if (body.expectedUpdatedAt !== undefined) {
+        const current = await db.query(
+          'SELECT * FROM food_logs WHERE id = $1 AND user_id = $2 FOR UPDATE',
+          [id, userId]
+        );
+        if (current.rows.length === 0) {
+          throw notFound('Log entry not found');
+        }
+        if (toFoodLogEntry(current.rows[0]).updatedAt !== new Date(body.expectedUpdatedAt).toISOString()) {
+          throw conflict('Log entry was changed on another device');
+        }
+      }
+
+      const result = await db.query(
+        `UPDATE food_logs SET
+           name = COALESCE($3, name),
+           calories = COALESCE($4, calories),
+           protein = COALESCE($5, protein),
+           carbs = COALESCE($6, carbs),
+           fat = COALESCE($7, fat),
+           portion_size = COALESCE($8, portion_size),
+           logged_at = COALESCE($9, logged_at),
+           log_date = COALESCE($10, log_date),
+           meal = COALESCE($11, meal),
+           calories_per_100g = COALESCE($12, calories_per_100g),
+           protein_per_100g = COALESCE($13, protein_per_100g),
+           carbs_per_100g = COALESCE($14, carbs_per_100g),
+           fat_per_100g = COALESCE($15, fat_per_100g),
+           serving_unit = COALESCE($16, serving_unit),
+           serving_quantity = COALESCE($17, serving_quantity),
+           micronutrients_per_100g = COALESCE($18, micronutrients_per_100g),
+           updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND user_id = $2
+         RETURNING *`,
+        [
+          id,
+          userId,
+          body.name ?? null,
+          body.calories !== undefined ? Math.round(body.calories) : null,
+          body.protein ?? null,
+          body.carbs ?? null,
+          body.fat ?? null,
+          body.portionSize ?? null,
+          body.loggedAt ?? null,
+          body.logDate ?? null,
+          body.meal ?? null,
+          body.caloriesPer100g ?? null,
+          body.proteinPer100g ?? null,
+          body.carbsPer100g ?? null,
+          body.fatPer100g ?? null,
+          body.servingUnit ?? null,
+          body.servingQuantity ?? null,
+          body.micronutrientsPer100g !== undefined ? JSON.stringify(body.micronutrientsPer100g) : null
+        ]
+      );
+      if (result.rows.length === 0) {
+        throw notFound('Log entry not found');
+      }
+      return result.rows[0];
+    });
+
+    return ok(toFoodLogEntry(row));
+  }),
+
+  defineRoute({
+    method: 'DELETE',
+    path: '/logs/:id',
+    params: logId
+  }, async ({ db, userId, params: { id } }) => {
+    const result = await db.query(
+      'DELETE FROM food_logs WHERE id = $1 AND user_id = $2 RETURNING id',
+      [id, userId]
+    );
+    if (result.rows.length === 0) {
+      throw notFound('Log entry not found');
+    }
+    return ok({ id: result.rows[0].id });
+  })
+];
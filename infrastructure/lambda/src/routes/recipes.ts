@@ -0,0 +1,251 @@
+import type { Client } from 'pg';
+import { withTransaction } from '../db';
+import { Food, MICRONUTRIENTS, Micronutrients, toMicronutrients } from '../nutrition';
+import { Route, badRequest, created, defineRoute, notFound, ok } from '../router';
+import { Infer, MAX_INTEGER, array, decimalMax, number, object, recordId, string } from '../validation';
+
+interface Nutrition {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+interface RecipeIngredient extends Nutrition {
+  foodId: number;
+  name: string;
+  grams: number;
+  micronutrients: Micronutrients;
+}
+
+export interface Recipe {
+  id: number;
+  name: string;
+  servings: number;
+  cookedWeightGrams: number;
+  ingredients: RecipeIngredient[];
+  totals: Nutrition;
+  per100g: Nutrition;
+  perServing: Nutrition;
+  micronutrientsPer100g: Micronutrients;
+}
+
+const roundToTenth = (value: number): number => Math.round(value * 10) / 10;
+
+const sumNutrition = (items: Nutrition[]): Nutrition => items.reduce(
+  (sum, item) => ({
+    calories: sum.calories + item.calories,
+    protein: sum.protein + item.protein,
+    carbs: sum.carbs + item.carbs,
+    fat: sum.fat + item.fat
+  }),
+  { calories: 0, protein: 0, carbs: 0, fat: 0 }
+);
+
+const scaleNutrition = (values: Nutrition, factor: number): Nutrition => ({
+  calories: Math.round(values.calories * factor),
+  protein: roundToTenth(values.protein * factor),
+  carbs: roundToTenth(values.carbs * factor),
+  fat: roundToTenth(values.fat * factor)
+});
+
+// Per-100g micronutrients of a cooked recipe; unknown if any ingredient lacks the value
+function sumRecipeMicronutrients(ingredients: RecipeIngredient[], cookedWeightGrams: number): Micronutrients {
+  const micronutrients = {} as Micronutrients;
+  for (const { key } of MICRONUTRIENTS) {
+    micronutrients[key] = ingredients.some((ingredient) => ingredient.micronutrients[key] === null)
+      ? null
+      : roundToTenth(
+        ingredients.reduce((sum, ingredient) => sum + ((ingredient.micronutrients[key] ?? 0) * ingredient.grams) / 100, 0)
+          * (100 / cookedWeightGrams)
+      );
+  }
+  return micronutrients;
+}
+
+// Load the caller's recipes with their ingredients and computed nutrition.
+// `nameFilter` is an ILIKE pattern; `recipeId` limits the result to one recipe.
+export async function loadRecipes(
+  db: Client,
+  userId: string,
+  { nameFilter = null, recipeId = null }: { nameFilter?: string | null; recipeId?: number | null } = {}
+): Promise<Recipe[]> {
+  const recipeResult = await db.query(
+    `SELECT * FROM recipes
+     WHERE user_id = $1
+       AND ($2::text IS NULL OR name ILIKE $2)
+       AND ($3::int IS NULL OR id = $3)
+     ORDER BY name`,
+    [userId, nameFilter, recipeId]
+  );
+  if (recipeResult.rows.length === 0) {
+    return [];
+  }
+
+  const ingredientResult = await db.query(
+    `SELECT ri.recipe_id, ri.food_id, ri.grams, f.*
+     FROM recipe_ingredients ri
+     JOIN food_items f ON f.id = ri.food_id
+     WHERE ri.recipe_id = ANY($1)
+     ORDER BY ri.id`,
+    [recipeResult.rows.map((row) => row.id)]
+  );
+
+  return recipeResult.rows.map((row) => {
+    const ingredients: RecipeIngredient[] = ingredientResult.rows
+      .filter((ingredient) => ingredient.recipe_id === row.id)
+      .map((ingredient) => ({
+        foodId: ingredient.food_id,
+        name: ingredient.name,
+        grams: Number(ingredient.grams),
+        // Per-100g values of the ingredient food
+        calories: Number(ingredient.calories),
+        protein: Number(ingredient.protein),
+        carbs: Number(ingredient.carbs),
+        fat: Number(ingredient.fat),
+        micronutrients: toMicronutrients(ingredient)
+      }));
+
+    const totals = sumNutrition(ingredients.map((ingredient) => ({
+      calories: (ingredient.calories * ingredient.grams) / 100,
+      protein: (ingredient.protein * ingredient.grams) / 100,
+      carbs: (ingredient.carbs * ingredient.grams) / 100,
+      fat: (ingredient.fat * ingredient.grams) / 100
+    })));
+    const cookedWeightGrams = Number(row.cooked_weight_grams);
+    const servings = Number(row.servings);
+
+    return {
+      id: row.id,
+      name: row.name,
+      servings,
+      cookedWeightGrams,
+      ingredients,
+      totals: scaleNutrition(totals, 1),
+      per100g: scaleNutrition(totals, 100 / cookedWeightGrams),
+      perServing: scaleNutrition(totals, 1 / servings),
+      micronutrientsPer100g: sumRecipeMicronutrients(ingredients, cookedWeightGrams)
+    };
+  });
+}
+
+// A recipe in the Food shape used by search results and the food log
+export function recipeToFood(recipe: Recipe): Food {
+  const servingSize = Math.round((recipe.cookedWeightGrams / recipe.servings) * 10) / 10;
+  return {
+    id: recipe.id,
+    name: recipe.name,
+    ...recipe.per100g,
+    isCustom: true,
+    type: 'recipe',
+    micronutrients: recipe.micronutrientsPer100g,
+    servingSize,
+    servings: [{ label: 'serving', grams: servingSize }]
+  };
+}
+
+const recipeId = object({ id: recordId() });
+
+const recipeInput = object({
+  name: string({ maxLength: 255 }),
+  servings: number({ integer: true, min: 1, max: MAX_INTEGER }),
+  cookedWeightGrams: number({ positive: true, max: decimalMax(8, 2) }),
+  ingredients: array(
+    object({
+      foodId: number({ integer: true, max: MAX_INTEGER }),
+      grams: number({ positive: true, max: decimalMax(8, 2) })
+    }),
+    { minLength: 1 }
+  )
+});
+
+type RecipeInput = Infer<typeof recipeInput>;
+
+// Ingredients must be shared foods or the caller's own custom foods
+async function findUnknownIngredient(db: Client, userId: string, ingredients: RecipeInput['ingredients']) {
+  const foodIds = [...new Set(ingredients.map((ingredient) => ingredient.foodId))];
+  const result = await db.query(
+    'SELECT id FROM food_items WHERE id = ANY($1) AND (user_id IS NULL OR user_id = $2)',
+    [foodIds, userId]
+  );
+  const knownIds = new Set(result.rows.map((row) => row.id));
+  return foodIds.find((id) => !knownIds.has(id)) ?? null;
+}
+
+async function saveRecipeIngredients(db: Client, id: number, ingredients: RecipeInput['ingredients']) {
+  await db.query('DELETE FROM recipe_ingredients WHERE recipe_id = $1', [id]);
+  for (const ingredient of ingredients) {
+    await db.query(
+      'INSERT INTO recipe_ingredients (recipe_id, food_id, grams) VALUES ($1, $2, $3)',
+      [id, ingredient.foodId, ingredient.grams]
+    );
+  }
+}
+
+// Create a recipe, or replace an existing one's details and ingredients when `id` is given
+async function saveRecipe(db: Client, userId: string, id: number | null, input: RecipeInput): Promise<Recipe> {
+  const unknownFoodId = await findUnknownIngredient(db, userId, input.ingredients);
+  if (unknownFoodId !== null) {
+    throw badRequest(`Food ${unknownFoodId} not found`);
+  }
+
+  const savedId = await withTransaction(db, async () => {
+    const result = id === null
+      ? await db.query(
+        `INSERT INTO recipes (user_id, name, servings, cooked_weight_grams)
+         VALUES ($1, $2, $3, $4)
+         RETURNING id`,
+        [userId, input.name, input.servings, input.cookedWeightGrams]
+      )
+      : await db.query(
+        `UPDATE recipes SET name = $3, servings = $4, cooked_weight_grams = $5, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND user_id = $2
+         RETURNING id`,
+        [id, userId, input.name, input.servings, input.cookedWeightGrams]
+      );
+    if (result.rows.length === 0) {
+      throw notFound('Recipe not found');
+    }
+
+    await saveRecipeIngredients(db, result.rows[0].id, input.ingredients);
+    return result.rows[0].id as number;
+  });
+
+  const [recipe] = await loadRecipes(db, userId, { recipeId: savedId });
+  return recipe;
+}
+
+export const recipeRoutes: Route[] = [
+  defineRoute({
+    method: 'GET',
+    path: '/recipes'
+  }, async ({ db, userId }) => ok(await loadRecipes(db, userId))),
+
+  defineRoute({
+    method: 'POST',
+    path: '/recipes',
+    body: recipeInput
+  }, async ({ db, userId, body }) => created(await saveRecipe(db, userId, null, body))),
+
+  defineRoute({
+    method: 'PUT',
+    path: '/recipes/:id',
+    params: recipeId,
+    body: recipeInput
+  }, async ({ db, userId, params, body }) => ok(await saveRecipe(db, userId, params.id, body))),
+
+  defineRoute({
+    method: 'DELETE',
+    path: '/recipes/:id',
+    params: recipeId
+  }, async ({ db, userId, params }) => {
+    const result = await db.query(
+      'DELETE FROM recipes WHERE id = $1 AND user_id = $2 RETURNING id',
+      [params.id, userId]
+    );
+    if (result.rows.length === 0) {
+      throw notFound('Recipe not found');
+    }
+    return ok({ id: result.rows[0].id });
+  })
+];
@@ -0,0 +1,85 @@
+import type { Client, QueryResultRow } from 'pg';
+import { withTransaction } from '../db';
+import { Route, defineRoute, notFound, ok } from '../router';
+import { Infer, array, isoDate, number, object, optional, recordId } from '../validation';
+import { MAX_IMPORT_ENTRIES } from './logs';
+
+const MIN_WEIGHT_KG = 20;
+const MAX_WEIGHT_KG = 500;
+
+const toWeightEntry = (row: QueryResultRow) => ({
+  id: row.id as number,
+  date: row.entry_date as string,
+  weightKg: Number(row.weight_kg)
+});
+
+const weightInput = object({
+  date: isoDate(),
+  weightKg: number({ min: MIN_WEIGHT_KG, max: MAX_WEIGHT_KG })
+});
+
+// A second weigh-in on the same day replaces the first
+async function upsertWeightEntry(db: Client, userId: string, input: Infer<typeof weightInput>) {
+  const result = await db.query(
+    `INSERT INTO weight_entries (user_id, entry_date, weight_kg)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (user_id, entry_date)
+     DO UPDATE SET weight_kg = EXCLUDED.weight_kg, updated_at = CURRENT_TIMESTAMP
+     RETURNING *`,
+    [userId, input.date, input.weightKg]
+  );
+  return result.rows[0];
+}
+
+export const weightRoutes: Route[] = [
+  defineRoute({
+    method: 'GET',
+    path: '/weights',
+    query: object({ from: optional(isoDate()), to: optional(isoDate()) })
+  }, async ({ db, userId, query: { from, to } }) => {
+    const result = await db.query(
+      `SELECT * FROM weight_entries
+       WHERE user_id = $1
+         AND ($2::date IS NULL OR entry_date >= $2::date)
+         AND ($3::date IS NULL OR entry_date <= $3::date)
+       ORDER BY entry_date`,
+      [userId, from ?? null, to ?? null]
+    );
+    return ok(result.rows.map(toWeightEntry));
+  }),
+
+  defineRoute({
+    method: 'POST',
+    path: '/weights',
+    body: weightInput
+  }, async ({ db, userId, body }) => ok(toWeightEntry(await upsertWeightEntry(db, userId, body)))),
+
+  // Record many weigh-ins in one transaction; each replaces any existing weigh-in for its day
+  defineRoute({
+    method: 'POST',
+    path: '/weights/import',
+    body: object({ entries: array(weightInput, { minLength: 1, maxLength: MAX_IMPORT_ENTRIES }) })
+  }, async ({ db, userId, body: { entries } }) => {
+    await withTransaction(db, async () => {
+      for (const entry of entries) {
+        await upsertWeightEntry(db, userId, entry);
+      }
+    });
+    return ok({ imported: entries.length });
+  }),
+
+  defineRoute({
+    method: 'DELETE',
+    path: '/weights/:id',
+    params: object({ id: recordId() })
+  }, async ({ db, userId, params: { id } }) => {
+    const result = await db.query(
+      'DELETE FROM weight_entries WHERE id = $1 AND user_id = $2 RETURNING id',
+      [id, userId]
+    );
+    if (result.rows.length === 0) {
+      throw notFound('Weight entry not found');
+    }
+    return ok({ id: result.rows[0].id });
+  })
+];
@@ -0,0 +1,74 @@
+import { statSync } from 'fs';
+import { Client } from 'pg';
+import { ImportedFood, normalizeFdcFood } from '../usda/fdc';
+import { importFoods } from '../usda/importer';
+import { readFdcCsv, readFdcJson } from '../usda/readers';
+
+// Load a USDA FoodData Central download (https://fdc.nal.usda.gov/download-datasets) into food_items:
+//   DATABASE_URL=postgres://... npm run import:usda -- ~/Downloads/FoodData_Central_foundation_food_json.json
+//   npm run import:usda -- ~/Downloads/FoodData_Central_csv_2024-04-18 --dry-run
+// Run `npm run migrate -- up` first. --dry-run reads and checks the foods without touching the database.
+const USAGE = 'Usage: npm run import:usda -- <download.json | csv-directory> [--dry-run]';
+
+// How many example FDC ids to list for each rejection reason
+const EXAMPLES_PER_REASON = 5;
+
+function printRejections(rejected: Map<string, string[]>): void {
+  const byCount = [...rejected.entries()].sort((a, b) => b[1].length - a[1].length);
+  for (const [reason, ids] of byCount) {
+    const examples = ids.slice(0, EXAMPLES_PER_REASON).join(', ');
+    console.log(`  ${String(ids.length).padStart(7)}  ${reason} (e.g. ${examples})`);
+  }
+}
+
+async function main(args: string[]): Promise<void> {
+  const dryRun = args.includes('--dry-run');
+  const paths = args.filter((arg) => arg !== '--dry-run');
+  if (paths.length !== 1 || paths[0].startsWith('--')) {
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const [path] = paths;
+  const downloaded = statSync(path).isDirectory() ? await readFdcCsv(path) : await readFdcJson(path);
+  console.log(`Read ${downloaded.length} foods from ${path}`);
+
+  const accepted: ImportedFood[] = [];
+  const rejected = new Map<string, string[]>();
+  for (const food of downloaded) {
+    const result = normalizeFdcFood(food);
+    if ('food' in result) {
+      accepted.push(result.food);
+    } else {
+      const ids = rejected.get(result.rejected) ?? [];
+      ids.push(food.fdcId);
+      rejected.set(result.rejected, ids);
+    }
+  }
+  const rejectedCount = downloaded.length - accepted.length;
+
+  if (dryRun) {
+    console.log(`Would import: ${accepted.length}`);
+  } else {
+    const db = new Client({ connectionString: process.env.DATABASE_URL });
+    await db.connect();
+    try {
+      const { inserted, updated } = await importFoods(db, accepted, (done) => {
+        console.log(`  ${done}/${accepted.length} saved`);
+      });
+      console.log(`Inserted: ${inserted}`);
+      console.log(`Updated:  ${updated}`);
+    } finally {
+      await db.end();
+    }
+  }
+
+  console.log(`Rejected: ${rejectedCount}`);
+  printRejections(rejected);
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  console.error('Import failed:', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,243 @@
+import {
+  MAX_CALORIES_PER_100G,
+  MAX_MACROS_PER_100G,
+  MAX_SERVING_LABEL_LENGTH,
+  MicronutrientKey,
+  Micronutrients,
+  Serving,
+  normalizeBarcode,
+  normalizeMicronutrients
+} from '../nutrition';
+
+// Value stored in food_items.source for foods imported from FoodData Central
+export const USDA_SOURCE = 'usda';
+
+const MAX_NAME_LENGTH = 255;
+
+// Data types that describe foods people eat; FDC downloads also contain lab samples and acquisitions
+const SUPPORTED_DATA_TYPES = ['Foundation', 'SR Legacy', 'Survey (FNDDS)', 'Branded'];
+
+export interface FdcNutrient {
+  number: string;
+  unit: string;
+  amount: number;
+}
+
+// A food as read from a FoodData Central download, before it is checked and normalized.
+// Nutrient amounts are per 100 units of the food: grams, or for some branded foods millilitres.
+export interface FdcFood {
+  fdcId: string;
+  dataType: string;
+  description: string;
+  brandOwner: string | null;
+  gtinUpc: string | null;
+  servingSizeUnit: string | null; // branded foods only
+  nutrients: FdcNutrient[];
+  portions: Serving[];
+}
+
+// A food ready to upsert into food_items, with every value per 100g
+export interface ImportedFood {
+  sourceId: string;
+  name: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  barcode: string | null;
+  micronutrients: Micronutrients;
+  servings: Serving[];
+}
+
+export type NormalizeResult = { food: ImportedFood } | { rejected: string };
+
+type Unit = 'g' | 'mg' | 'ug' | 'kcal';
+
+interface NutrientSource {
+  numbers: string[]; // FDC nutrient numbers, most preferred first
+  unit: Unit; // the unit we store
+}
+
+const ENERGY: NutrientSource = { numbers: ['208', '957', '958', '268'], unit: 'kcal' };
+const PROTEIN: NutrientSource = { numbers: ['203'], unit: 'g' };
+const CARBS: NutrientSource = { numbers: ['205', '205.2'], unit: 'g' };
+const FAT: NutrientSource = { numbers: ['204'], unit: 'g' };
+
+// Units match the comment on MICRONUTRIENTS
+const MICRONUTRIENT_SOURCES: Record<MicronutrientKey, NutrientSource> = {
+  fiber: { numbers: ['291'], unit: 'g' },
+  sugar: { numbers: ['269', '269.3'], unit: 'g' },
+  saturatedFat: { numbers: ['606'], unit: 'g' },
+  sodium: { numbers: ['307'], unit: 'mg' },
+  potassium: { numbers: ['306'], unit: 'mg' },
+  cholesterol: { numbers: ['601'], unit: 'mg' },
+  calcium: { numbers: ['301'], unit: 'mg' },
+  iron: { numbers: ['303'], unit: 'mg' },
+  vitaminA: { numbers: ['320'], unit: 'ug' },
+  vitaminC: { numbers: ['401'], unit: 'mg' },
+  vitaminD: { numbers: ['328', '324'], unit: 'ug' }
+};
+
+const USED_NUTRIENT_NUMBERS = new Set(
+  [ENERGY, PROTEIN, CARBS, FAT, ...Object.values(MICRONUTRIENT_SOURCES)].flatMap(({ numbers }) => numbers)
+);
+
+const GRAMS_PER_UNIT: Record<string, number> = { g: 1, mg: 1e-3, ug: 1e-6 };
+const KJ_PER_KCAL = 4.184;
+const VITAMIN_D_IU_PER_UG = 40;
+
+// FDC writes nutrient numbers as '203' in JSON but sometimes '203.0' in CSV
+export function toNutrientNumber(value: string | number | null | undefined): string | null {
+  if (value === null || value === undefined || value === '' || isNaN(Number(value))) {
+    return null;
+  }
+  return String(Number(value));
+}
+
+// Whether a reader needs to keep a nutrient; everything else is dropped to save memory
+export const isUsedNutrient = (number: string | null): boolean => number !== null && USED_NUTRIENT_NUMBERS.has(number);
+
+function canonicalUnit(unit: string | null): string {
+  const lower = (unit ?? '').trim().toLowerCase();
+  if (lower === 'µg' || lower === 'μg' || lower === 'mcg') {
+    return 'ug';
+  }
+  return lower === 'grm' ? 'g' : lower;
+}
+
+function convert(amount: number, from: string, to: Unit): number | null {
+  const unit = canonicalUnit(from);
+  if (to === 'kcal') {
+    return unit === 'kcal' ? amount : unit === 'kj' ? amount / KJ_PER_KCAL : null;
+  }
+  // International units only appear here for vitamin D
+  if (unit === 'iu') {
+    return to === 'ug' ? amount / VITAMIN_D_IU_PER_UG : null;
+  }
+  const grams = GRAMS_PER_UNIT[unit];
+  return grams === undefined ? null : (amount * grams) / GRAMS_PER_UNIT[to];
+}
+
+function findAmount(nutrients: FdcNutrient[], source: NutrientSource): number | null {
+  for (const number of source.numbers) {
+    for (const nutrient of nutrients) {
+      if (nutrient.number === number && Number.isFinite(nutrient.amount)) {
+        const amount = convert(nutrient.amount, nutrient.unit, source.unit);
+        if (amount !== null) {
+          return amount;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const formatAmount = (amount: number): string => String(round2(amount));
+
+// A household portion as a serving, labelled the way a user would pick it (e.g. '1 cup, chopped').
+// Returns null for portions that can't be a serving: no gram weight, no usable label, or 'g' itself.
+export function portionServing(portion: {
+  amount: number | null;
+  unit: string | null;
+  modifier: string | null;
+  description: string | null;
+  grams: number;
+}): Serving | null {
+  if (!Number.isFinite(portion.grams) || portion.grams <= 0) {
+    return null;
+  }
+
+  let label = portion.description?.trim() ?? '';
+  if (!label || label === 'Quantity not specified') {
+    const unit = portion.unit && portion.unit !== 'undetermined' ? portion.unit.trim() : '';
+    const modifier = portion.modifier?.trim() ?? '';
+    const amount = portion.amount !== null && portion.amount > 0 ? formatAmount(portion.amount) : '';
+    label = [amount, unit].filter(Boolean).join(' ');
+    if (modifier) {
+      label = label && unit ? `${label}, ${modifier}` : [label, modifier].filter(Boolean).join(' ');
+    }
+  }
+
+  if (!label || label === 'g' || label.length > MAX_SERVING_LABEL_LENGTH) {
+    return null;
+  }
+  return { label, grams: round2(portion.grams) };
+}
+
+// A branded food's label serving (e.g. '2 cookies' = 30g); only usable when measured in grams
+export function brandedServing(text: string | null, size: number | null, unit: string | null): Serving | null {
+  if (!text || size === null || canonicalUnit(unit) !== 'g') {
+    return null;
+  }
+  return portionServing({ amount: null, unit: null, modifier: null, description: text, grams: size });
+}
+
+function uniqueServings(servings: Serving[]): Serving[] {
+  const labels = new Set<string>();
+  return servings.filter(({ label }) => {
+    if (labels.has(label)) {
+      return false;
+    }
+    labels.add(label);
+    return true;
+  });
+}
+
+// Check a food from a download and convert it to what food_items stores. A food is rejected, with
+// a reason for the import report, rather than stored with missing or implausible values.
+export function normalizeFdcFood(food: FdcFood): NormalizeResult {
+  const description = food.description.trim();
+  if (!description) {
+    return { rejected: 'Missing description' };
+  }
+  if (!SUPPORTED_DATA_TYPES.includes(food.dataType)) {
+    return { rejected: `Unsupported data type ${food.dataType || '(none)'}` };
+  }
+  if (food.servingSizeUnit && canonicalUnit(food.servingSizeUnit) !== 'g') {
+    return { rejected: `Nutrients are per 100 ${canonicalUnit(food.servingSizeUnit)}, not per 100g` };
+  }
+
+  const name = food.brandOwner ? `${description} (${food.brandOwner.trim()})` : description;
+  if (name.length > MAX_NAME_LENGTH) {
+    return { rejected: `Name is longer than ${MAX_NAME_LENGTH} characters` };
+  }
+
+  const calories = findAmount(food.nutrients, ENERGY);
+  const protein = findAmount(food.nutrients, PROTEIN);
+  const carbs = findAmount(food.nutrients, CARBS);
+  const fat = findAmount(food.nutrients, FAT);
+  if (calories === null || protein === null || carbs === null || fat === null) {
+    return { rejected: 'Missing energy, protein, carbs or fat' };
+  }
+  if ([calories, protein, carbs, fat].some((value) => value < 0)) {
+    return { rejected: 'Negative nutrient value' };
+  }
+  if (calories > MAX_CALORIES_PER_100G) {
+    return { rejected: `More than ${MAX_CALORIES_PER_100G} kcal per 100g` };
+  }
+  if (protein + carbs + fat > MAX_MACROS_PER_100G) {
+    return { rejected: `Protein, carbs and fat add up to more than ${MAX_MACROS_PER_100G}g per 100g` };
+  }
+
+  const micronutrients = normalizeMicronutrients(null);
+  for (const [key, source] of Object.entries(MICRONUTRIENT_SOURCES) as [MicronutrientKey, NutrientSource][]) {
+    const amount = findAmount(food.nutrients, source);
+    micronutrients[key] = amount !== null && amount >= 0 ? round2(amount) : null;
+  }
+
+  return {
+    food: {
+      sourceId: food.fdcId,
+      name,
+      calories: Math.round(calories),
+      protein: round2(protein),
+      carbs: round2(carbs),
+      fat: round2(fat),
+      barcode: food.gtinUpc ? normalizeBarcode(food.gtinUpc) : null,
+      micronutrients,
+      servings: uniqueServings(food.portions)
+    }
+  };
+}
@@ -0,0 +1,75 @@
+import type { Client } from 'pg';
+import { withTransaction } from '../db';
+import { MICRONUTRIENTS } from '../nutrition';
+import { ImportedFood, USDA_SOURCE } from './fdc';
+
+const BATCH_SIZE = 500;
+
+const FOOD_COLUMNS = [
+  'source',
+  'source_id',
+  'name',
+  'calories',
+  'protein',
+  'carbs',
+  'fat',
+  'barcode',
+  ...MICRONUTRIENTS.map(({ column }) => column)
+];
+
+// xmax is 0 only for a freshly inserted row, which tells inserts and updates apart
+const UPSERT_FOOD = `
+  INSERT INTO food_items (${FOOD_COLUMNS.join(', ')})
+  VALUES (${FOOD_COLUMNS.map((_, index) => `$${index + 1}`).join(', ')})
+  ON CONFLICT (source, source_id) DO UPDATE SET
+    ${FOOD_COLUMNS.slice(2).map((column) => `${column} = EXCLUDED.${column}`).join(',\n    ')}
+  RETURNING id, (xmax = 0) AS inserted
+`;
+
+export interface ImportCounts {
+  inserted: number;
+  updated: number;
+}
+
+// Upsert foods by their FoodData Central id and replace their servings with the imported ones.
+// Each batch is its own transaction, so an interrupted import can simply be run again.
+export async function importFoods(
+  db: Client,
+  foods: ImportedFood[],
+  onBatch?: (done: number) => void
+): Promise<ImportCounts> {
+  const counts: ImportCounts = { inserted: 0, updated: 0 };
+
+  for (let start = 0; start < foods.length; start += BATCH_SIZE) {
+    const batch = foods.slice(start, start + BATCH_SIZE);
+    await withTransaction(db, async () => {
+      for (const food of batch) {
+        const result = await db.query(UPSERT_FOOD, [
+          USDA_SOURCE,
+          food.sourceId,
+          food.name,
+          food.calories,
+          food.protein,
+          food.carbs,
+          food.fat,
+          food.barcode,
+          ...MICRONUTRIENTS.map(({ key }) => food.micronutrients[key])
+        ]);
+        const { id, inserted } = result.rows[0];
+        counts[inserted ? 'inserted' : 'updated'] += 1;
+
+        await db.query('DELETE FROM food_servings WHERE food_id = $1', [id]);
+        if (food.servings.length > 0) {
+          await db.query(
+            `INSERT INTO food_servings (food_id, label, grams)
+             SELECT $1, * FROM unnest($2::varchar[], $3::numeric[])`,
+            [id, food.servings.map(({ label }) => label), food.servings.map(({ grams }) => grams)]
+          );
+        }
+      }
+    });
+    onBatch?.(start + batch.length);
+  }
+
+  return counts;
+}
@@ -0,0 +1,247 @@
+import { createReadStream, existsSync } from 'fs';
+import { readFile, stat } from 'fs/promises';
+import { join } from 'path';
+import type { Serving } from '../nutrition';
+import { FdcFood, brandedServing, isUsedNutrient, portionServing, toNutrientNumber } from './fdc';
+
+// The CSV download names data types differently from the JSON one
+const CSV_DATA_TYPES: Record<string, string> = {
+  foundation_food: 'Foundation',
+  sr_legacy_food: 'SR Legacy',
+  survey_fndds_food: 'Survey (FNDDS)',
+  branded_food: 'Branded'
+};
+
+interface JsonFood {
+  fdcId?: number | string;
+  dataType?: string;
+  description?: string;
+  brandOwner?: string;
+  gtinUpc?: string;
+  servingSize?: number;
+  servingSizeUnit?: string;
+  householdServingFullText?: string;
+  foodNutrients?: { nutrient?: { number?: string; unitName?: string }; amount?: number }[];
+  foodPortions?: {
+    amount?: number;
+    gramWeight?: number;
+    modifier?: string;
+    portionDescription?: string;
+    measureUnit?: { name?: string };
+  }[];
+}
+
+const toNumberOrNull = (value: string | number | null | undefined): number | null =>
+  value === null || value === undefined || value === '' || isNaN(Number(value)) ? null : Number(value);
+
+const nonEmpty = (value: string | null | undefined): string | null => (value && value.trim() ? value.trim() : null);
+
+function fromJsonFood(food: JsonFood): FdcFood {
+  const nutrients = (food.foodNutrients ?? []).flatMap(({ nutrient, amount }) => {
+    const number = toNutrientNumber(nutrient?.number);
+    return isUsedNutrient(number) && typeof amount === 'number'
+      ? [{ number: number as string, unit: nutrient?.unitName ?? '', amount }]
+      : [];
+  });
+
+  const portions = (food.foodPortions ?? []).map((portion) => portionServing({
+    amount: toNumberOrNull(portion.amount),
+    unit: nonEmpty(portion.measureUnit?.name),
+    modifier: nonEmpty(portion.modifier),
+    description: nonEmpty(portion.portionDescription),
+    grams: Number(portion.gramWeight)
+  }));
+  portions.push(brandedServing(
+    nonEmpty(food.householdServingFullText),
+    toNumberOrNull(food.servingSize),
+    nonEmpty(food.servingSizeUnit)
+  ));
+
+  return {
+    fdcId: String(food.fdcId ?? ''),
+    dataType: food.dataType ?? '',
+    description: food.description ?? '',
+    brandOwner: nonEmpty(food.brandOwner),
+    gtinUpc: nonEmpty(food.gtinUpc),
+    servingSizeUnit: nonEmpty(food.servingSizeUnit),
+    nutrients,
+    portions: portions.filter((serving): serving is Serving => serving !== null)
+  };
+}
+
+// Node can't hold a string much longer than this, and parsing one takes several times its size in memory
+const MAX_JSON_BYTES = 512 * 1024 * 1024;
+
+// Read a FoodData Central JSON download. The whole file is parsed at once, so larger datasets such as
+// branded foods must be imported from the CSV download, which readFdcCsv streams.
+export async function readFdcJson(path: string): Promise<FdcFood[]> {
+  const { size } = await stat(path);
+  if (size > MAX_JSON_BYTES) {
+    throw new Error(
+      `${path} is ${Math.round(size / 1024 / 1024)} MB, too large to import as JSON. ` +
+      'Download the CSV version of this dataset and pass its unzipped directory instead.'
+    );
+  }
+  const document: unknown = JSON.parse(await readFile(path, 'utf8'));
+  // Downloads wrap the list in a key named after the dataset, e.g. FoundationFoods or SRLegacyFoods
+  const list = Array.isArray(document)
+    ? document
+    : Object.values(document as Record<string, unknown>).find(Array.isArray);
+  if (!list) {
+    throw new Error(`${path} does not contain a list of foods`);
+  }
+  return (list as JsonFood[]).map(fromJsonFood);
+}
+
+// Yield each record of a CSV file keyed by its header row. Quoted fields may contain commas,
+// doubled quotes and line breaks; the file is streamed rather than loaded whole.
+async function* readCsv(path: string): AsyncGenerator<Record<string, string>> {
+  let header: string[] | null = null;
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let quotePending = false; // a quote inside a quoted field: either escaped ("") or closing
+
+  const toRow = (values: string[]): Record<string, string> | null => {
+    if (!header) {
+      header = values.map((name, index) => (index === 0 ? name.replace(/^\uFEFF/, '') : name));
+      return null;
+    }
+    if (values.length === 1 && values[0] === '') {
+      return null;
+    }
+    const columns = header;
+    return Object.fromEntries(columns.map((name, index) => [name, values[index] ?? '']));
+  };
+
+  for await (const chunk of createReadStream(path, { encoding: 'utf8' })) {
+    for (const char of chunk as string) {
+      if (quotePending) {
+        quotePending = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+      if (inQuotes) {
+        if (char === '"') {
+          quotePending = true;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        record.push(field);
+        field = '';
+      } else if (char === '\n') {
+        record.push(field);
+        const row = toRow(record);
+        record = [];
+        field = '';
+        if (row) {
+          yield row;
+        }
+      } else if (char !== '\r') {
+        field += char;
+      }
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    const row = toRow(record);
+    if (row) {
+      yield row;
+    }
+  }
+}
+
+// Read a directory from the FoodData Central CSV download. food.csv, nutrient.csv and
+// food_nutrient.csv are required; branded_food.csv, food_portion.csv and measure_unit.csv add
+// brands, barcodes and servings when present.
+export async function readFdcCsv(directory: string): Promise<FdcFood[]> {
+  const file = (name: string): string => join(directory, name);
+  for (const name of ['food.csv', 'nutrient.csv', 'food_nutrient.csv']) {
+    if (!existsSync(file(name))) {
+      throw new Error(`${directory} has no ${name}; expected an unzipped FoodData Central CSV download`);
+    }
+  }
+
+  const foods = new Map<string, FdcFood>();
+  for await (const row of readCsv(file('food.csv'))) {
+    foods.set(row.fdc_id, {
+      fdcId: row.fdc_id,
+      dataType: CSV_DATA_TYPES[row.data_type] ?? row.data_type,
+      description: row.description,
+      brandOwner: null,
+      gtinUpc: null,
+      servingSizeUnit: null,
+      nutrients: [],
+      portions: []
+    });
+  }
+
+  const nutrients = new Map<string, { number: string; unit: string }>();
+  for await (const row of readCsv(file('nutrient.csv'))) {
+    const number = toNutrientNumber(row.nutrient_nbr);
+    if (isUsedNutrient(number)) {
+      nutrients.set(row.id, { number: number as string, unit: row.unit_name });
+    }
+  }
+
+  for await (const row of readCsv(file('food_nutrient.csv'))) {
+    const nutrient = nutrients.get(row.nutrient_id);
+    const food = foods.get(row.fdc_id);
+    const amount = toNumberOrNull(row.amount);
+    if (nutrient && food && amount !== null) {
+      food.nutrients.push({ ...nutrient, amount });
+    }
+  }
+
+  if (existsSync(file('branded_food.csv'))) {
+    for await (const row of readCsv(file('branded_food.csv'))) {
+      const food = foods.get(row.fdc_id);
+      if (!food) {
+        continue;
+      }
+      food.brandOwner = nonEmpty(row.brand_owner);
+      food.gtinUpc = nonEmpty(row.gtin_upc);
+      food.servingSizeUnit = nonEmpty(row.serving_size_unit);
+      const serving = brandedServing(
+        nonEmpty(row.household_serving_fulltext),
+        toNumberOrNull(row.serving_size),
+        food.servingSizeUnit
+      );
+      if (serving) {
+        food.portions.push(serving);
+      }
+    }
+  }
+
+  if (existsSync(file('food_portion.csv'))) {
+    const measureUnits = new Map<string, string>();
+    if (existsSync(file('measure_unit.csv'))) {
+      for await (const row of readCsv(file('measure_unit.csv'))) {
+        measureUnits.set(row.id, row.name);
+      }
+    }
+
+    for await (const row of readCsv(file('food_portion.csv'))) {
+      const food = foods.get(row.fdc_id);
+      const serving = food && portionServing({
+        amount: toNumberOrNull(row.amount),
+        unit: measureUnits.get(row.measure_unit_id) ?? null,
+        modifier: nonEmpty(row.modifier),
+        description: nonEmpty(row.portion_description),
+        grams: Number(row.gram_weight)
+      });
+      if (food && serving) {
+        food.portions.push(serving);
+      }
+    }
+  }
+
+  return [...foods.values()];
+}
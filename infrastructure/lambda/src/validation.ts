@@ -0,0 +1,154 @@
+// Minimal schema validation for request params, query strings and bodies.
+// A schema checks an unknown value and returns it typed (and trimmed or coerced where noted),
+// or throws a ValidationError naming the offending field.
+
+export class ValidationError extends Error {}
+
+export type Schema<T> = (value: unknown, field: string) => T;
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+type InferShape<S extends Shape> = { [K in keyof S]: Infer<S[K]> };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const fieldPath = (parent: string, key: string): string => (parent ? `${parent}.${key}` : key);
+
+export const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Trimmed string; empty strings are rejected unless `allowEmpty` is set
+export const string = ({ maxLength, allowEmpty = false }: { maxLength?: number; allowEmpty?: boolean } = {}): Schema<string> =>
+  (value, field) => {
+    if (typeof value !== 'string' || (!allowEmpty && !value.trim())) {
+      throw new ValidationError(`${field} is required`);
+    }
+    const trimmed = value.trim();
+    if (maxLength !== undefined && trimmed.length > maxLength) {
+      throw new ValidationError(`${field} must be at most ${maxLength} characters`);
+    }
+    return trimmed;
+  };
+
+interface NumberOptions {
+  min?: number;
+  max?: number;
+  positive?: boolean; // exclusive minimum
+  integer?: boolean;
+}
+
+// Largest values Postgres INTEGER and DECIMAL(precision, scale) columns hold, e.g. 9999.99 for DECIMAL(6,2)
+export const MAX_INTEGER = 2147483647;
+export const decimalMax = (precision: number, scale: number): number =>
+  Number((10 ** (precision - scale) - 10 ** -scale).toFixed(scale));
+
+// Finite number, non-negative unless `min` says otherwise
+export const number = ({ min = 0, max, positive = false, integer = false }: NumberOptions = {}): Schema<number> =>
+  (value, field) => {
+    const isValid = typeof value === 'number'
+      && Number.isFinite(value)
+      && (!integer || Number.isInteger(value))
+      && (positive ? value > min : value >= min)
+      && (max === undefined || value <= max);
+    if (isValid) {
+      return value;
+    }
+
+    const kind = integer ? 'whole number' : 'number';
+    if (max !== undefined) {
+      throw new ValidationError(positive
+        ? `${field} must be a ${kind} greater than ${min} and at most ${max}`
+        : `${field} must be a ${kind} between ${min} and ${max}`);
+    }
+    if (positive && min === 0) {
+      throw new ValidationError(`${field} must be a positive ${kind}`);
+    }
+    throw new ValidationError(
+      min === 0 ? `${field} must be a non-negative ${kind}` : `${field} must be a ${kind} of at least ${min}`
+    );
+  };
+
+// Calendar date in YYYY-MM-DD form. Date.parse rolls 2024-02-31 over to March, so the parts must
+// survive a round trip through Date.UTC for the date to exist.
+export const isoDate = (): Schema<string> => (value, field) => {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) {
+    throw new ValidationError(`${field} must be in YYYY-MM-DD format`);
+  }
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    throw new ValidationError(`${field} must be a valid date`);
+  }
+  return value;
+};
+
+export const timestamp = (): Schema<string> => (value, field) => {
+  if (typeof value !== 'string' || isNaN(Date.parse(value))) {
+    throw new ValidationError(`${field} must be an ISO timestamp`);
+  }
+  return value;
+};
+
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> => (value, field) => {
+  if (!values.includes(value as T)) {
+    throw new ValidationError(`${field} must be one of: ${values.join(', ')}`);
+  }
+  return value as T;
+};
+
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> =>
+  (value, field) => (value === undefined ? undefined : schema(value, field));
+
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> =>
+  (value, field) => (value === null ? null : schema(value, field));
+
+// Path parameters and query strings arrive as text; parse numeric ones before checking them
+export const fromString = <T>(schema: Schema<T>): Schema<T> => (value, field) =>
+  schema(typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value, field);
+
+// Database id from a path parameter such as /logs/:id
+export const recordId = (): Schema<number> => fromString(number({ integer: true, positive: true, max: MAX_INTEGER }));
+
+export const array = <T>(item: Schema<T>, { minLength = 0, maxLength }: { minLength?: number; maxLength?: number } = {}): Schema<T[]> =>
+  (value, field) => {
+    if (!Array.isArray(value) || value.length < minLength || (maxLength !== undefined && value.length > maxLength)) {
+      throw new ValidationError(
+        maxLength !== undefined
+          ? `${field} must be an array of ${minLength} to ${maxLength} items`
+          : minLength > 0 ? `${field} must be a non-empty array` : `${field} must be an array`
+      );
+    }
+    return value.map((element, index) => item(element, `${field}[${index}]`));
+  };
+
+// Object with the given fields; unknown keys are dropped. The top-level body uses an empty field name.
+export const object = <S extends Shape>(shape: S): Schema<InferShape<S>> => (value, field) => {
+  if (!isPlainObject(value)) {
+    throw new ValidationError(`${field || 'Request body'} must be a JSON object`);
+  }
+
+  const result = {} as InferShape<S>;
+  for (const key of Object.keys(shape) as (keyof S & string)[]) {
+    result[key] = shape[key](value[key], fieldPath(field, key)) as Infer<S[typeof key]>;
+  }
+  return result;
+};
+
+// The same fields with every one of them optional, for partial updates
+export const partial = <S extends Shape>(shape: S): { [K in keyof S]: Schema<Infer<S[K]> | undefined> } => {
+  const result = {} as { [K in keyof S]: Schema<Infer<S[K]> | undefined> };
+  for (const key of Object.keys(shape) as (keyof S)[]) {
+    result[key] = optional(shape[key]) as Schema<Infer<S[typeof key]> | undefined>;
+  }
+  return result;
+};
+
+// Cross-field checks: `check` returns an error message for an invalid value, or null
+export const refine = <T>(schema: Schema<T>, check: (value: T) => string | null): Schema<T> => (value, field) => {
+  const result = schema(value, field);
+  const message = check(result);
+  if (message) {
+    throw new ValidationError(message);
+  }
+  return result;
+};
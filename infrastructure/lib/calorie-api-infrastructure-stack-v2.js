@@ -3,9 +3,29 @@ Object.defineProperty(exports, "__esModule", { value: true });
 exports.CalorieApiInfrastructureStackV2 = void 0;
 const cdk = require("aws-cdk-lib");
 const lambda = require("aws-cdk-lib/aws-lambda");
+const nodejs = require("aws-cdk-lib/aws-lambda-nodejs");
 const apigateway = require("aws-cdk-lib/aws-apigateway");
+const cognito = require("aws-cdk-lib/aws-cognito");
 const secretsmanager = require("aws-cdk-lib/aws-secretsmanager");
 const iam = require("aws-cdk-lib/aws-iam");
+const triggers = require("aws-cdk-lib/triggers");
+const fs = require("fs");
+const path = require("path");
+// The app's users sign in through the user pool defined in amplify/auth/resource.ts. Its id comes from
+// USER_POOL_ID, or from the amplify_outputs.json that `ampx sandbox` / `ampx pipeline-deploy` writes.
+function resolveUserPoolId() {
+    if (process.env.USER_POOL_ID) {
+        return process.env.USER_POOL_ID;
+    }
+    const outputsPath = path.join(__dirname, '..', '..', 'amplify_outputs.json');
+    if (fs.existsSync(outputsPath)) {
+        const outputs = JSON.parse(fs.readFileSync(outputsPath, 'utf8'));
+        if (outputs.auth?.user_pool_id) {
+            return outputs.auth.user_pool_id;
+        }
+    }
+    throw new Error('USER_POOL_ID environment variable is required (or deploy the Amplify backend to create amplify_outputs.json)');
+}
 class CalorieApiInfrastructureStackV2 extends cdk.Stack {
     constructor(scope, id, props) {
         super(scope, id, props);
@@ -40,19 +60,40 @@ class CalorieApiInfrastructureStackV2 extends cdk.Stack {
                 excludeCharacters: '"@/\\',
             },
         });
-        // Lambda function for API (outside VPC for simplicity since RDS is publicly accessible)
-        const apiFunction = new lambda.Function(this, 'CalorieApiFunction', {
+        // Settings shared by the functions built from the lambda package
+        const databaseFunctionProps = {
             runtime: lambda.Runtime.NODEJS_18_X,
-            handler: 'index.handler',
-            code: lambda.Code.fromAsset('lambda'),
+            handler: 'handler',
+            depsLockFilePath: 'lambda/package-lock.json',
+            // The AWS SDK ships with the runtime; pg only loads pg-native if it's installed
+            bundling: {
+                externalModules: ['@aws-sdk/*', 'pg-native'],
+            },
             environment: {
                 DB_SECRET_ARN: dbCredentials.secretArn,
                 DB_ENDPOINT: rdsEndpoint,
                 DB_PORT: rdsPort.toString(),
                 DB_NAME: dbName,
             },
+        };
+        // Lambda function for API (outside VPC for simplicity since RDS is publicly accessible)
+        const apiFunction = new nodejs.NodejsFunction(this, 'CalorieApiFunction', {
+            ...databaseFunctionProps,
+            entry: 'lambda/src/index.ts',
             timeout: cdk.Duration.seconds(30),
         });
+        // Applies pending database migrations during each deploy, before the API function is updated
+        const migrationFunction = new nodejs.NodejsFunction(this, 'CalorieMigrationFunction', {
+            ...databaseFunctionProps,
+            entry: 'lambda/src/migrate-handler.ts',
+            timeout: cdk.Duration.minutes(5),
+        });
+        dbCredentials.grantRead(migrationFunction);
+        new triggers.Trigger(this, 'RunMigrations', {
+            handler: migrationFunction,
+            executeBefore: [apiFunction],
+            timeout: cdk.Duration.minutes(5),
+        });
         // Grant Lambda permissions to access secrets
         dbCredentials.grantRead(apiFunction);
         // Grant Lambda permissions to connect to RDS
@@ -64,6 +105,11 @@ class CalorieApiInfrastructureStackV2 extends cdk.Stack {
             ],
             resources: [`arn:aws:rds:us-east-2:${this.account}:db:calorie-db-1`]
         }));
+        // Every API method requires a signed-in user; API Gateway verifies the token before the Lambda runs
+        const userPool = cognito.UserPool.fromUserPoolId(this, 'AmplifyUserPool', resolveUserPoolId());
+        const authorizer = new apigateway.CognitoUserPoolsAuthorizer(this, 'CalorieApiAuthorizer', {
+            cognitoUserPools: [userPool],
+        });
         // API Gateway
         const api = new apigateway.RestApi(this, 'CalorieApi', {
             restApiName: 'Calorie Tracking API',
@@ -81,7 +127,27 @@ class CalorieApiInfrastructureStackV2 extends cdk.Stack {
                 ],
                 allowCredentials: false,
             },
+            defaultMethodOptions: {
+                authorizer,
+                authorizationType: apigateway.AuthorizationType.COGNITO,
+                // ApiClient sends the access token, which carries this scope rather than an audience
+                authorizationScopes: ['aws.cognito.signin.user.admin'],
+            },
         });
+        // Errors raised by API Gateway itself (e.g. a missing or expired token) use the Lambda's error
+        // envelope, and carry CORS headers so the browser lets the client read them
+        // $context.error.messageString is already a quoted JSON string, so it must not be quoted again
+        const gatewayErrorTemplate = '{"success":false,"error":{"code":"$context.error.responseType","message":$context.error.messageString}}';
+        for (const [id, type] of [
+            ['Default4xx', apigateway.ResponseType.DEFAULT_4XX],
+            ['Default5xx', apigateway.ResponseType.DEFAULT_5XX],
+        ]) {
+            api.addGatewayResponse(id, {
+                type,
+                responseHeaders: { 'Access-Control-Allow-Origin': "'*'" },
+                templates: { 'application/json': gatewayErrorTemplate },
+            });
+        }
         // Lambda integration
         const lambdaIntegration = new apigateway.LambdaIntegration(apiFunction);
         // API resources and methods
@@ -91,11 +157,45 @@ class CalorieApiInfrastructureStackV2 extends cdk.Stack {
         // Add proxy resource for dynamic routes
         const proxyResource = foodsResource.addResource('{proxy+}');
         proxyResource.addMethod('ANY', lambdaIntegration);
+        // Per-user food log resources
+        const logsResource = api.root.addResource('logs');
+        logsResource.addMethod('GET', lambdaIntegration);
+        logsResource.addMethod('POST', lambdaIntegration);
+        const logSummaryResource = logsResource.addResource('summary');
+        logSummaryResource.addMethod('GET', lambdaIntegration);
+        const logImportResource = logsResource.addResource('import');
+        logImportResource.addMethod('POST', lambdaIntegration);
+        const logEntryResource = logsResource.addResource('{id}');
+        logEntryResource.addMethod('PUT', lambdaIntegration);
+        logEntryResource.addMethod('DELETE', lambdaIntegration);
+        // Per-user weight history resources
+        const weightsResource = api.root.addResource('weights');
+        weightsResource.addMethod('GET', lambdaIntegration);
+        weightsResource.addMethod('POST', lambdaIntegration);
+        const weightImportResource = weightsResource.addResource('import');
+        weightImportResource.addMethod('POST', lambdaIntegration);
+        const weightEntryResource = weightsResource.addResource('{id}');
+        weightEntryResource.addMethod('DELETE', lambdaIntegration);
+        // Per-user daily goals resource
+        const goalsResource = api.root.addResource('goals');
+        goalsResource.addMethod('GET', lambdaIntegration);
+        goalsResource.addMethod('PUT', lambdaIntegration);
+        // Per-user recipe resources
+        const recipesResource = api.root.addResource('recipes');
+        recipesResource.addMethod('GET', lambdaIntegration);
+        recipesResource.addMethod('POST', lambdaIntegration);
+        const recipeResource = recipesResource.addResource('{id}');
+        recipeResource.addMethod('PUT', lambdaIntegration);
+        recipeResource.addMethod('DELETE', lambdaIntegration);
         // Outputs
         new cdk.CfnOutput(this, 'ApiGatewayUrl', {
             value: api.url,
             description: 'API Gateway URL',
         });
+        new cdk.CfnOutput(this, 'UserPoolId', {
+            value: userPool.userPoolId,
+            description: 'Cognito user pool that API callers authenticate against',
+        });
         new cdk.CfnOutput(this, 'DatabaseEndpoint', {
             value: rdsEndpoint,
             description: 'Existing RDS PostgreSQL endpoint',
@@ -112,4 +212,4 @@ class CalorieApiInfrastructureStackV2 extends cdk.Stack {
     }
 }
 exports.CalorieApiInfrastructureStackV2 = CalorieApiInfrastructureStackV2;
-//# sourceMappingURL=data:application/json;base64,eyJ2ZXJzaW9uIjozLCJmaWxlIjoiY2Fsb3JpZS1hcGktaW5mcmFzdHJ1Y3R1cmUtc3RhY2stdjIuanMiLCJzb3VyY2VSb290IjoiIiwic291cmNlcyI6WyJjYWxvcmllLWFwaS1pbmZyYXN0cnVjdHVyZS1zdGFjay12Mi50cyJdLCJuYW1lcyI6W10sIm1hcHBpbmdzIjoiOzs7QUFBQSxtQ0FBbUM7QUFDbkMsaURBQWlEO0FBQ2pELHlEQUF5RDtBQUN6RCxpRUFBaUU7QUFDakUsMkNBQTJDO0FBRzNDLE1BQWEsK0JBQWdDLFNBQVEsR0FBRyxDQUFDLEtBQUs7SUFDNUQsWUFBWSxLQUFnQixFQUFFLEVBQVUsRUFBRSxLQUFzQjtRQUM5RCxLQUFLLENBQUMsS0FBSyxFQUFFLEVBQUUsRUFBRSxLQUFLLENBQUMsQ0FBQztRQUV4QixrRUFBa0U7UUFDbEUsTUFBTSxXQUFXLEdBQUcsT0FBTyxDQUFDLEdBQUcsQ0FBQyxZQUFZLENBQUM7UUFDN0MsTUFBTSxVQUFVLEdBQUcsT0FBTyxDQUFDLEdBQUcsQ0FBQyxRQUFRLENBQUM7UUFDeEMsTUFBTSxNQUFNLEdBQUcsT0FBTyxDQUFDLEdBQUcsQ0FBQyxPQUFPLENBQUM7UUFDbkMsTUFBTSxVQUFVLEdBQUcsT0FBTyxDQUFDLEdBQUcsQ0FBQyxXQUFXLENBQUM7UUFFM0MsMENBQTBDO1FBQzFDLElBQUksQ0FBQyxXQUFXLEVBQUUsQ0FBQztZQUNqQixNQUFNLElBQUksS0FBSyxDQUFDLCtDQUErQyxDQUFDLENBQUM7UUFDbkUsQ0FBQztRQUNELElBQUksQ0FBQyxVQUFVLEVBQUUsQ0FBQztZQUNoQixNQUFNLElBQUksS0FBSyxDQUFDLDJDQUEyQyxDQUFDLENBQUM7UUFDL0QsQ0FBQztRQUNELElBQUksQ0FBQyxNQUFNLEVBQUUsQ0FBQztZQUNaLE1BQU0sSUFBSSxLQUFLLENBQUMsMENBQTBDLENBQUMsQ0FBQztRQUM5RCxDQUFDO1FBQ0QsSUFBSSxDQUFDLFVBQVUsRUFBRSxDQUFDO1lBQ2hCLE1BQU0sSUFBSSxLQUFLLENBQUMsOENBQThDLENBQUMsQ0FBQztRQUNsRSxDQUFDO1FBRUQsTUFBTSxPQUFPLEdBQUcsUUFBUSxDQUFDLFVBQVUsRUFBRSxFQUFFLENBQUMsQ0FBQztRQUN6QyxJQUFJLEtBQUssQ0FBQyxPQUFPLENBQUMsRUFBRSxDQUFDO1lBQ25CLE1BQU0sSUFBSSxLQUFLLENBQUMsaUNBQWlDLENBQUMsQ0FBQztRQUNyRCxDQUFDO1FBRUQsOEJBQThCO1FBQzlCLE1BQU0sYUFBYSxHQUFHLElBQUksY0FBYyxDQUFDLE1BQU0sQ0FBQyxJQUFJLEVBQUUsdUJBQXVCLEVBQUU7WUFDN0UsV0FBVyxFQUFFLGdEQUFnRDtZQUM3RCxvQkFBb0IsRUFBRTtnQkFDcEIsb0JBQW9CLEVBQUUsSUFBSSxDQUFDLFNBQVMsQ0FBQyxFQUFFLFFBQVEsRUFBRSxVQUFVLEVBQUUsQ0FBQztnQkFDOUQsaUJBQWlCLEVBQUUsVUFBVTtnQkFDN0IsaUJBQWlCLEVBQUUsT0FBTzthQUMzQjtTQUNGLENBQUMsQ0FBQztRQUVILHdGQUF3RjtRQUN4RixNQUFNLFdBQVcsR0FBRyxJQUFJLE1BQU0sQ0FBQyxRQUFRLENBQUMsSUFBSSxFQUFFLG9CQUFvQixFQUFFO1lBQ2xFLE9BQU8sRUFBRSxNQUFNLENBQUMsT0FBTyxDQUFDLFdBQVc7WUFDbkMsT0FBTyxFQUFFLGVBQWU7WUFDeEIsSUFBSSxFQUFFLE1BQU0sQ0FBQyxJQUFJLENBQUMsU0FBUyxDQUFDLFFBQVEsQ0FBQztZQUNyQyxXQUFXLEVBQUU7Z0JBQ1gsYUFBYSxFQUFFLGFBQWEsQ0FBQyxTQUFTO2dCQUN0QyxXQUFXLEVBQUUsV0FBVztnQkFDeEIsT0FBTyxFQUFFLE9BQU8sQ0FBQyxRQUFRLEVBQUU7Z0JBQzNCLE9BQU8sRUFBRSxNQUFNO2FBQ2hCO1lBQ0QsT0FBTyxFQUFFLEdBQUcsQ0FBQyxRQUFRLENBQUMsT0FBTyxDQUFDLEVBQUUsQ0FBQztTQUNsQyxDQUFDLENBQUM7UUFFSCw2Q0FBNkM7UUFDN0MsYUFBYSxDQUFDLFNBQVMsQ0FBQyxXQUFXLENBQUMsQ0FBQztRQUVyQyw2Q0FBNkM7UUFDN0MsV0FBVyxDQUFDLGVBQWUsQ0FBQyxJQUFJLEdBQUcsQ0FBQyxlQUFlLENBQUM7WUFDbEQsTUFBTSxFQUFFLEdBQUcsQ0FBQyxNQUFNLENBQUMsS0FBSztZQUN4QixPQUFPLEVBQUU7Z0JBQ1AseUJBQXlCO2dCQUN6QixhQUFhO2FBQ2Q7WUFDRCxTQUFTLEVBQUUsQ0FBQyx5QkFBeUIsSUFBSSxDQUFDLE9BQU8sa0JBQWtCLENBQUM7U0FDckUsQ0FBQyxDQUFDLENBQUM7UUFFSixjQUFjO1FBQ2QsTUFBTSxHQUFHLEdBQUcsSUFBSSxVQUFVLENBQUMsT0FBTyxDQUFDLElBQUksRUFBRSxZQUFZLEVBQUU7WUFDckQsV0FBVyxFQUFFLHNCQUFzQjtZQUNuQyxXQUFXLEVBQUUsc0NBQXNDO1lBQ25ELDJCQUEyQixFQUFFO2dCQUMzQixZQUFZLEVBQUUsVUFBVSxDQUFDLElBQUksQ0FBQyxXQUFXO2dCQUN6QyxZQUFZLEVBQUUsVUFBVSxDQUFDLElBQUksQ0FBQyxXQUFXO2dCQUN6QyxZQUFZLEVBQUU7b0JBQ1osY0FBYztvQkFDZCxZQUFZO29CQUNaLGVBQWU7b0JBQ2YsV0FBVztvQkFDWCxzQkFBc0I7b0JBQ3RCLGtCQUFrQjtpQkFDbkI7Z0JBQ0QsZ0JBQWdCLEVBQUUsS0FBSzthQUN4QjtTQUNGLENBQUMsQ0FBQztRQUVILHFCQUFxQjtRQUNyQixNQUFNLGlCQUFpQixHQUFHLElBQUksVUFBVSxDQUFDLGlCQUFpQixDQUFDLFdBQVcsQ0FBQyxDQUFDO1FBRXhFLDRCQUE0QjtRQUM1QixNQUFNLGFBQWEsR0FBRyxHQUFHLENBQUMsSUFBSSxDQUFDLFdBQVcsQ0FBQyxPQUFPLENBQUMsQ0FBQztRQUNwRCxhQUFhLENBQUMsU0FBUyxDQUFDLEtBQUssRUFBRSxpQkFBaUIsQ0FBQyxDQUFDO1FBQ2xELGFBQWEsQ0FBQyxTQUFTLENBQUMsTUFBTSxFQUFFLGlCQUFpQixDQUFDLENBQUM7UUFFbkQsd0NBQXdDO1FBQ3hDLE1BQU0sYUFBYSxHQUFHLGFBQWEsQ0FBQyxXQUFXLENBQUMsVUFBVSxDQUFDLENBQUM7UUFDNUQsYUFBYSxDQUFDLFNBQVMsQ0FBQyxLQUFLLEVBQUUsaUJBQWlCLENBQUMsQ0FBQztRQUVsRCxVQUFVO1FBQ1YsSUFBSSxHQUFHLENBQUMsU0FBUyxDQUFDLElBQUksRUFBRSxlQUFlLEVBQUU7WUFDdkMsS0FBSyxFQUFFLEdBQUcsQ0FBQyxHQUFHO1lBQ2QsV0FBVyxFQUFFLGlCQUFpQjtTQUMvQixDQUFDLENBQUM7UUFFSCxJQUFJLEdBQUcsQ0FBQyxTQUFTLENBQUMsSUFBSSxFQUFFLGtCQUFrQixFQUFFO1lBQzFDLEtBQUssRUFBRSxXQUFXO1lBQ2xCLFdBQVcsRUFBRSxrQ0FBa0M7U0FDaEQsQ0FBQyxDQUFDO1FBRUgsSUFBSSxHQUFHLENBQUMsU0FBUyxDQUFDLElBQUksRUFBRSxtQkFBbUIsRUFBRTtZQUMzQyxLQUFLLEVBQUUsYUFBYSxDQUFDLFNBQVM7WUFDOUIsV0FBVyxFQUFFLGlFQUFpRTtTQUMvRSxDQUFDLENBQUM7UUFFSCxzQkFBc0I7UUFDdEIsSUFBSSxHQUFHLENBQUMsU0FBUyxDQUFDLElBQUksRUFBRSw0QkFBNEIsRUFBRTtZQUNwRCxLQUFLLEVBQUUsMEZBQTBGLGFBQWEsQ0FBQyxTQUFTLDhFQUE4RTtZQUN0TSxXQUFXLEVBQUUsbUNBQW1DO1NBQ2pELENBQUMsQ0FBQztJQUNMLENBQUM7Q0FDRjtBQXZIRCwwRUF1SEMiLCJzb3VyY2VzQ29udGVudCI6WyJpbXBvcnQgKiBhcyBjZGsgZnJvbSAnYXdzLWNkay1saWInO1xyXG5pbXBvcnQgKiBhcyBsYW1iZGEgZnJvbSAnYXdzLWNkay1saWIvYXdzLWxhbWJkYSc7XHJcbmltcG9ydCAqIGFzIGFwaWdhdGV3YXkgZnJvbSAnYXdzLWNkay1saWIvYXdzLWFwaWdhdGV3YXknO1xyXG5pbXBvcnQgKiBhcyBzZWNyZXRzbWFuYWdlciBmcm9tICdhd3MtY2RrLWxpYi9hd3Mtc2VjcmV0c21hbmFnZXInO1xyXG5pbXBvcnQgKiBhcyBpYW0gZnJvbSAnYXdzLWNkay1saWIvYXdzLWlhbSc7XHJcbmltcG9ydCB7IENvbnN0cnVjdCB9IGZyb20gJ2NvbnN0cnVjdHMnO1xyXG5cclxuZXhwb3J0IGNsYXNzIENhbG9yaWVBcGlJbmZyYXN0cnVjdHVyZVN0YWNrVjIgZXh0ZW5kcyBjZGsuU3RhY2sge1xyXG4gIGNvbnN0cnVjdG9yKHNjb3BlOiBDb25zdHJ1Y3QsIGlkOiBzdHJpbmcsIHByb3BzPzogY2RrLlN0YWNrUHJvcHMpIHtcclxuICAgIHN1cGVyKHNjb3BlLCBpZCwgcHJvcHMpO1xyXG5cclxuICAgIC8vIFJEUyBpbnN0YW5jZSBkZXRhaWxzIGZyb20gZW52aXJvbm1lbnQgdmFyaWFibGVzIHdpdGggdmFsaWRhdGlvblxyXG4gICAgY29uc3QgcmRzRW5kcG9pbnQgPSBwcm9jZXNzLmVudi5SRFNfRU5EUE9JTlQ7XHJcbiAgICBjb25zdCByZHNQb3J0U3RyID0gcHJvY2Vzcy5lbnYuUkRTX1BPUlQ7XHJcbiAgICBjb25zdCBkYk5hbWUgPSBwcm9jZXNzLmVudi5EQl9OQU1FO1xyXG4gICAgY29uc3QgZGJVc2VybmFtZSA9IHByb2Nlc3MuZW52LkRCX1VTRVJOQU1FO1xyXG5cclxuICAgIC8vIFZhbGlkYXRlIHJlcXVpcmVkIGVudmlyb25tZW50IHZhcmlhYmxlc1xyXG4gICAgaWYgKCFyZHNFbmRwb2ludCkge1xyXG4gICAgICB0aHJvdyBuZXcgRXJyb3IoJ1JEU19FTkRQT0lOVCBlbnZpcm9ubWVudCB2YXJpYWJsZSBpcyByZXF1aXJlZCcpO1xyXG4gICAgfVxyXG4gICAgaWYgKCFyZHNQb3J0U3RyKSB7XHJcbiAgICAgIHRocm93IG5ldyBFcnJvcignUkRTX1BPUlQgZW52aXJvbm1lbnQgdmFyaWFibGUgaXMgcmVxdWlyZWQnKTtcclxuICAgIH1cclxuICAgIGlmICghZGJOYW1lKSB7XHJcbiAgICAgIHRocm93IG5ldyBFcnJvcignREJfTkFNRSBlbnZpcm9ubWVudCB2YXJpYWJsZSBpcyByZXF1aXJlZCcpO1xyXG4gICAgfVxyXG4gICAgaWYgKCFkYlVzZXJuYW1lKSB7XHJcbiAgICAgIHRocm93IG5ldyBFcnJvcignREJfVVNFUk5BTUUgZW52aXJvbm1lbnQgdmFyaWFibGUgaXMgcmVxdWlyZWQnKTtcclxuICAgIH1cclxuXHJcbiAgICBjb25zdCByZHNQb3J0ID0gcGFyc2VJbnQocmRzUG9ydFN0ciwgMTApO1xyXG4gICAgaWYgKGlzTmFOKHJkc1BvcnQpKSB7XHJcbiAgICAgIHRocm93IG5ldyBFcnJvcignUkRTX1BPUlQgbXVzdCBiZSBhIHZhbGlkIG51bWJlcicpO1xyXG4gICAgfVxyXG5cclxuICAgIC8vIERhdGFiYXNlIGNyZWRlbnRpYWxzIHNlY3JldFxyXG4gICAgY29uc3QgZGJDcmVkZW50aWFscyA9IG5ldyBzZWNyZXRzbWFuYWdlci5TZWNyZXQodGhpcywgJ0V4aXN0aW5nRGJDcmVkZW50aWFscycsIHtcclxuICAgICAgZGVzY3JpcHRpb246ICdDcmVkZW50aWFscyBmb3IgZXhpc3RpbmcgY2Fsb3JpZS1kYi0xIGRhdGFiYXNlJyxcclxuICAgICAgZ2VuZXJhdGVTZWNyZXRTdHJpbmc6IHtcclxuICAgICAgICBzZWNyZXRTdHJpbmdUZW1wbGF0ZTogSlNPTi5zdHJpbmdpZnkoeyB1c2VybmFtZTogZGJVc2VybmFtZSB9KSxcclxuICAgICAgICBnZW5lcmF0ZVN0cmluZ0tleTogJ3Bhc3N3b3JkJyxcclxuICAgICAgICBleGNsdWRlQ2hhcmFjdGVyczogJ1wiQC9cXFxcJyxcclxuICAgICAgfSxcclxuICAgIH0pO1xyXG5cclxuICAgIC8vIExhbWJkYSBmdW5jdGlvbiBmb3IgQVBJIChvdXRzaWRlIFZQQyBmb3Igc2ltcGxpY2l0eSBzaW5jZSBSRFMgaXMgcHVibGljbHkgYWNjZXNzaWJsZSlcclxuICAgIGNvbnN0IGFwaUZ1bmN0aW9uID0gbmV3IGxhbWJkYS5GdW5jdGlvbih0aGlzLCAnQ2Fsb3JpZUFwaUZ1bmN0aW9uJywge1xyXG4gICAgICBydW50aW1lOiBsYW1iZGEuUnVudGltZS5OT0RFSlNfMThfWCxcclxuICAgICAgaGFuZGxlcjogJ2luZGV4LmhhbmRsZXInLFxyXG4gICAgICBjb2RlOiBsYW1iZGEuQ29kZS5mcm9tQXNzZXQoJ2xhbWJkYScpLFxyXG4gICAgICBlbnZpcm9ubWVudDoge1xyXG4gICAgICAgIERCX1NFQ1JFVF9BUk46IGRiQ3JlZGVudGlhbHMuc2VjcmV0QXJuLFxyXG4gICAgICAgIERCX0VORFBPSU5UOiByZHNFbmRwb2ludCxcclxuICAgICAgICBEQl9QT1JUOiByZHNQb3J0LnRvU3RyaW5nKCksXHJcbiAgICAgICAgREJfTkFNRTogZGJOYW1lLFxyXG4gICAgICB9LFxyXG4gICAgICB0aW1lb3V0OiBjZGsuRHVyYXRpb24uc2Vjb25kcygzMCksXHJcbiAgICB9KTtcclxuXHJcbiAgICAvLyBHcmFudCBMYW1iZGEgcGVybWlzc2lvbnMgdG8gYWNjZXNzIHNlY3JldHNcclxuICAgIGRiQ3JlZGVudGlhbHMuZ3JhbnRSZWFkKGFwaUZ1bmN0aW9uKTtcclxuXHJcbiAgICAvLyBHcmFudCBMYW1iZGEgcGVybWlzc2lvbnMgdG8gY29ubmVjdCB0byBSRFNcclxuICAgIGFwaUZ1bmN0aW9uLmFkZFRvUm9sZVBvbGljeShuZXcgaWFtLlBvbGljeVN0YXRlbWVudCh7XHJcbiAgICAgIGVmZmVjdDogaWFtLkVmZmVjdC5BTExPVyxcclxuICAgICAgYWN0aW9uczogW1xyXG4gICAgICAgICdyZHM6RGVzY3JpYmVEQkluc3RhbmNlcycsXHJcbiAgICAgICAgJ3JkczpDb25uZWN0J1xyXG4gICAgICBdLFxyXG4gICAgICByZXNvdXJjZXM6IFtgYXJuOmF3czpyZHM6dXMtZWFzdC0yOiR7dGhpcy5hY2NvdW50fTpkYjpjYWxvcmllLWRiLTFgXVxyXG4gICAgfSkpO1xyXG5cclxuICAgIC8vIEFQSSBHYXRld2F5XHJcbiAgICBjb25zdCBhcGkgPSBuZXcgYXBpZ2F0ZXdheS5SZXN0QXBpKHRoaXMsICdDYWxvcmllQXBpJywge1xyXG4gICAgICByZXN0QXBpTmFtZTogJ0NhbG9yaWUgVHJhY2tpbmcgQVBJJyxcclxuICAgICAgZGVzY3JpcHRpb246ICdBUEkgZm9yIGNhbG9yaWUgdHJhY2tpbmcgYXBwbGljYXRpb24nLFxyXG4gICAgICBkZWZhdWx0Q29yc1ByZWZsaWdodE9wdGlvbnM6IHtcclxuICAgICAgICBhbGxvd09yaWdpbnM6IGFwaWdhdGV3YXkuQ29ycy5BTExfT1JJR0lOUyxcclxuICAgICAgICBhbGxvd01ldGhvZHM6IGFwaWdhdGV3YXkuQ29ycy5BTExfTUVUSE9EUyxcclxuICAgICAgICBhbGxvd0hlYWRlcnM6IFtcclxuICAgICAgICAgICdDb250ZW50LVR5cGUnLFxyXG4gICAgICAgICAgJ1gtQW16LURhdGUnLFxyXG4gICAgICAgICAgJ0F1dGhvcml6YXRpb24nLFxyXG4gICAgICAgICAgJ1gtQXBpLUtleScsXHJcbiAgICAgICAgICAnWC1BbXotU2VjdXJpdHktVG9rZW4nLFxyXG4gICAgICAgICAgJ1gtQW16LVVzZXItQWdlbnQnXHJcbiAgICAgICAgXSxcclxuICAgICAgICBhbGxvd0NyZWRlbnRpYWxzOiBmYWxzZSxcclxuICAgICAgfSxcclxuICAgIH0pO1xyXG5cclxuICAgIC8vIExhbWJkYSBpbnRlZ3JhdGlvblxyXG4gICAgY29uc3QgbGFtYmRhSW50ZWdyYXRpb24gPSBuZXcgYXBpZ2F0ZXdheS5MYW1iZGFJbnRlZ3JhdGlvbihhcGlGdW5jdGlvbik7XHJcblxyXG4gICAgLy8gQVBJIHJlc291cmNlcyBhbmQgbWV0aG9kc1xyXG4gICAgY29uc3QgZm9vZHNSZXNvdXJjZSA9IGFwaS5yb290LmFkZFJlc291cmNlKCdmb29kcycpO1xyXG4gICAgZm9vZHNSZXNvdXJjZS5hZGRNZXRob2QoJ0dFVCcsIGxhbWJkYUludGVncmF0aW9uKTtcclxuICAgIGZvb2RzUmVzb3VyY2UuYWRkTWV0aG9kKCdQT1NUJywgbGFtYmRhSW50ZWdyYXRpb24pO1xyXG5cclxuICAgIC8vIEFkZCBwcm94eSByZXNvdXJjZSBmb3IgZHluYW1pYyByb3V0ZXNcclxuICAgIGNvbnN0IHByb3h5UmVzb3VyY2UgPSBmb29kc1Jlc291cmNlLmFkZFJlc291cmNlKCd7cHJveHkrfScpO1xyXG4gICAgcHJveHlSZXNvdXJjZS5hZGRNZXRob2QoJ0FOWScsIGxhbWJkYUludGVncmF0aW9uKTtcclxuXHJcbiAgICAvLyBPdXRwdXRzXHJcbiAgICBuZXcgY2RrLkNmbk91dHB1dCh0aGlzLCAnQXBpR2F0ZXdheVVybCcsIHtcclxuICAgICAgdmFsdWU6IGFwaS51cmwsXHJcbiAgICAgIGRlc2NyaXB0aW9uOiAnQVBJIEdhdGV3YXkgVVJMJyxcclxuICAgIH0pO1xyXG5cclxuICAgIG5ldyBjZGsuQ2ZuT3V0cHV0KHRoaXMsICdEYXRhYmFzZUVuZHBvaW50Jywge1xyXG4gICAgICB2YWx1ZTogcmRzRW5kcG9pbnQsXHJcbiAgICAgIGRlc2NyaXB0aW9uOiAnRXhpc3RpbmcgUkRTIFBvc3RncmVTUUwgZW5kcG9pbnQnLFxyXG4gICAgfSk7XHJcblxyXG4gICAgbmV3IGNkay5DZm5PdXRwdXQodGhpcywgJ0RhdGFiYXNlU2VjcmV0QXJuJywge1xyXG4gICAgICB2YWx1ZTogZGJDcmVkZW50aWFscy5zZWNyZXRBcm4sXHJcbiAgICAgIGRlc2NyaXB0aW9uOiAnRGF0YWJhc2UgY3JlZGVudGlhbHMgc2VjcmV0IEFSTiAtIFVwZGF0ZSB3aXRoIHlvdXIgUkRTIHBhc3N3b3JkJyxcclxuICAgIH0pO1xyXG5cclxuICAgIC8vIEluc3RydWN0aW9ucyBvdXRwdXRcclxuICAgIG5ldyBjZGsuQ2ZuT3V0cHV0KHRoaXMsICdQb3N0RGVwbG95bWVudEluc3RydWN0aW9ucycsIHtcclxuICAgICAgdmFsdWU6IGBVcGRhdGUgdGhlIHNlY3JldCB3aXRoIHlvdXIgUkRTIHBhc3N3b3JkOiBhd3Mgc2VjcmV0c21hbmFnZXIgdXBkYXRlLXNlY3JldCAtLXNlY3JldC1pZCAke2RiQ3JlZGVudGlhbHMuc2VjcmV0QXJufSAtLXNlY3JldC1zdHJpbmcgJ3tcInVzZXJuYW1lXCI6XCJwb3N0Z3Jlc1wiLFwicGFzc3dvcmRcIjpcIllPVVJfQUNUVUFMX1BBU1NXT1JEXCJ9J2AsXHJcbiAgICAgIGRlc2NyaXB0aW9uOiAnUnVuIHRoaXMgY29tbWFuZCBhZnRlciBkZXBsb3ltZW50JyxcclxuICAgIH0pO1xyXG4gIH1cclxufSAiXX0=
\ No newline at end of file
+//# sourceMappingURL=data:application/json;base64,eyJ2ZXJzaW9uIjozLCJmaWxlIjoiY2Fsb3JpZS1hcGktaW5mcmFzdHJ1Y3R1cmUtc3RhY2stdjIuanMiLCJzb3VyY2VSb290IjoiIiwic291cmNlcyI6WyJjYWxvcmllLWFwaS1pbmZyYXN0cnVjdHVyZS1zdGFjay12Mi50cyJdLCJuYW1lcyI6W10sIm1hcHBpbmdzIjoiOzs7QUFBQSxtQ0FBbUM7QUFDbkMsaURBQWlEO0FBQ2pELHdEQUF3RDtBQUN4RCx5REFBeUQ7QUFDekQsbURBQW1EO0FBQ25ELGlFQUFpRTtBQUNqRSwyQ0FBMkM7QUFDM0MsaURBQWlEO0FBRWpELHlCQUF5QjtBQUN6Qiw2QkFBNkI7QUFFN0IsdUdBQXVHO0FBQ3ZHLHNHQUFzRztBQUN0RyxTQUFTLGlCQUFpQjtJQUN4QixJQUFJLE9BQU8sQ0FBQyxHQUFHLENBQUMsWUFBWSxFQUFFLENBQUM7UUFDN0IsT0FBTyxPQUFPLENBQUMsR0FBRyxDQUFDLFlBQVksQ0FBQztJQUNsQyxDQUFDO0lBRUQsTUFBTSxXQUFXLEdBQUcsSUFBSSxDQUFDLElBQUksQ0FBQyxTQUFTLEVBQUUsSUFBSSxFQUFFLElBQUksRUFBRSxzQkFBc0IsQ0FBQyxDQUFDO0lBQzdFLElBQUksRUFBRSxDQUFDLFVBQVUsQ0FBQyxXQUFXLENBQUMsRUFBRSxDQUFDO1FBQy9CLE1BQU0sT0FBTyxHQUFHLElBQUksQ0FBQyxLQUFLLENBQUMsRUFBRSxDQUFDLFlBQVksQ0FBQyxXQUFXLEVBQUUsTUFBTSxDQUFDLENBQUMsQ0FBQztRQUNqRSxJQUFJLE9BQU8sQ0FBQyxJQUFJLEVBQUUsWUFBWSxFQUFFLENBQUM7WUFDL0IsT0FBTyxPQUFPLENBQUMsSUFBSSxDQUFDLFlBQVksQ0FBQztRQUNuQyxDQUFDO0lBQ0gsQ0FBQztJQUVELE1BQU0sSUFBSSxLQUFLLENBQUMsOEdBQThHLENBQUMsQ0FBQztBQUNsSSxDQUFDO0FBRUQsTUFBYSwrQkFBZ0MsU0FBUSxHQUFHLENBQUMsS0FBSztJQUM1RCxZQUFZLEtBQWdCLEVBQUUsRUFBVSxFQUFFLEtBQXNCO1FBQzlELEtBQUssQ0FBQyxLQUFLLEVBQUUsRUFBRSxFQUFFLEtBQUssQ0FBQyxDQUFDO1FBRXhCLGtFQUFrRTtRQUNsRSxNQUFNLFdBQVcsR0FBRyxPQUFPLENBQUMsR0FBRyxDQUFDLFlBQVksQ0FBQztRQUM3QyxNQUFNLFVBQVUsR0FBRyxPQUFPLENBQUMsR0FBRyxDQUFDLFFBQVEsQ0FBQztRQUN4QyxNQUFNLE1BQU0sR0FBRyxPQUFPLENBQUMsR0FBRyxDQUFDLE9BQU8sQ0FBQztRQUNuQyxNQUFNLFVBQVUsR0FBRyxPQUFPLENBQUMsR0FBRyxDQUFDLFdBQVcsQ0FBQztRQUUzQywwQ0FBMEM7UUFDMUMsSUFBSSxDQUFDLFdBQVcsRUFBRSxDQUFDO1lBQ2pCLE1BQU0sSUFBSSxLQUFLLENBQUMsK0NBQStDLENBQUMsQ0FBQztRQUNuRSxDQUFDO1FBQ0QsSUFBSSxDQUFDLFVBQVUsRUFBRSxDQUFDO1lBQ2hCLE1BQU0sSUFBSSxLQUFLLENBQUMsMkNBQTJDLENBQUMsQ0FBQztRQUMvRCxDQUFDO1FBQ0QsSUFBSSxDQUFDLE1BQU0sRUFBRSxDQUFDO1lBQ1osTUFBTSxJQUFJLEtBQUssQ0FBQywwQ0FBMEMsQ0FBQyxDQUFDO1FBQzlELENBQUM7UUFDRCxJQUFJLENBQUMsVUFBVSxFQUFFLENBQUM7WUFDaEIsTUFBTSxJQUFJLEtBQUssQ0FBQyw4Q0FBOEMsQ0FBQyxDQUFDO1FBQ2xFLENBQUM7UUFFRCxNQUFNLE9BQU8sR0FBRyxRQUFRLENBQUMsVUFBVSxFQUFFLEVBQUUsQ0FBQyxDQUFDO1FBQ3pDLElBQUksS0FBSyxDQUFDLE9BQU8sQ0FBQyxFQUFFLENBQUM7WUFDbkIsTUFBTSxJQUFJLEtBQUssQ0FBQyxpQ0FBaUMsQ0FBQyxDQUFDO1FBQ3JELENBQUM7UUFFRCw4QkFBOEI7UUFDOUIsTUFBTSxhQUFhLEdBQUcsSUFBSSxjQUFjLENBQUMsTUFBTSxDQUFDLElBQUksRUFBRSx1QkFBdUIsRUFBRTtZQUM3RSxXQUFXLEVBQUUsZ0RBQWdEO1lBQzdELG9CQUFvQixFQUFFO2dCQUNwQixvQkFBb0IsRUFBRSxJQUFJLENBQUMsU0FBUyxDQUFDLEVBQUUsUUFBUSxFQUFFLFVBQVUsRUFBRSxDQUFDO2dCQUM5RCxpQkFBaUIsRUFBRSxVQUFVO2dCQUM3QixpQkFBaUIsRUFBRSxPQUFPO2FBQzNCO1NBQ0YsQ0FBQyxDQUFDO1FBRUgsaUVBQWlFO1FBQ2pFLE1BQU0scUJBQXFCLEdBQUc7WUFDNUIsT0FBTyxFQUFFLE1BQU0sQ0FBQyxPQUFPLENBQUMsV0FBVztZQUNuQyxPQUFPLEVBQUUsU0FBUztZQUNsQixnQkFBZ0IsRUFBRSwwQkFBMEI7WUFDNUMsZ0ZBQWdGO1lBQ2hGLFFBQVEsRUFBRTtnQkFDUixlQUFlLEVBQUUsQ0FBQyxZQUFZLEVBQUUsV0FBVyxDQUFDO2FBQzdDO1lBQ0QsV0FBVyxFQUFFO2dCQUNYLGFBQWEsRUFBRSxhQUFhLENBQUMsU0FBUztnQkFDdEMsV0FBVyxFQUFFLFdBQVc7Z0JBQ3hCLE9BQU8sRUFBRSxPQUFPLENBQUMsUUFBUSxFQUFFO2dCQUMzQixPQUFPLEVBQUUsTUFBTTthQUNoQjtTQUNGLENBQUM7UUFFRix3RkFBd0Y7UUFDeEYsTUFBTSxXQUFXLEdBQUcsSUFBSSxNQUFNLENBQUMsY0FBYyxDQUFDLElBQUksRUFBRSxvQkFBb0IsRUFBRTtZQUN4RSxHQUFHLHFCQUFxQjtZQUN4QixLQUFLLEVBQUUscUJBQXFCO1lBQzVCLE9BQU8sRUFBRSxHQUFHLENBQUMsUUFBUSxDQUFDLE9BQU8sQ0FBQyxFQUFFLENBQUM7U0FDbEMsQ0FBQyxDQUFDO1FBRUgsNkZBQTZGO1FBQzdGLE1BQU0saUJBQWlCLEdBQUcsSUFBSSxNQUFNLENBQUMsY0FBYyxDQUFDLElBQUksRUFBRSwwQkFBMEIsRUFBRTtZQUNwRixHQUFHLHFCQUFxQjtZQUN4QixLQUFLLEVBQUUsK0JBQStCO1lBQ3RDLE9BQU8sRUFBRSxHQUFHLENBQUMsUUFBUSxDQUFDLE9BQU8sQ0FBQyxDQUFDLENBQUM7U0FDakMsQ0FBQyxDQUFDO1FBQ0gsYUFBYSxDQUFDLFNBQVMsQ0FBQyxpQkFBaUIsQ0FBQyxDQUFDO1FBRTNDLElBQUksUUFBUSxDQUFDLE9BQU8sQ0FBQyxJQUFJLEVBQUUsZUFBZSxFQUFFO1lBQzFDLE9BQU8sRUFBRSxpQkFBaUI7WUFDMUIsYUFBYSxFQUFFLENBQUMsV0FBVyxDQUFDO1lBQzVCLE9BQU8sRUFBRSxHQUFHLENBQUMsUUFBUSxDQUFDLE9BQU8sQ0FBQyxDQUFDLENBQUM7U0FDakMsQ0FBQyxDQUFDO1FBRUgsNkNBQTZDO1FBQzdDLGFBQWEsQ0FBQyxTQUFTLENBQUMsV0FBVyxDQUFDLENBQUM7UUFFckMsNkNBQTZDO1FBQzdDLFdBQVcsQ0FBQyxlQUFlLENBQUMsSUFBSSxHQUFHLENBQUMsZUFBZSxDQUFDO1lBQ2xELE1BQU0sRUFBRSxHQUFHLENBQUMsTUFBTSxDQUFDLEtBQUs7WUFDeEIsT0FBTyxFQUFFO2dCQUNQLHlCQUF5QjtnQkFDekIsYUFBYTthQUNkO1lBQ0QsU0FBUyxFQUFFLENBQUMseUJBQXlCLElBQUksQ0FBQyxPQUFPLGtCQUFrQixDQUFDO1NBQ3JFLENBQUMsQ0FBQyxDQUFDO1FBRUosb0dBQW9HO1FBQ3BHLE1BQU0sUUFBUSxHQUFHLE9BQU8sQ0FBQyxRQUFRLENBQUMsY0FBYyxDQUFDLElBQUksRUFBRSxpQkFBaUIsRUFBRSxpQkFBaUIsRUFBRSxDQUFDLENBQUM7UUFDL0YsTUFBTSxVQUFVLEdBQUcsSUFBSSxVQUFVLENBQUMsMEJBQTBCLENBQUMsSUFBSSxFQUFFLHNCQUFzQixFQUFFO1lBQ3pGLGdCQUFnQixFQUFFLENBQUMsUUFBUSxDQUFDO1NBQzdCLENBQUMsQ0FBQztRQUVILGNBQWM7UUFDZCxNQUFNLEdBQUcsR0FBRyxJQUFJLFVBQVUsQ0FBQyxPQUFPLENBQUMsSUFBSSxFQUFFLFlBQVksRUFBRTtZQUNyRCxXQUFXLEVBQUUsc0JBQXNCO1lBQ25DLFdBQVcsRUFBRSxzQ0FBc0M7WUFDbkQsMkJBQTJCLEVBQUU7Z0JBQzNCLFlBQVksRUFBRSxVQUFVLENBQUMsSUFBSSxDQUFDLFdBQVc7Z0JBQ3pDLFlBQVksRUFBRSxVQUFVLENBQUMsSUFBSSxDQUFDLFdBQVc7Z0JBQ3pDLFlBQVksRUFBRTtvQkFDWixjQUFjO29CQUNkLFlBQVk7b0JBQ1osZUFBZTtvQkFDZixXQUFXO29CQUNYLHNCQUFzQjtvQkFDdEIsa0JBQWtCO2lCQUNuQjtnQkFDRCxnQkFBZ0IsRUFBRSxLQUFLO2FBQ3hCO1lBQ0Qsb0JBQW9CLEVBQUU7Z0JBQ3BCLFVBQVU7Z0JBQ1YsaUJBQWlCLEVBQUUsVUFBVSxDQUFDLGlCQUFpQixDQUFDLE9BQU87Z0JBQ3ZELHFGQUFxRjtnQkFDckYsbUJBQW1CLEVBQUUsQ0FBQywrQkFBK0IsQ0FBQzthQUN2RDtTQUNGLENBQUMsQ0FBQztRQUVILCtGQUErRjtRQUMvRiw0RUFBNEU7UUFDNUUsK0ZBQStGO1FBQy9GLE1BQU0sb0JBQW9CLEdBQ3hCLHlHQUF5RyxDQUFDO1FBQzVHLEtBQUssTUFBTSxDQUFDLEVBQUUsRUFBRSxJQUFJLENBQUMsSUFBSTtZQUN2QixDQUFDLFlBQVksRUFBRSxVQUFVLENBQUMsWUFBWSxDQUFDLFdBQVcsQ0FBQztZQUNuRCxDQUFDLFlBQVksRUFBRSxVQUFVLENBQUMsWUFBWSxDQUFDLFdBQVcsQ0FBQztTQUMzQyxFQUFFLENBQUM7WUFDWCxHQUFHLENBQUMsa0JBQWtCLENBQUMsRUFBRSxFQUFFO2dCQUN6QixJQUFJO2dCQUNKLGVBQWUsRUFBRSxFQUFFLDZCQUE2QixFQUFFLEtBQUssRUFBRTtnQkFDekQsU0FBUyxFQUFFLEVBQUUsa0JBQWtCLEVBQUUsb0JBQW9CLEVBQUU7YUFDeEQsQ0FBQyxDQUFDO1FBQ0wsQ0FBQztRQUVELHFCQUFxQjtRQUNyQixNQUFNLGlCQUFpQixHQUFHLElBQUksVUFBVSxDQUFDLGlCQUFpQixDQUFDLFdBQVcsQ0FBQyxDQUFDO1FBRXhFLDRCQUE0QjtRQUM1QixNQUFNLGFBQWEsR0FBRyxHQUFHLENBQUMsSUFBSSxDQUFDLFdBQVcsQ0FBQyxPQUFPLENBQUMsQ0FBQztRQUNwRCxhQUFhLENBQUMsU0FBUyxDQUFDLEtBQUssRUFBRSxpQkFBaUIsQ0FBQyxDQUFDO1FBQ2xELGFBQWEsQ0FBQyxTQUFTLENBQUMsTUFBTSxFQUFFLGlCQUFpQixDQUFDLENBQUM7UUFFbkQsd0NBQXdDO1FBQ3hDLE1BQU0sYUFBYSxHQUFHLGFBQWEsQ0FBQyxXQUFXLENBQUMsVUFBVSxDQUFDLENBQUM7UUFDNUQsYUFBYSxDQUFDLFNBQVMsQ0FBQyxLQUFLLEVBQUUsaUJBQWlCLENBQUMsQ0FBQztRQUVsRCw4QkFBOEI7UUFDOUIsTUFBTSxZQUFZLEdBQUcsR0FBRyxDQUFDLElBQUksQ0FBQyxXQUFXLENBQUMsTUFBTSxDQUFDLENBQUM7UUFDbEQsWUFBWSxDQUFDLFNBQVMsQ0FBQyxLQUFLLEVBQUUsaUJBQWlCLENBQUMsQ0FBQztRQUNqRCxZQUFZLENBQUMsU0FBUyxDQUFDLE1BQU0sRUFBRSxpQkFBaUIsQ0FBQyxDQUFDO1FBRWxELE1BQU0sa0JBQWtCLEdBQUcsWUFBWSxDQUFDLFdBQVcsQ0FBQyxTQUFTLENBQUMsQ0FBQztRQUMvRCxrQkFBa0IsQ0FBQyxTQUFTLENBQUMsS0FBSyxFQUFFLGlCQUFpQixDQUFDLENBQUM7UUFFdkQsTUFBTSxpQkFBaUIsR0FBRyxZQUFZLENBQUMsV0FBVyxDQUFDLFFBQVEsQ0FBQyxDQUFDO1FBQzdELGlCQUFpQixDQUFDLFNBQVMsQ0FBQyxNQUFNLEVBQUUsaUJBQWlCLENBQUMsQ0FBQztRQUV2RCxNQUFNLGdCQUFnQixHQUFHLFlBQVksQ0FBQyxXQUFXLENBQUMsTUFBTSxDQUFDLENBQUM7UUFDMUQsZ0JBQWdCLENBQUMsU0FBUyxDQUFDLEtBQUssRUFBRSxpQkFBaUIsQ0FBQyxDQUFDO1FBQ3JELGdCQUFnQixDQUFDLFNBQVMsQ0FBQyxRQUFRLEVBQUUsaUJBQWlCLENBQUMsQ0FBQztRQUV4RCxvQ0FBb0M7UUFDcEMsTUFBTSxlQUFlLEdBQUcsR0FBRyxDQUFDLElBQUksQ0FBQyxXQUFXLENBQUMsU0FBUyxDQUFDLENBQUM7UUFDeEQsZUFBZSxDQUFDLFNBQVMsQ0FBQyxLQUFLLEVBQUUsaUJBQWlCLENBQUMsQ0FBQztRQUNwRCxlQUFlLENBQUMsU0FBUyxDQUFDLE1BQU0sRUFBRSxpQkFBaUIsQ0FBQyxDQUFDO1FBRXJELE1BQU0sb0JBQW9CLEdBQUcsZUFBZSxDQUFDLFdBQVcsQ0FBQyxRQUFRLENBQUMsQ0FBQztRQUNuRSxvQkFBb0IsQ0FBQyxTQUFTLENBQUMsTUFBTSxFQUFFLGlCQUFpQixDQUFDLENBQUM7UUFFMUQsTUFBTSxtQkFBbUIsR0FBRyxlQUFlLENBQUMsV0FBVyxDQUFDLE1BQU0sQ0FBQyxDQUFDO1FBQ2hFLG1CQUFtQixDQUFDLFNBQVMsQ0FBQyxRQUFRLEVBQUUsaUJBQWlCLENBQUMsQ0FBQztRQUUzRCxnQ0FBZ0M7UUFDaEMsTUFBTSxhQUFhLEdBQUcsR0FBRyxDQUFDLElBQUksQ0FBQyxXQUFXLENBQUMsT0FBTyxDQUFDLENBQUM7UUFDcEQsYUFBYSxDQUFDLFNBQVMsQ0FBQyxLQUFLLEVBQUUsaUJBQWlCLENBQUMsQ0FBQztRQUNsRCxhQUFhLENBQUMsU0FBUyxDQUFDLEtBQUssRUFBRSxpQkFBaUIsQ0FBQyxDQUFDO1FBRWxELDRCQUE0QjtRQUM1QixNQUFNLGVBQWUsR0FBRyxHQUFHLENBQUMsSUFBSSxDQUFDLFdBQVcsQ0FBQyxTQUFTLENBQUMsQ0FBQztRQUN4RCxlQUFlLENBQUMsU0FBUyxDQUFDLEtBQUssRUFBRSxpQkFBaUIsQ0FBQyxDQUFDO1FBQ3BELGVBQWUsQ0FBQyxTQUFTLENBQUMsTUFBTSxFQUFFLGlCQUFpQixDQUFDLENBQUM7UUFFckQsTUFBTSxjQUFjLEdBQUcsZUFBZSxDQUFDLFdBQVcsQ0FBQyxNQUFNLENBQUMsQ0FBQztRQUMzRCxjQUFjLENBQUMsU0FBUyxDQUFDLEtBQUssRUFBRSxpQkFBaUIsQ0FBQyxDQUFDO1FBQ25ELGNBQWMsQ0FBQyxTQUFTLENBQUMsUUFBUSxFQUFFLGlCQUFpQixDQUFDLENBQUM7UUFFdEQsVUFBVTtRQUNWLElBQUksR0FBRyxDQUFDLFNBQVMsQ0FBQyxJQUFJLEVBQUUsZUFBZSxFQUFFO1lBQ3ZDLEtBQUssRUFBRSxHQUFHLENBQUMsR0FBRztZQUNkLFdBQVcsRUFBRSxpQkFBaUI7U0FDL0IsQ0FBQyxDQUFDO1FBRUgsSUFBSSxHQUFHLENBQUMsU0FBUyxDQUFDLElBQUksRUFBRSxZQUFZLEVBQUU7WUFDcEMsS0FBSyxFQUFFLFFBQVEsQ0FBQyxVQUFVO1lBQzFCLFdBQVcsRUFBRSx5REFBeUQ7U0FDdkUsQ0FBQyxDQUFDO1FBRUgsSUFBSSxHQUFHLENBQUMsU0FBUyxDQUFDLElBQUksRUFBRSxrQkFBa0IsRUFBRTtZQUMxQyxLQUFLLEVBQUUsV0FBVztZQUNsQixXQUFXLEVBQUUsa0NBQWtDO1NBQ2hELENBQUMsQ0FBQztRQUVILElBQUksR0FBRyxDQUFDLFNBQVMsQ0FBQyxJQUFJLEVBQUUsbUJBQW1CLEVBQUU7WUFDM0MsS0FBSyxFQUFFLGFBQWEsQ0FBQyxTQUFTO1lBQzlCLFdBQVcsRUFBRSxpRUFBaUU7U0FDL0UsQ0FBQyxDQUFDO1FBRUgsc0JBQXNCO1FBQ3RCLElBQUksR0FBRyxDQUFDLFNBQVMsQ0FBQyxJQUFJLEVBQUUsNEJBQTRCLEVBQUU7WUFDcEQsS0FBSyxFQUFFLDBGQUEwRixhQUFhLENBQUMsU0FBUyw4RUFBOEU7WUFDdE0sV0FBVyxFQUFFLG1DQUFtQztTQUNqRCxDQUFDLENBQUM7SUFDTCxDQUFDO0NBQ0Y7QUF4TkQsMEVBd05DIiwic291cmNlc0NvbnRlbnQiOlsiaW1wb3J0ICogYXMgY2RrIGZyb20gJ2F3cy1jZGstbGliJztcbmltcG9ydCAqIGFzIGxhbWJkYSBmcm9tICdhd3MtY2RrLWxpYi9hd3MtbGFtYmRhJztcbmltcG9ydCAqIGFzIG5vZGVqcyBmcm9tICdhd3MtY2RrLWxpYi9hd3MtbGFtYmRhLW5vZGVqcyc7XG5pbXBvcnQgKiBhcyBhcGlnYXRld2F5IGZyb20gJ2F3cy1jZGstbGliL2F3cy1hcGlnYXRld2F5JztcbmltcG9ydCAqIGFzIGNvZ25pdG8gZnJvbSAnYXdzLWNkay1saWIvYXdzLWNvZ25pdG8nO1xuaW1wb3J0ICogYXMgc2VjcmV0c21hbmFnZXIgZnJvbSAnYXdzLWNkay1saWIvYXdzLXNlY3JldHNtYW5hZ2VyJztcbmltcG9ydCAqIGFzIGlhbSBmcm9tICdhd3MtY2RrLWxpYi9hd3MtaWFtJztcbmltcG9ydCAqIGFzIHRyaWdnZXJzIGZyb20gJ2F3cy1jZGstbGliL3RyaWdnZXJzJztcbmltcG9ydCB7IENvbnN0cnVjdCB9IGZyb20gJ2NvbnN0cnVjdHMnO1xuaW1wb3J0ICogYXMgZnMgZnJvbSAnZnMnO1xuaW1wb3J0ICogYXMgcGF0aCBmcm9tICdwYXRoJztcblxuLy8gVGhlIGFwcCdzIHVzZXJzIHNpZ24gaW4gdGhyb3VnaCB0aGUgdXNlciBwb29sIGRlZmluZWQgaW4gYW1wbGlmeS9hdXRoL3Jlc291cmNlLnRzLiBJdHMgaWQgY29tZXMgZnJvbVxuLy8gVVNFUl9QT09MX0lELCBvciBmcm9tIHRoZSBhbXBsaWZ5X291dHB1dHMuanNvbiB0aGF0IGBhbXB4IHNhbmRib3hgIC8gYGFtcHggcGlwZWxpbmUtZGVwbG95YCB3cml0ZXMuXG5mdW5jdGlvbiByZXNvbHZlVXNlclBvb2xJZCgpOiBzdHJpbmcge1xuICBpZiAocHJvY2Vzcy5lbnYuVVNFUl9QT09MX0lEKSB7XG4gICAgcmV0dXJuIHByb2Nlc3MuZW52LlVTRVJfUE9PTF9JRDtcbiAgfVxuXG4gIGNvbnN0IG91dHB1dHNQYXRoID0gcGF0aC5qb2luKF9fZGlybmFtZSwgJy4uJywgJy4uJywgJ2FtcGxpZnlfb3V0cHV0cy5qc29uJyk7XG4gIGlmIChmcy5leGlzdHNTeW5jKG91dHB1dHNQYXRoKSkge1xuICAgIGNvbnN0IG91dHB1dHMgPSBKU09OLnBhcnNlKGZzLnJlYWRGaWxlU3luYyhvdXRwdXRzUGF0aCwgJ3V0ZjgnKSk7XG4gICAgaWYgKG91dHB1dHMuYXV0aD8udXNlcl9wb29sX2lkKSB7XG4gICAgICByZXR1cm4gb3V0cHV0cy5hdXRoLnVzZXJfcG9vbF9pZDtcbiAgICB9XG4gIH1cblxuICB0aHJvdyBuZXcgRXJyb3IoJ1VTRVJfUE9PTF9JRCBlbnZpcm9ubWVudCB2YXJpYWJsZSBpcyByZXF1aXJlZCAob3IgZGVwbG95IHRoZSBBbXBsaWZ5IGJhY2tlbmQgdG8gY3JlYXRlIGFtcGxpZnlfb3V0cHV0cy5qc29uKScpO1xufVxuXG5leHBvcnQgY2xhc3MgQ2Fsb3JpZUFwaUluZnJhc3RydWN0dXJlU3RhY2tWMiBleHRlbmRzIGNkay5TdGFjayB7XG4gIGNvbnN0cnVjdG9yKHNjb3BlOiBDb25zdHJ1Y3QsIGlkOiBzdHJpbmcsIHByb3BzPzogY2RrLlN0YWNrUHJvcHMpIHtcbiAgICBzdXBlcihzY29wZSwgaWQsIHByb3BzKTtcblxuICAgIC8vIFJEUyBpbnN0YW5jZSBkZXRhaWxzIGZyb20gZW52aXJvbm1lbnQgdmFyaWFibGVzIHdpdGggdmFsaWRhdGlvblxuICAgIGNvbnN0IHJkc0VuZHBvaW50ID0gcHJvY2Vzcy5lbnYuUkRTX0VORFBPSU5UO1xuICAgIGNvbnN0IHJkc1BvcnRTdHIgPSBwcm9jZXNzLmVudi5SRFNfUE9SVDtcbiAgICBjb25zdCBkYk5hbWUgPSBwcm9jZXNzLmVudi5EQl9OQU1FO1xuICAgIGNvbnN0IGRiVXNlcm5hbWUgPSBwcm9jZXNzLmVudi5EQl9VU0VSTkFNRTtcblxuICAgIC8vIFZhbGlkYXRlIHJlcXVpcmVkIGVudmlyb25tZW50IHZhcmlhYmxlc1xuICAgIGlmICghcmRzRW5kcG9pbnQpIHtcbiAgICAgIHRocm93IG5ldyBFcnJvcignUkRTX0VORFBPSU5UIGVudmlyb25tZW50IHZhcmlhYmxlIGlzIHJlcXVpcmVkJyk7XG4gICAgfVxuICAgIGlmICghcmRzUG9ydFN0cikge1xuICAgICAgdGhyb3cgbmV3IEVycm9yKCdSRFNfUE9SVCBlbnZpcm9ubWVudCB2YXJpYWJsZSBpcyByZXF1aXJlZCcpO1xuICAgIH1cbiAgICBpZiAoIWRiTmFtZSkge1xuICAgICAgdGhyb3cgbmV3IEVycm9yKCdEQl9OQU1FIGVudmlyb25tZW50IHZhcmlhYmxlIGlzIHJlcXVpcmVkJyk7XG4gICAgfVxuICAgIGlmICghZGJVc2VybmFtZSkge1xuICAgICAgdGhyb3cgbmV3IEVycm9yKCdEQl9VU0VSTkFNRSBlbnZpcm9ubWVudCB2YXJpYWJsZSBpcyByZXF1aXJlZCcpO1xuICAgIH1cblxuICAgIGNvbnN0IHJkc1BvcnQgPSBwYXJzZUludChyZHNQb3J0U3RyLCAxMCk7XG4gICAgaWYgKGlzTmFOKHJkc1BvcnQpKSB7XG4gICAgICB0aHJvdyBuZXcgRXJyb3IoJ1JEU19QT1JUIG11c3QgYmUgYSB2YWxpZCBudW1iZXInKTtcbiAgICB9XG5cbiAgICAvLyBEYXRhYmFzZSBjcmVkZW50aWFscyBzZWNyZXRcbiAgICBjb25zdCBkYkNyZWRlbnRpYWxzID0gbmV3IHNlY3JldHNtYW5hZ2VyLlNlY3JldCh0aGlzLCAnRXhpc3RpbmdEYkNyZWRlbnRpYWxzJywge1xuICAgICAgZGVzY3JpcHRpb246ICdDcmVkZW50aWFscyBmb3IgZXhpc3RpbmcgY2Fsb3JpZS1kYi0xIGRhdGFiYXNlJyxcbiAgICAgIGdlbmVyYXRlU2VjcmV0U3RyaW5nOiB7XG4gICAgICAgIHNlY3JldFN0cmluZ1RlbXBsYXRlOiBKU09OLnN0cmluZ2lmeSh7IHVzZXJuYW1lOiBkYlVzZXJuYW1lIH0pLFxuICAgICAgICBnZW5lcmF0ZVN0cmluZ0tleTogJ3Bhc3N3b3JkJyxcbiAgICAgICAgZXhjbHVkZUNoYXJhY3RlcnM6ICdcIkAvXFxcXCcsXG4gICAgICB9LFxuICAgIH0pO1xuXG4gICAgLy8gU2V0dGluZ3Mgc2hhcmVkIGJ5IHRoZSBmdW5jdGlvbnMgYnVpbHQgZnJvbSB0aGUgbGFtYmRhIHBhY2thZ2VcbiAgICBjb25zdCBkYXRhYmFzZUZ1bmN0aW9uUHJvcHMgPSB7XG4gICAgICBydW50aW1lOiBsYW1iZGEuUnVudGltZS5OT0RFSlNfMThfWCxcbiAgICAgIGhhbmRsZXI6ICdoYW5kbGVyJyxcbiAgICAgIGRlcHNMb2NrRmlsZVBhdGg6ICdsYW1iZGEvcGFja2FnZS1sb2NrLmpzb24nLFxuICAgICAgLy8gVGhlIEFXUyBTREsgc2hpcHMgd2l0aCB0aGUgcnVudGltZTsgcGcgb25seSBsb2FkcyBwZy1uYXRpdmUgaWYgaXQncyBpbnN0YWxsZWRcbiAgICAgIGJ1bmRsaW5nOiB7XG4gICAgICAgIGV4dGVybmFsTW9kdWxlczogWydAYXdzLXNkay8qJywgJ3BnLW5hdGl2ZSddLFxuICAgICAgfSxcbiAgICAgIGVudmlyb25tZW50OiB7XG4gICAgICAgIERCX1NFQ1JFVF9BUk46IGRiQ3JlZGVudGlhbHMuc2VjcmV0QXJuLFxuICAgICAgICBEQl9FTkRQT0lOVDogcmRzRW5kcG9pbnQsXG4gICAgICAgIERCX1BPUlQ6IHJkc1BvcnQudG9TdHJpbmcoKSxcbiAgICAgICAgREJfTkFNRTogZGJOYW1lLFxuICAgICAgfSxcbiAgICB9O1xuXG4gICAgLy8gTGFtYmRhIGZ1bmN0aW9uIGZvciBBUEkgKG91dHNpZGUgVlBDIGZvciBzaW1wbGljaXR5IHNpbmNlIFJEUyBpcyBwdWJsaWNseSBhY2Nlc3NpYmxlKVxuICAgIGNvbnN0IGFwaUZ1bmN0aW9uID0gbmV3IG5vZGVqcy5Ob2RlanNGdW5jdGlvbih0aGlzLCAnQ2Fsb3JpZUFwaUZ1bmN0aW9uJywge1xuICAgICAgLi4uZGF0YWJhc2VGdW5jdGlvblByb3BzLFxuICAgICAgZW50cnk6ICdsYW1iZGEvc3JjL2luZGV4LnRzJyxcbiAgICAgIHRpbWVvdXQ6IGNkay5EdXJhdGlvbi5zZWNvbmRzKDMwKSxcbiAgICB9KTtcblxuICAgIC8vIEFwcGxpZXMgcGVuZGluZyBkYXRhYmFzZSBtaWdyYXRpb25zIGR1cmluZyBlYWNoIGRlcGxveSwgYmVmb3JlIHRoZSBBUEkgZnVuY3Rpb24gaXMgdXBkYXRlZFxuICAgIGNvbnN0IG1pZ3JhdGlvbkZ1bmN0aW9uID0gbmV3IG5vZGVqcy5Ob2RlanNGdW5jdGlvbih0aGlzLCAnQ2Fsb3JpZU1pZ3JhdGlvbkZ1bmN0aW9uJywge1xuICAgICAgLi4uZGF0YWJhc2VGdW5jdGlvblByb3BzLFxuICAgICAgZW50cnk6ICdsYW1iZGEvc3JjL21pZ3JhdGUtaGFuZGxlci50cycsXG4gICAgICB0aW1lb3V0OiBjZGsuRHVyYXRpb24ubWludXRlcyg1KSxcbiAgICB9KTtcbiAgICBkYkNyZWRlbnRpYWxzLmdyYW50UmVhZChtaWdyYXRpb25GdW5jdGlvbik7XG5cbiAgICBuZXcgdHJpZ2dlcnMuVHJpZ2dlcih0aGlzLCAnUnVuTWlncmF0aW9ucycsIHtcbiAgICAgIGhhbmRsZXI6IG1pZ3JhdGlvbkZ1bmN0aW9uLFxuICAgICAgZXhlY3V0ZUJlZm9yZTogW2FwaUZ1bmN0aW9uXSxcbiAgICAgIHRpbWVvdXQ6IGNkay5EdXJhdGlvbi5taW51dGVzKDUpLFxuICAgIH0pO1xuXG4gICAgLy8gR3JhbnQgTGFtYmRhIHBlcm1pc3Npb25zIHRvIGFjY2VzcyBzZWNyZXRzXG4gICAgZGJDcmVkZW50aWFscy5ncmFudFJlYWQoYXBpRnVuY3Rpb24pO1xuXG4gICAgLy8gR3JhbnQgTGFtYmRhIHBlcm1pc3Npb25zIHRvIGNvbm5lY3QgdG8gUkRTXG4gICAgYXBpRnVuY3Rpb24uYWRkVG9Sb2xlUG9saWN5KG5ldyBpYW0uUG9saWN5U3RhdGVtZW50KHtcbiAgICAgIGVmZmVjdDogaWFtLkVmZmVjdC5BTExPVyxcbiAgICAgIGFjdGlvbnM6IFtcbiAgICAgICAgJ3JkczpEZXNjcmliZURCSW5zdGFuY2VzJyxcbiAgICAgICAgJ3JkczpDb25uZWN0J1xuICAgICAgXSxcbiAgICAgIHJlc291cmNlczogW2Bhcm46YXdzOnJkczp1cy1lYXN0LTI6JHt0aGlzLmFjY291bnR9OmRiOmNhbG9yaWUtZGItMWBdXG4gICAgfSkpO1xuXG4gICAgLy8gRXZlcnkgQVBJIG1ldGhvZCByZXF1aXJlcyBhIHNpZ25lZC1pbiB1c2VyOyBBUEkgR2F0ZXdheSB2ZXJpZmllcyB0aGUgdG9rZW4gYmVmb3JlIHRoZSBMYW1iZGEgcnVuc1xuICAgIGNvbnN0IHVzZXJQb29sID0gY29nbml0by5Vc2VyUG9vbC5mcm9tVXNlclBvb2xJZCh0aGlzLCAnQW1wbGlmeVVzZXJQb29sJywgcmVzb2x2ZVVzZXJQb29sSWQoKSk7XG4gICAgY29uc3QgYXV0aG9yaXplciA9IG5ldyBhcGlnYXRld2F5LkNvZ25pdG9Vc2VyUG9vbHNBdXRob3JpemVyKHRoaXMsICdDYWxvcmllQXBpQXV0aG9yaXplcicsIHtcbiAgICAgIGNvZ25pdG9Vc2VyUG9vbHM6IFt1c2VyUG9vbF0sXG4gICAgfSk7XG5cbiAgICAvLyBBUEkgR2F0ZXdheVxuICAgIGNvbnN0IGFwaSA9IG5ldyBhcGlnYXRld2F5LlJlc3RBcGkodGhpcywgJ0NhbG9yaWVBcGknLCB7XG4gICAgICByZXN0QXBpTmFtZTogJ0NhbG9yaWUgVHJhY2tpbmcgQVBJJyxcbiAgICAgIGRlc2NyaXB0aW9uOiAnQVBJIGZvciBjYWxvcmllIHRyYWNraW5nIGFwcGxpY2F0aW9uJyxcbiAgICAgIGRlZmF1bHRDb3JzUHJlZmxpZ2h0T3B0aW9uczoge1xuICAgICAgICBhbGxvd09yaWdpbnM6IGFwaWdhdGV3YXkuQ29ycy5BTExfT1JJR0lOUyxcbiAgICAgICAgYWxsb3dNZXRob2RzOiBhcGlnYXRld2F5LkNvcnMuQUxMX01FVEhPRFMsXG4gICAgICAgIGFsbG93SGVhZGVyczogW1xuICAgICAgICAgICdDb250ZW50LVR5cGUnLFxuICAgICAgICAgICdYLUFtei1EYXRlJyxcbiAgICAgICAgICAnQXV0aG9yaXphdGlvbicsXG4gICAgICAgICAgJ1gtQXBpLUtleScsXG4gICAgICAgICAgJ1gtQW16LVNlY3VyaXR5LVRva2VuJyxcbiAgICAgICAgICAnWC1BbXotVXNlci1BZ2VudCdcbiAgICAgICAgXSxcbiAgICAgICAgYWxsb3dDcmVkZW50aWFsczogZmFsc2UsXG4gICAgICB9LFxuICAgICAgZGVmYXVsdE1ldGhvZE9wdGlvbnM6IHtcbiAgICAgICAgYXV0aG9yaXplcixcbiAgICAgICAgYXV0aG9yaXphdGlvblR5cGU6IGFwaWdhdGV3YXkuQXV0aG9yaXphdGlvblR5cGUuQ09HTklUTyxcbiAgICAgICAgLy8gQXBpQ2xpZW50IHNlbmRzIHRoZSBhY2Nlc3MgdG9rZW4sIHdoaWNoIGNhcnJpZXMgdGhpcyBzY29wZSByYXRoZXIgdGhhbiBhbiBhdWRpZW5jZVxuICAgICAgICBhdXRob3JpemF0aW9uU2NvcGVzOiBbJ2F3cy5jb2duaXRvLnNpZ25pbi51c2VyLmFkbWluJ10sXG4gICAgICB9LFxuICAgIH0pO1xuXG4gICAgLy8gRXJyb3JzIHJhaXNlZCBieSBBUEkgR2F0ZXdheSBpdHNlbGYgKGUuZy4gYSBtaXNzaW5nIG9yIGV4cGlyZWQgdG9rZW4pIHVzZSB0aGUgTGFtYmRhJ3MgZXJyb3JcbiAgICAvLyBlbnZlbG9wZSwgYW5kIGNhcnJ5IENPUlMgaGVhZGVycyBzbyB0aGUgYnJvd3NlciBsZXRzIHRoZSBjbGllbnQgcmVhZCB0aGVtXG4gICAgLy8gJGNvbnRleHQuZXJyb3IubWVzc2FnZVN0cmluZyBpcyBhbHJlYWR5IGEgcXVvdGVkIEpTT04gc3RyaW5nLCBzbyBpdCBtdXN0IG5vdCBiZSBxdW90ZWQgYWdhaW5cbiAgICBjb25zdCBnYXRld2F5RXJyb3JUZW1wbGF0ZSA9XG4gICAgICAne1wic3VjY2Vzc1wiOmZhbHNlLFwiZXJyb3JcIjp7XCJjb2RlXCI6XCIkY29udGV4dC5lcnJvci5yZXNwb25zZVR5cGVcIixcIm1lc3NhZ2VcIjokY29udGV4dC5lcnJvci5tZXNzYWdlU3RyaW5nfX0nO1xuICAgIGZvciAoY29uc3QgW2lkLCB0eXBlXSBvZiBbXG4gICAgICBbJ0RlZmF1bHQ0eHgnLCBhcGlnYXRld2F5LlJlc3BvbnNlVHlwZS5ERUZBVUxUXzRYWF0sXG4gICAgICBbJ0RlZmF1bHQ1eHgnLCBhcGlnYXRld2F5LlJlc3BvbnNlVHlwZS5ERUZBVUxUXzVYWF0sXG4gICAgXSBhcyBjb25zdCkge1xuICAgICAgYXBpLmFkZEdhdGV3YXlSZXNwb25zZShpZCwge1xuICAgICAgICB0eXBlLFxuICAgICAgICByZXNwb25zZUhlYWRlcnM6IHsgJ0FjY2Vzcy1Db250cm9sLUFsbG93LU9yaWdpbic6IFwiJyonXCIgfSxcbiAgICAgICAgdGVtcGxhdGVzOiB7ICdhcHBsaWNhdGlvbi9qc29uJzogZ2F0ZXdheUVycm9yVGVtcGxhdGUgfSxcbiAgICAgIH0pO1xuICAgIH1cblxuICAgIC8vIExhbWJkYSBpbnRlZ3JhdGlvblxuICAgIGNvbnN0IGxhbWJkYUludGVncmF0aW9uID0gbmV3IGFwaWdhdGV3YXkuTGFtYmRhSW50ZWdyYXRpb24oYXBpRnVuY3Rpb24pO1xuXG4gICAgLy8gQVBJIHJlc291cmNlcyBhbmQgbWV0aG9kc1xuICAgIGNvbnN0IGZvb2RzUmVzb3VyY2UgPSBhcGkucm9vdC5hZGRSZXNvdXJjZSgnZm9vZHMnKTtcbiAgICBmb29kc1Jlc291cmNlLmFkZE1ldGhvZCgnR0VUJywgbGFtYmRhSW50ZWdyYXRpb24pO1xuICAgIGZvb2RzUmVzb3VyY2UuYWRkTWV0aG9kKCdQT1NUJywgbGFtYmRhSW50ZWdyYXRpb24pO1xuXG4gICAgLy8gQWRkIHByb3h5IHJlc291cmNlIGZvciBkeW5hbWljIHJvdXRlc1xuICAgIGNvbnN0IHByb3h5UmVzb3VyY2UgPSBmb29kc1Jlc291cmNlLmFkZFJlc291cmNlKCd7cHJveHkrfScpO1xuICAgIHByb3h5UmVzb3VyY2UuYWRkTWV0aG9kKCdBTlknLCBsYW1iZGFJbnRlZ3JhdGlvbik7XG5cbiAgICAvLyBQZXItdXNlciBmb29kIGxvZyByZXNvdXJjZXNcbiAgICBjb25zdCBsb2dzUmVzb3VyY2UgPSBhcGkucm9vdC5hZGRSZXNvdXJjZSgnbG9ncycpO1xuICAgIGxvZ3NSZXNvdXJjZS5hZGRNZXRob2QoJ0dFVCcsIGxhbWJkYUludGVncmF0aW9uKTtcbiAgICBsb2dzUmVzb3VyY2UuYWRkTWV0aG9kKCdQT1NUJywgbGFtYmRhSW50ZWdyYXRpb24pO1xuXG4gICAgY29uc3QgbG9nU3VtbWFyeVJlc291cmNlID0gbG9nc1Jlc291cmNlLmFkZFJlc291cmNlKCdzdW1tYXJ5Jyk7XG4gICAgbG9nU3VtbWFyeVJlc291cmNlLmFkZE1ldGhvZCgnR0VUJywgbGFtYmRhSW50ZWdyYXRpb24pO1xuXG4gICAgY29uc3QgbG9nSW1wb3J0UmVzb3VyY2UgPSBsb2dzUmVzb3VyY2UuYWRkUmVzb3VyY2UoJ2ltcG9ydCcpO1xuICAgIGxvZ0ltcG9ydFJlc291cmNlLmFkZE1ldGhvZCgnUE9TVCcsIGxhbWJkYUludGVncmF0aW9uKTtcblxuICAgIGNvbnN0IGxvZ0VudHJ5UmVzb3VyY2UgPSBsb2dzUmVzb3VyY2UuYWRkUmVzb3VyY2UoJ3tpZH0nKTtcbiAgICBsb2dFbnRyeVJlc291cmNlLmFkZE1ldGhvZCgnUFVUJywgbGFtYmRhSW50ZWdyYXRpb24pO1xuICAgIGxvZ0VudHJ5UmVzb3VyY2UuYWRkTWV0aG9kKCdERUxFVEUnLCBsYW1iZGFJbnRlZ3JhdGlvbik7XG5cbiAgICAvLyBQZXItdXNlciB3ZWlnaHQgaGlzdG9yeSByZXNvdXJjZXNcbiAgICBjb25zdCB3ZWlnaHRzUmVzb3VyY2UgPSBhcGkucm9vdC5hZGRSZXNvdXJjZSgnd2VpZ2h0cycpO1xuICAgIHdlaWdodHNSZXNvdXJjZS5hZGRNZXRob2QoJ0dFVCcsIGxhbWJkYUludGVncmF0aW9uKTtcbiAgICB3ZWlnaHRzUmVzb3VyY2UuYWRkTWV0aG9kKCdQT1NUJywgbGFtYmRhSW50ZWdyYXRpb24pO1xuXG4gICAgY29uc3Qgd2VpZ2h0SW1wb3J0UmVzb3VyY2UgPSB3ZWlnaHRzUmVzb3VyY2UuYWRkUmVzb3VyY2UoJ2ltcG9ydCcpO1xuICAgIHdlaWdodEltcG9ydFJlc291cmNlLmFkZE1ldGhvZCgnUE9TVCcsIGxhbWJkYUludGVncmF0aW9uKTtcblxuICAgIGNvbnN0IHdlaWdodEVudHJ5UmVzb3VyY2UgPSB3ZWlnaHRzUmVzb3VyY2UuYWRkUmVzb3VyY2UoJ3tpZH0nKTtcbiAgICB3ZWlnaHRFbnRyeVJlc291cmNlLmFkZE1ldGhvZCgnREVMRVRFJywgbGFtYmRhSW50ZWdyYXRpb24pO1xuXG4gICAgLy8gUGVyLXVzZXIgZGFpbHkgZ29hbHMgcmVzb3VyY2VcbiAgICBjb25zdCBnb2Fsc1Jlc291cmNlID0gYXBpLnJvb3QuYWRkUmVzb3VyY2UoJ2dvYWxzJyk7XG4gICAgZ29hbHNSZXNvdXJjZS5hZGRNZXRob2QoJ0dFVCcsIGxhbWJkYUludGVncmF0aW9uKTtcbiAgICBnb2Fsc1Jlc291cmNlLmFkZE1ldGhvZCgnUFVUJywgbGFtYmRhSW50ZWdyYXRpb24pO1xuXG4gICAgLy8gUGVyLXVzZXIgcmVjaXBlIHJlc291cmNlc1xuICAgIGNvbnN0IHJlY2lwZXNSZXNvdXJjZSA9IGFwaS5yb290LmFkZFJlc291cmNlKCdyZWNpcGVzJyk7XG4gICAgcmVjaXBlc1Jlc291cmNlLmFkZE1ldGhvZCgnR0VUJywgbGFtYmRhSW50ZWdyYXRpb24pO1xuICAgIHJlY2lwZXNSZXNvdXJjZS5hZGRNZXRob2QoJ1BPU1QnLCBsYW1iZGFJbnRlZ3JhdGlvbik7XG5cbiAgICBjb25zdCByZWNpcGVSZXNvdXJjZSA9IHJlY2lwZXNSZXNvdXJjZS5hZGRSZXNvdXJjZSgne2lkfScpO1xuICAgIHJlY2lwZVJlc291cmNlLmFkZE1ldGhvZCgnUFVUJywgbGFtYmRhSW50ZWdyYXRpb24pO1xuICAgIHJlY2lwZVJlc291cmNlLmFkZE1ldGhvZCgnREVMRVRFJywgbGFtYmRhSW50ZWdyYXRpb24pO1xuXG4gICAgLy8gT3V0cHV0c1xuICAgIG5ldyBjZGsuQ2ZuT3V0cHV0KHRoaXMsICdBcGlHYXRld2F5VXJsJywge1xuICAgICAgdmFsdWU6IGFwaS51cmwsXG4gICAgICBkZXNjcmlwdGlvbjogJ0FQSSBHYXRld2F5IFVSTCcsXG4gICAgfSk7XG5cbiAgICBuZXcgY2RrLkNmbk91dHB1dCh0aGlzLCAnVXNlclBvb2xJZCcsIHtcbiAgICAgIHZhbHVlOiB1c2VyUG9vbC51c2VyUG9vbElkLFxuICAgICAgZGVzY3JpcHRpb246ICdDb2duaXRvIHVzZXIgcG9vbCB0aGF0IEFQSSBjYWxsZXJzIGF1dGhlbnRpY2F0ZSBhZ2FpbnN0JyxcbiAgICB9KTtcblxuICAgIG5ldyBjZGsuQ2ZuT3V0cHV0KHRoaXMsICdEYXRhYmFzZUVuZHBvaW50Jywge1xuICAgICAgdmFsdWU6IHJkc0VuZHBvaW50LFxuICAgICAgZGVzY3JpcHRpb246ICdFeGlzdGluZyBSRFMgUG9zdGdyZVNRTCBlbmRwb2ludCcsXG4gICAgfSk7XG5cbiAgICBuZXcgY2RrLkNmbk91dHB1dCh0aGlzLCAnRGF0YWJhc2VTZWNyZXRBcm4nLCB7XG4gICAgICB2YWx1ZTogZGJDcmVkZW50aWFscy5zZWNyZXRBcm4sXG4gICAgICBkZXNjcmlwdGlvbjogJ0RhdGFiYXNlIGNyZWRlbnRpYWxzIHNlY3JldCBBUk4gLSBVcGRhdGUgd2l0aCB5b3VyIFJEUyBwYXNzd29yZCcsXG4gICAgfSk7XG5cbiAgICAvLyBJbnN0cnVjdGlvbnMgb3V0cHV0XG4gICAgbmV3IGNkay5DZm5PdXRwdXQodGhpcywgJ1Bvc3REZXBsb3ltZW50SW5zdHJ1Y3Rpb25zJywge1xuICAgICAgdmFsdWU6IGBVcGRhdGUgdGhlIHNlY3JldCB3aXRoIHlvdXIgUkRTIHBhc3N3b3JkOiBhd3Mgc2VjcmV0c21hbmFnZXIgdXBkYXRlLXNlY3JldCAtLXNlY3JldC1pZCAke2RiQ3JlZGVudGlhbHMuc2VjcmV0QXJufSAtLXNlY3JldC1zdHJpbmcgJ3tcInVzZXJuYW1lXCI6XCJwb3N0Z3Jlc1wiLFwicGFzc3dvcmRcIjpcIllPVVJfQUNUVUFMX1BBU1NXT1JEXCJ9J2AsXG4gICAgICBkZXNjcmlwdGlvbjogJ1J1biB0aGlzIGNvbW1hbmQgYWZ0ZXIgZGVwbG95bWVudCcsXG4gICAgfSk7XG4gIH1cbn0gIl19
\ No newline at end of file
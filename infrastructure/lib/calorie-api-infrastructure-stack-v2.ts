@@ -1,9 +1,32 @@
 import * as cdk from 'aws-cdk-lib';
 import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as nodejs from 'aws-cdk-lib/aws-lambda-nodejs';
 import * as apigateway from 'aws-cdk-lib/aws-apigateway';
+import * as cognito from 'aws-cdk-lib/aws-cognito';
 import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
 import * as iam from 'aws-cdk-lib/aws-iam';
+import * as triggers from 'aws-cdk-lib/triggers';
 import { Construct } from 'constructs';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// The app's users sign in through the user pool defined in amplify/auth/resource.ts. Its id comes from
+// USER_POOL_ID, or from the amplify_outputs.json that `ampx sandbox` / `ampx pipeline-deploy` writes.
+function resolveUserPoolId(): string {
+  if (process.env.USER_POOL_ID) {
+    return process.env.USER_POOL_ID;
+  }
+
+  const outputsPath = path.join(__dirname, '..', '..', 'amplify_outputs.json');
+  if (fs.existsSync(outputsPath)) {
+    const outputs = JSON.parse(fs.readFileSync(outputsPath, 'utf8'));
+    if (outputs.auth?.user_pool_id) {
+      return outputs.auth.user_pool_id;
+    }
+  }
+
+  throw new Error('USER_POOL_ID environment variable is required (or deploy the Amplify backend to create amplify_outputs.json)');
+}
 
 export class CalorieApiInfrastructureStackV2 extends cdk.Stack {
   constructor(scope: Construct, id: string, props?: cdk.StackProps) {
@@ -44,20 +67,44 @@ export class CalorieApiInfrastructureStackV2 extends cdk.Stack {
       },
     });
 
-    // Lambda function for API (outside VPC for simplicity since RDS is publicly accessible)
-    const apiFunction = new lambda.Function(this, 'CalorieApiFunction', {
+    // Settings shared by the functions built from the lambda package
+    const databaseFunctionProps = {
       runtime: lambda.Runtime.NODEJS_18_X,
-      handler: 'index.handler',
-      code: lambda.Code.fromAsset('lambda'),
+      handler: 'handler',
+      depsLockFilePath: 'lambda/package-lock.json',
+      // The AWS SDK ships with the runtime; pg only loads pg-native if it's installed
+      bundling: {
+        externalModules: ['@aws-sdk/*', 'pg-native'],
+      },
       environment: {
         DB_SECRET_ARN: dbCredentials.secretArn,
         DB_ENDPOINT: rdsEndpoint,
         DB_PORT: rdsPort.toString(),
         DB_NAME: dbName,
       },
+    };
+
+    // Lambda function for API (outside VPC for simplicity since RDS is publicly accessible)
+    const apiFunction = new nodejs.NodejsFunction(this, 'CalorieApiFunction', {
+      ...databaseFunctionProps,
+      entry: 'lambda/src/index.ts',
       timeout: cdk.Duration.seconds(30),
     });
 
+    // Applies pending database migrations during each deploy, before the API function is updated
+    const migrationFunction = new nodejs.NodejsFunction(this, 'CalorieMigrationFunction', {
+      ...databaseFunctionProps,
+      entry: 'lambda/src/migrate-handler.ts',
+      timeout: cdk.Duration.minutes(5),
+    });
+    dbCredentials.grantRead(migrationFunction);
+
+    new triggers.Trigger(this, 'RunMigrations', {
+      handler: migrationFunction,
+      executeBefore: [apiFunction],
+      timeout: cdk.Duration.minutes(5),
+    });
+
     // Grant Lambda permissions to access secrets
     dbCredentials.grantRead(apiFunction);
 
@@ -71,6 +118,12 @@ export class CalorieApiInfrastructureStackV2 extends cdk.Stack {
       resources: [`arn:aws:rds:us-east-2:${this.account}:db:calorie-db-1`]
     }));
 
+    // Every API method requires a signed-in user; API Gateway verifies the token before the Lambda runs
+    const userPool = cognito.UserPool.fromUserPoolId(this, 'AmplifyUserPool', resolveUserPoolId());
+    const authorizer = new apigateway.CognitoUserPoolsAuthorizer(this, 'CalorieApiAuthorizer', {
+      cognitoUserPools: [userPool],
+    });
+
     // API Gateway
     const api = new apigateway.RestApi(this, 'CalorieApi', {
       restApiName: 'Calorie Tracking API',
@@ -88,8 +141,30 @@ export class CalorieApiInfrastructureStackV2 extends cdk.Stack {
         ],
         allowCredentials: false,
       },
+      defaultMethodOptions: {
+        authorizer,
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+        // ApiClient sends the access token, which carries this scope rather than an audience
+        authorizationScopes: ['aws.cognito.signin.user.admin'],
+      },
     });
 
+    // Errors raised by API Gateway itself (e.g. a missing or expired token) use the Lambda's error
+    // envelope, and carry CORS headers so the browser lets the client read them
+    // $context.error.messageString is already a quoted JSON string, so it must not be quoted again
+    const gatewayErrorTemplate =
+      '{"success":false,"error":{"code":"$context.error.responseType","message":$context.error.messageString}}';
+    for (const [id, type] of [
+      ['Default4xx', apigateway.ResponseType.DEFAULT_4XX],
+      ['Default5xx', apigateway.ResponseType.DEFAULT_5XX],
+    ] as const) {
+      api.addGatewayResponse(id, {
+        type,
+        responseHeaders: { 'Access-Control-Allow-Origin': "'*'" },
+        templates: { 'application/json': gatewayErrorTemplate },
+      });
+    }
+
     // Lambda integration
     const lambdaIntegration = new apigateway.LambdaIntegration(apiFunction);
 
@@ -102,12 +177,57 @@ export class CalorieApiInfrastructureStackV2 extends cdk.Stack {
     const proxyResource = foodsResource.addResource('{proxy+}');
     proxyResource.addMethod('ANY', lambdaIntegration);
 
+    // Per-user food log resources
+    const logsResource = api.root.addResource('logs');
+    logsResource.addMethod('GET', lambdaIntegration);
+    logsResource.addMethod('POST', lambdaIntegration);
+
+    const logSummaryResource = logsResource.addResource('summary');
+    logSummaryResource.addMethod('GET', lambdaIntegration);
+
+    const logImportResource = logsResource.addResource('import');
+    logImportResource.addMethod('POST', lambdaIntegration);
+
+    const logEntryResource = logsResource.addResource('{id}');
+    logEntryResource.addMethod('PUT', lambdaIntegration);
+    logEntryResource.addMethod('DELETE', lambdaIntegration);
+
+    // Per-user weight history resources
+    const weightsResource = api.root.addResource('weights');
+    weightsResource.addMethod('GET', lambdaIntegration);
+    weightsResource.addMethod('POST', lambdaIntegration);
+
+    const weightImportResource = weightsResource.addResource('import');
+    weightImportResource.addMethod('POST', lambdaIntegration);
+
+    const weightEntryResource = weightsResource.addResource('{id}');
+    weightEntryResource.addMethod('DELETE', lambdaIntegration);
+
+    // Per-user daily goals resource
+    const goalsResource = api.root.addResource('goals');
+    goalsResource.addMethod('GET', lambdaIntegration);
+    goalsResource.addMethod('PUT', lambdaIntegration);
+
+    // Per-user recipe resources
+    const recipesResource = api.root.addResource('recipes');
+    recipesResource.addMethod('GET', lambdaIntegration);
+    recipesResource.addMethod('POST', lambdaIntegration);
+
+    const recipeResource = recipesResource.addResource('{id}');
+    recipeResource.addMethod('PUT', lambdaIntegration);
+    recipeResource.addMethod('DELETE', lambdaIntegration);
+
     // Outputs
     new cdk.CfnOutput(this, 'ApiGatewayUrl', {
       value: api.url,
       description: 'API Gateway URL',
     });
 
+    new cdk.CfnOutput(this, 'UserPoolId', {
+      value: userPool.userPoolId,
+      description: 'Cognito user pool that API callers authenticate against',
+    });
+
     new cdk.CfnOutput(this, 'DatabaseEndpoint', {
       value: rdsEndpoint,
       description: 'Existing RDS PostgreSQL endpoint',
@@ -1,10 +1,37 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
+import { useApiClient } from "./hooks/useApiClient";
 import { useEnhancedAuth } from "./hooks/useEnhancedAuth";
 import ErrorDisplay from "./components/ErrorDisplay";
+import BarcodeEntry from "./components/BarcodeEntry";
+import ConnectionStatus from "./components/ConnectionStatus";
+import CustomFoodForm from "./components/CustomFoodForm";
+import DataExportPanel from "./components/DataExportPanel";
 import FoodSearchCombobox from "./components/FoodSearchCombobox";
-import FoodLog, { FoodLogRef } from "./components/FoodLog";
+import HistoryImportPanel from "./components/HistoryImportPanel";
+import FoodLog, { FoodLogRef, LogSource } from "./components/FoodLog";
 import MacroRecommendations from "./components/MacroRecommendations";
-import { apiClient, ApiError, Food } from "./services/apiClient";
+import MicronutrientPanel from "./components/MicronutrientPanel";
+import RecipeManager from "./components/RecipeManager";
+import SearchResultsList from "./components/SearchResultsList";
+import SyncConflictNotice from "./components/SyncConflictNotice";
+import WeightHistory, { WeightHistoryRef } from "./components/WeightHistory";
+import {
+  ApiError,
+  DailyGoals,
+  Food,
+  FoodSearchPage,
+  FoodServing,
+  MealType,
+  Micronutrients,
+  QuickAddFood,
+  Recipe
+} from "./services/apiClient";
+import { getTodayDateString } from "./utils/dates";
+import { MEAL_OPTIONS, getMealForTime } from "./utils/meals";
+import { scaleMicronutrients } from "./utils/micronutrients";
+import { scaleNutrition } from "./utils/nutrition";
+import { GRAM_UNIT, MAX_PORTION_GRAMS, formatPortion, getPortionUnits, getQuickAddPortion, resolvePortionGrams } from "./utils/servings";
+import { fromKg, toKg } from "./utils/weight";
 
 interface DisplayError {
   code: string;
@@ -24,9 +51,75 @@ interface FoodLookupResult {
   fatPer100g: number;
   fatPerPortion: number;
   portionSize: number;
+  servings: FoodServing[]; // household units offered next to grams
+  micronutrients: Micronutrients; // per 100g, unknown values are null
+  barcode?: string; // set when an unknown barcode was looked up
+  searchedFor?: string; // set when the best match's name differs from the search term
+  source?: LogSource; // the food or recipe found, unset for placeholders
   found: boolean;
 }
 
+// Link a log entry to the food or recipe it was logged from
+const getLogSource = (food: Food): LogSource =>
+  (food.type === 'recipe' ? { recipeId: food.id } : { foodId: food.id });
+
+// Recalculate a lookup result's per-portion values for a new portion size in grams
+const applyPortion = (result: FoodLookupResult, grams: number): FoodLookupResult => {
+  const portion = scaleNutrition({
+    calories: result.caloriesPer100g,
+    protein: result.proteinPer100g,
+    carbs: result.carbsPer100g,
+    fat: result.fatPer100g
+  }, grams);
+
+  return {
+    ...result,
+    caloriesPerPortion: portion.calories,
+    proteinPerPortion: portion.protein,
+    carbsPerPortion: portion.carbs,
+    fatPerPortion: portion.fat,
+    portionSize: grams
+  };
+};
+
+const toLookupResult = (food: Food, grams: number): FoodLookupResult => applyPortion({
+  name: food.name,
+  caloriesPer100g: food.calories,
+  caloriesPerPortion: 0,
+  proteinPer100g: food.protein,
+  proteinPerPortion: 0,
+  carbsPer100g: food.carbs,
+  carbsPerPortion: 0,
+  fatPer100g: food.fat,
+  fatPerPortion: 0,
+  portionSize: grams,
+  servings: food.servings ?? [],
+  micronutrients: food.micronutrients ?? {},
+  source: getLogSource(food),
+  found: true
+}, grams);
+
+// Placeholder result shown when nothing matched a search term or barcode
+const toNotFoundResult = (name: string, grams: number, barcode?: string): FoodLookupResult => ({
+  name,
+  caloriesPer100g: 0,
+  caloriesPerPortion: 0,
+  proteinPer100g: 0,
+  proteinPerPortion: 0,
+  carbsPer100g: 0,
+  carbsPerPortion: 0,
+  fatPer100g: 0,
+  fatPerPortion: 0,
+  portionSize: grams,
+  servings: [],
+  micronutrients: {},
+  barcode,
+  found: false
+});
+
+// Results are loaded a page at a time below the lookup result
+const LOOKUP_PAGE_SIZE = 10;
+
 const convertApiErrorToDisplayError = (apiError: ApiError): DisplayError => ({
   code: apiError.code,
   message: apiError.message,
@@ -34,22 +127,36 @@ const convertApiErrorToDisplayError = (apiError: ApiError): DisplayError => ({
 });
 
 function App() {
+  const apiClient = useApiClient();
   const { user, signOut } = useEnhancedAuth();
   const [apiError, setApiError] = useState<DisplayError | null>(null);
 
   // State for weight tracking
   const [currentWeight, setCurrentWeight] = useState<number | string>('');
   const [weightUnit, setWeightUnit] = useState<'kg' | 'lbs'>('lbs');
+  const [weighInDate, setWeighInDate] = useState<string>(getTodayDateString());
+  const [isSavingWeight, setIsSavingWeight] = useState(false);
 
   // State for calorie lookup feature
   const [lookupResult, setLookupResult] = useState<FoodLookupResult | null>(null);
   const [isLookupLoading, setIsLookupLoading] = useState(false);
   const [currentInputValue, setCurrentInputValue] = useState("");
-  const [gramInput, setGramInput] = useState<string>("100");
+  const [quantityInput, setQuantityInput] = useState<string>("100");
+  const [selectedUnit, setSelectedUnit] = useState<string>(GRAM_UNIT);
+  const [selectedMeal, setSelectedMeal] = useState<MealType>(getMealForTime());
+  const [isCreatingCustomFood, setIsCreatingCustomFood] = useState(false);
+  const [searchResults, setSearchResults] = useState<(FoodSearchPage & { term: string }) | null>(null);
+  const [isLoadingMoreResults, setIsLoadingMoreResults] = useState(false);
+
+  // Daily calorie and macro goals shared by the calculator and the food log
+  const [dailyGoals, setDailyGoals] = useState<DailyGoals | null>(null);
 
   // Ref to access FoodLog component methods
   const foodLogRef = useRef<FoodLogRef>(null);
 
+  // Ref to access WeightHistory component methods
+  const weightHistoryRef = useRef<WeightHistoryRef>(null);
+
   const handleApiError = (error: unknown) => {
     if (error && typeof error === 'object' && 'code' in error) {
       const apiError = error as ApiError;
@@ -67,6 +174,51 @@ function App() {
     setApiError(null);
   };
 
+  // Load the user's saved daily goals
+  useEffect(() => {
+    apiClient.getGoals()
+      .then(setDailyGoals)
+      .catch(error => console.error('Error loading daily goals:', error));
+  }, [apiClient]);
+
+  // Send anything logged offline in an earlier session
+  useEffect(() => {
+    apiClient.syncNow();
+  }, [apiClient]);
+
+  // Offline data belongs to this user, so it's cleared on sign-out; warn before dropping unsynced changes
+  const handleSignOut = async () => {
+    const { pendingCount } = apiClient.getSyncStatus();
+    if (pendingCount > 0 && !window.confirm(
+      `You have ${pendingCount} change${pendingCount === 1 ? '' : 's'} that haven't synced yet and will be lost. Sign out anyway?`
+    )) {
+      return;
+    }
+
+    try {
+      await apiClient.clearOfflineData();
+    } catch (error) {
+      console.error('Error clearing offline data:', error);
+    }
+    signOut();
+  };
+
+  const handleSaveGoals = async (goals: DailyGoals): Promise<boolean> => {
+    try {
+      setDailyGoals(await apiClient.saveGoals(goals));
+      return true;
+    } catch (error) {
+      handleApiError(error);
+      return false;
+    }
+  };
+
+  // Show entries and weigh-ins added by an import
+  const handleHistoryImported = () => {
+    foodLogRef.current?.reload();
+    weightHistoryRef.current?.reload();
+  };
+
   // Handle weight input changes
   const handleWeightChange = (value: string) => {
     // Allow empty string or valid numbers (including decimals)
@@ -75,6 +227,21 @@ function App() {
     }
   };
 
+  // Prefill the weight box with the most recent weigh-in if it's still empty
+  const handleLatestWeightLoaded = (weightKg: number) => {
+    setCurrentWeight(prev => (prev === '' ? fromKg(weightKg, weightUnit).toFixed(1) : prev));
+  };
+
+  // Save the entered weight as a weigh-in for the chosen date
+  const handleSaveWeight = async () => {
+    const weight = typeof currentWeight === 'string' ? parseFloat(currentWeight) : currentWeight;
+    if (isNaN(weight) || weight <= 0) return;
+
+    setIsSavingWeight(true);
+    await weightHistoryRef.current?.recordWeight(weighInDate, Math.round(toKg(weight, weightUnit) * 100) / 100);
+    setIsSavingWeight(false);
+  };
+
   // Convert weight between units for display
   const getConvertedWeight = () => {
     const weight = typeof currentWeight === 'string' ? parseFloat(currentWeight) : currentWeight;
@@ -93,32 +260,91 @@ function App() {
     }
   };
 
+  // Units offered for the current lookup result; grams only until a food is chosen
+  const portionUnits = getPortionUnits(lookupResult?.servings);
+  const currentUnit = portionUnits.find(unit => unit.label === selectedUnit) ?? portionUnits[0];
+
+  // Portion in grams for a newly chosen food, falling back to 100g if it lacks the selected unit
+  const getPortionGramsFor = (food: Food): number => {
+    const unit = getPortionUnits(food.servings).find(option => option.label === selectedUnit);
+    if (unit) {
+      return resolvePortionGrams(Number(quantityInput) || 0, unit);
+    }
+
+    setSelectedUnit(GRAM_UNIT);
+    setQuantityInput('100');
+    return 100;
+  };
+
   // Handle selection from combobox
   const handleFoodSelection = (selectedFood: Food | null) => {
     if (selectedFood) {
-      // Calculate nutrition based on exact gram input
-      const gramValue = Number(gramInput) || 0;
-      const caloriesPer100g = selectedFood.calories;
-      const caloriesPerPortion = Math.round((caloriesPer100g / 100) * gramValue);
-      
-      setLookupResult({
-        name: selectedFood.name,
-        caloriesPer100g,
-        caloriesPerPortion,
-        proteinPer100g: selectedFood.protein,
-        proteinPerPortion: Math.round(((selectedFood.protein / 100) * gramValue) * 10) / 10,
-        carbsPer100g: selectedFood.carbs,
-        carbsPerPortion: Math.round(((selectedFood.carbs / 100) * gramValue) * 10) / 10,
-        fatPer100g: selectedFood.fat,
-        fatPerPortion: Math.round(((selectedFood.fat / 100) * gramValue) * 10) / 10,
-        portionSize: gramValue,
-        found: true
-      });
+      // Calculate nutrition based on the entered quantity and unit
+      setLookupResult(toLookupResult(selectedFood, getPortionGramsFor(selectedFood)));
 
       // Note: No longer automatically adding to food log here
     }
   };
 
+  // Keep the displayed portion in sync with the quantity box
+  const handleQuantityChange = (value: string) => {
+    setQuantityInput(value);
+    setLookupResult(prev => (prev ? applyPortion(prev, resolvePortionGrams(Number(value) || 0, currentUnit)) : prev));
+  };
+
+  // Household units belong to the looked-up food, so fall back to its weight in grams when it's cleared
+  const resetPortionToGrams = () => {
+    if (selectedUnit !== GRAM_UNIT) {
+      setSelectedUnit(GRAM_UNIT);
+      setQuantityInput(String(lookupResult?.portionSize ?? 100));
+    }
+  };
+
+  // Switching units keeps the amount sensible: grams carry over the resolved weight, other units start at 1
+  const handleUnitChange = (label: string) => {
+    const unit = portionUnits.find(option => option.label === label);
+    if (!unit) return;
+
+    const quantity = label === GRAM_UNIT ? String(resolvePortionGrams(Number(quantityInput) || 0, currentUnit)) : '1';
+    setSelectedUnit(label);
+    setQuantityInput(quantity);
+    setLookupResult(prev => (prev ? applyPortion(prev, resolvePortionGrams(Number(quantity), unit)) : prev));
+  };
+
+  // Log one serving of a recipe straight from the recipe list
+  const handleLogRecipeServing = (recipe: Recipe) => {
+    foodLogRef.current?.addFood(
+      recipe.name,
+      recipe.per100g.calories,
+      recipe.per100g.protein,
+      recipe.per100g.carbs,
+      recipe.per100g.fat,
+      Math.round((recipe.cookedWeightGrams / recipe.servings) * 10) / 10,
+      selectedMeal,
+      { unit: 'serving', quantity: 1 },
+      recipe.micronutrientsPer100g,
+      { recipeId: recipe.id }
+    );
+  };
+
+  // Log a favorite or recent food in one click, at the portion it was last logged at
+  const handleQuickAdd = (item: QuickAddFood) => {
+    const { food } = item;
+    const portion = getQuickAddPortion(item);
+    foodLogRef.current?.addFood(
+      food.name,
+      food.calories,
+      food.protein,
+      food.carbs,
+      food.fat,
+      portion.portionSize,
+      selectedMeal,
+      { unit: portion.servingUnit, quantity: portion.servingQuantity },
+      food.micronutrients ?? {},
+      getLogSource(food)
+    );
+  };
+
   // Handle adding food to log (separate from selection)
   const handleAddToLog = () => {
     if (lookupResult && lookupResult.found) {
@@ -128,7 +354,11 @@ function App() {
         lookupResult.proteinPer100g, 
         lookupResult.carbsPer100g, 
         lookupResult.fatPer100g, 
-        lookupResult.portionSize
+        lookupResult.portionSize,
+        selectedMeal,
+        { unit: currentUnit.label, quantity: Number(quantityInput) || 0 },
+        lookupResult.micronutrients,
+        lookupResult.source
       );
     }
   };
@@ -136,7 +366,28 @@ function App() {
   // Handle input changes from combobox
   const handleInputChange = (value: string) => {
     setCurrentInputValue(value);
+    resetPortionToGrams();
     setLookupResult(null); // Clear previous result
+    setSearchResults(null);
+    setIsCreatingCustomFood(false);
+  };
+
+  // Show a newly created custom food as the lookup result
+  const handleCustomFoodCreated = (food: Food) => {
+    setIsCreatingCustomFood(false);
+    handleFoodSelection(food);
+  };
+
+  // Show a food found by barcode as the lookup result
+  const handleBarcodeFound = (food: Food) => {
+    setIsCreatingCustomFood(false);
+    handleFoodSelection(food);
+  };
+
+  // Offer to create a custom food for a barcode nobody has added yet
+  const handleBarcodeNotFound = (barcode: string) => {
+    setIsCreatingCustomFood(false);
+    setLookupResult(toNotFoundResult(barcode, resolvePortionGrams(Number(quantityInput) || 0, currentUnit), barcode));
   };
 
   // Manual calorie lookup function
@@ -150,57 +401,58 @@ function App() {
       setIsLookupLoading(true);
       setApiError(null);
       
-      const results = await apiClient.searchFood(searchTerm.trim());
+      const page = await apiClient.searchFood(searchTerm.trim(), { limit: LOOKUP_PAGE_SIZE });
+      const results = page.foods;
       console.log('🔍 Lookup Results:', results);
+      setSearchResults({ ...page, term: searchTerm.trim() });
       
       if (results.length > 0) {
+        // Results are ranked by the API, so the first one is the best match
         const food = results[0] as Food;
-        const gramValue = Number(gramInput) || 0;
-        const caloriesPer100g = food.calories;
-        const caloriesPerPortion = Math.round((caloriesPer100g / 100) * gramValue);
-        
+        const isExactMatch = food.name.toLowerCase() === searchTerm.trim().toLowerCase();
         setLookupResult({
-          name: food.name,
-          caloriesPer100g,
-          caloriesPerPortion,
-          proteinPer100g: food.protein,
-          proteinPerPortion: Math.round(((food.protein / 100) * gramValue) * 10) / 10,
-          carbsPer100g: food.carbs,
-          carbsPerPortion: Math.round(((food.carbs / 100) * gramValue) * 10) / 10,
-          fatPer100g: food.fat,
-          fatPerPortion: Math.round(((food.fat / 100) * gramValue) * 10) / 10,
-          portionSize: gramValue,
-          found: true
+          ...toLookupResult(food, getPortionGramsFor(food)),
+          searchedFor: isExactMatch ? undefined : searchTerm.trim()
         });
 
         // Note: No longer automatically adding to food log here
       } else {
-        const gramValue = Number(gramInput) || 0;
-        setLookupResult({
-          name: searchTerm.trim(),
-          caloriesPer100g: 0,
-          caloriesPerPortion: 0,
-          proteinPer100g: 0,
-          proteinPerPortion: 0,
-          carbsPer100g: 0,
-          carbsPerPortion: 0,
-          fatPer100g: 0,
-          fatPerPortion: 0,
-          portionSize: gramValue,
-          found: false
-        });
+        const gramValue = resolvePortionGrams(Number(quantityInput) || 0, currentUnit);
+        setLookupResult(toNotFoundResult(searchTerm.trim(), gramValue));
       }
     } catch (error) {
       handleApiError(error);
       setLookupResult(null);
+      setSearchResults(null);
     } finally {
       setIsLookupLoading(false);
     }
   };
 
+  // Append the next page of matches for the current lookup
+  const handleLoadMoreResults = async () => {
+    if (!searchResults?.nextCursor) return;
+
+    try {
+      setIsLoadingMoreResults(true);
+      const page = await apiClient.searchFood(searchResults.term, {
+        limit: LOOKUP_PAGE_SIZE,
+        cursor: searchResults.nextCursor
+      });
+      setSearchResults(prev => (prev ? { ...page, foods: [...prev.foods, ...page.foods], term: prev.term } : prev));
+    } catch (error) {
+      handleApiError(error);
+    } finally {
+      setIsLoadingMoreResults(false);
+    }
+  };
+
   const clearLookupResult = () => {
+    resetPortionToGrams();
     setLookupResult(null);
+    setSearchResults(null);
     setCurrentInputValue("");
+    setIsCreatingCustomFood(false);
   };
 
   return (
@@ -227,19 +479,10 @@ function App() {
         </div>
         
         <div style={{ display: 'flex', alignItems: 'center', gap: '15px' }}>
-          <div style={{
-            backgroundColor: '#e8f5e8',
-            padding: '8px 12px',
-            borderRadius: '20px',
-            fontSize: '12px',
-            color: '#155724',
-            fontWeight: '500'
-          }}>
-            🟢 Online
-          </div>
+          <ConnectionStatus />
           
           <button
-            onClick={signOut}
+            onClick={handleSignOut}
             style={{
               backgroundColor: '#dc3545',
               color: 'white',
@@ -259,6 +502,8 @@ function App() {
         </div>
       </div>
 
+      <SyncConflictNotice />
+
       {apiError && (
         <div style={{ marginBottom: '20px' }}>
           <ErrorDisplay
@@ -342,6 +587,39 @@ function App() {
             </div>
           </div>
 
+          {/* Weigh-in Date and Save */}
+          <div style={{ display: 'flex', gap: '10px', alignItems: 'center', marginBottom: '15px' }}>
+            <input
+              type="date"
+              value={weighInDate}
+              max={getTodayDateString()}
+              onChange={(e) => setWeighInDate(e.target.value || getTodayDateString())}
+              style={{
+                padding: '10px 12px',
+                fontSize: '14px',
+                border: '2px solid #e3f2fd',
+                borderRadius: '6px'
+              }}
+              title="Date of this weigh-in"
+            />
+            <button
+              onClick={handleSaveWeight}
+              disabled={isSavingWeight || !getConvertedWeight()}
+              style={{
+                padding: '10px 20px',
+                backgroundColor: isSavingWeight || !getConvertedWeight() ? '#95a5a6' : '#1976d2',
+                color: 'white',
+                border: 'none',
+                borderRadius: '6px',
+                cursor: isSavingWeight || !getConvertedWeight() ? 'not-allowed' : 'pointer',
+                fontSize: '14px',
+                fontWeight: '500'
+              }}
+            >
+              {isSavingWeight ? '⏳ Saving...' : '💾 Save Weigh-in'}
+            </button>
+          </div>
+
           {/* Weight Display */}
           {getConvertedWeight() && (
             <div style={{
@@ -360,8 +638,20 @@ function App() {
             </div>
           )}
 
+          {/* Weight History */}
+          <WeightHistory
+            ref={weightHistoryRef}
+            weightUnit={weightUnit}
+            onError={handleApiError}
+            onLatestWeightLoaded={handleLatestWeightLoaded}
+          />
+
           {/* Macro Recommendations */}
-          <MacroRecommendations weight={typeof currentWeight === 'string' ? parseFloat(currentWeight) : currentWeight} weightUnit={weightUnit} />
+          <MacroRecommendations
+            weight={typeof currentWeight === 'string' ? parseFloat(currentWeight) : currentWeight}
+            weightUnit={weightUnit}
+            onApplyTargets={handleSaveGoals}
+          />
           
           <div style={{ marginTop: '15px', fontSize: '14px', color: '#6c757d' }}>
             <strong>💡 Tip:</strong> Tracking your weight helps with accurate calorie and nutrition planning
@@ -394,6 +684,7 @@ function App() {
                 placeholder="Enter food name (e.g., Apple, Chicken Breast)..."
                 onSelection={handleFoodSelection}
                 onInputChange={handleInputChange}
+                onQuickAdd={handleQuickAdd}
                 disabled={isLookupLoading}
               />
             </div>
@@ -401,25 +692,27 @@ function App() {
             <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
               <input
                 type="number"
-                value={gramInput}
+                value={quantityInput}
                 onChange={(e) => {
                   const value = e.target.value;
                   // Prevent leading zeros (except for just "0" temporarily)
                   if (value.length > 1 && value.startsWith('0') && value[1] !== '.') {
                     return; // Don't allow leading zeros like "01", "02", etc.
                   }
-                  setGramInput(value);
+                  handleQuantityChange(value);
                 }}
                 onBlur={(e) => {
+                  // Keep the resolved portion between 1g and the maximum portion weight
                   const num = Number(e.target.value);
-                  if (isNaN(num) || num < 1) {
-                    setGramInput("1");
-                  } else if (num > 2000) {
-                    setGramInput("2000");
+                  const maxQuantity = Math.floor((MAX_PORTION_GRAMS / currentUnit.grams) * 10) / 10;
+                  if (isNaN(num) || num <= 0 || (currentUnit.label === GRAM_UNIT && num < 1)) {
+                    handleQuantityChange("1");
+                  } else if (num > maxQuantity) {
+                    handleQuantityChange(String(maxQuantity));
                   }
                 }}
-                min="1"
-                max="2000"
+                min={currentUnit.label === GRAM_UNIT ? "1" : "0.1"}
+                step={currentUnit.label === GRAM_UNIT ? "1" : "0.5"}
                 style={{
                   width: '80px',
                   padding: '12px',
@@ -430,7 +723,25 @@ function App() {
                   transition: 'border-color 0.2s'
                 }}
               />
-              <span style={{ fontSize: '14px', color: '#6c757d', whiteSpace: 'nowrap' }}>grams</span>
+              <select
+                value={currentUnit.label}
+                onChange={(e) => handleUnitChange(e.target.value)}
+                style={{
+                  padding: '12px',
+                  fontSize: '16px',
+                  border: '2px solid #e3f2fd',
+                  borderRadius: '6px',
+                  backgroundColor: 'white',
+                  cursor: 'pointer'
+                }}
+                title="Portion unit"
+              >
+                {portionUnits.map(unit => (
+                  <option key={unit.label} value={unit.label}>
+                    {unit.label === GRAM_UNIT ? 'grams' : `${unit.label} (${unit.grams}g)`}
+                  </option>
+                ))}
+              </select>
             </div>
             
             <button 
@@ -452,6 +763,13 @@ function App() {
             </button>
           </div>
 
+          <BarcodeEntry
+            onFound={handleBarcodeFound}
+            onNotFound={handleBarcodeNotFound}
+            onError={handleApiError}
+            disabled={isLookupLoading}
+          />
+
           {/* Results Display */}
           {lookupResult && (
             <div style={{
@@ -488,6 +806,12 @@ function App() {
                   }}>
                     📊 Nutrition Information: {lookupResult.name}
                   </h3>
+
+                  {lookupResult.searchedFor && (
+                    <div style={{ marginTop: '-8px', marginBottom: '12px', fontSize: '13px', color: '#6c757d' }}>
+                      Closest match for "{lookupResult.searchedFor}"
+                    </div>
+                  )}
                   
                   <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '15px' }}>
                     <div style={{
@@ -516,7 +840,7 @@ function App() {
                       border: '2px solid #ffeaa7'
                     }}>
                       <div style={{ fontSize: '14px', color: '#856404', marginBottom: '5px' }}>
-                        Per {lookupResult.portionSize} grams:
+                        Per {formatPortion(Number(quantityInput) || 0, currentUnit.label, lookupResult.portionSize)}:
                       </div>
                       <div style={{ fontSize: '20px', fontWeight: 'bold', color: '#856404', marginBottom: '8px' }}>
                         {lookupResult.caloriesPerPortion} cal
@@ -529,12 +853,36 @@ function App() {
                     </div>
                   </div>
                   
+                  <MicronutrientPanel
+                    values={scaleMicronutrients(lookupResult.micronutrients, lookupResult.portionSize)}
+                    title={`Fiber, vitamins & minerals per ${formatPortion(Number(quantityInput) || 0, currentUnit.label, lookupResult.portionSize)}`}
+                  />
+
                   <div style={{ marginTop: '10px', fontSize: '12px', color: '#6c757d' }}>
-                    💡 Tip: Adjust the gram amount above to match your actual portion size for precise nutrition tracking
+                    💡 Tip: Adjust the amount above, or pick a household unit, to match your actual portion size for precise nutrition tracking
                   </div>
                   
                   {/* Add to Log Button */}
-                  <div style={{ marginTop: '15px', textAlign: 'center' }}>
+                  <div style={{ marginTop: '15px', display: 'flex', justifyContent: 'center', alignItems: 'center', gap: '10px' }}>
+                    <select
+                      value={selectedMeal}
+                      onChange={(e) => setSelectedMeal(e.target.value as MealType)}
+                      style={{
+                        padding: '12px',
+                        fontSize: '16px',
+                        border: '2px solid #e3f2fd',
+                        borderRadius: '6px',
+                        backgroundColor: 'white',
+                        cursor: 'pointer'
+                      }}
+                      title="Meal to add this food to"
+                    >
+                      {MEAL_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>
+                          {option.icon} {option.label}
+                        </option>
+                      ))}
+                    </select>
                     <button
                       onClick={handleAddToLog}
                       style={{
@@ -564,25 +912,83 @@ function App() {
                     fontSize: '18px',
                     marginTop: 0
                   }}>
-                    ❌ Food Not Found: "{lookupResult.name}"
+                    {lookupResult.barcode
+                      ? `❌ Unknown Barcode: ${lookupResult.barcode}`
+                      : `❌ Food Not Found: "${lookupResult.name}"`}
                   </h3>
                   <p style={{ color: '#721c24', margin: 0 }}>
-                    Sorry, we couldn't find nutritional information for this food item. 
-                    Try a different name or check the spelling.
+                    {lookupResult.barcode
+                      ? "No food has this barcode yet. Check the digits, or add the product from its nutrition label."
+                      : "Sorry, we couldn't find nutritional information for this food item. Try a different name or check the spelling."}
                   </p>
+
+                  {isCreatingCustomFood ? (
+                    <CustomFoodForm
+                      initialName={lookupResult.barcode ? '' : lookupResult.name}
+                      barcode={lookupResult.barcode}
+                      onCreated={handleCustomFoodCreated}
+                      onCancel={() => setIsCreatingCustomFood(false)}
+                      onError={handleApiError}
+                    />
+                  ) : (
+                    <button
+                      onClick={() => setIsCreatingCustomFood(true)}
+                      style={{
+                        marginTop: '12px',
+                        backgroundColor: '#28a745',
+                        color: 'white',
+                        border: 'none',
+                        padding: '10px 18px',
+                        borderRadius: '6px',
+                        cursor: 'pointer',
+                        fontSize: '14px',
+                        fontWeight: '500'
+                      }}
+                    >
+                      {lookupResult.barcode
+                        ? '➕ Add this product as a custom food'
+                        : `➕ Add "${lookupResult.name}" as a custom food`}
+                    </button>
+                  )}
                 </div>
               )}
             </div>
           )}
+
+          {/* Other matches for a manual lookup */}
+          {searchResults && searchResults.foods.length > 1 && (
+            <SearchResultsList
+              term={searchResults.term}
+              foods={searchResults.foods}
+              total={searchResults.total}
+              hasMore={searchResults.nextCursor !== null}
+              isLoadingMore={isLoadingMoreResults}
+              selectedName={lookupResult?.name}
+              onSelect={handleFoodSelection}
+              onLoadMore={handleLoadMoreResults}
+            />
+          )}
         </div>
 
         <div style={{ marginTop: '15px', fontSize: '14px', color: '#6c757d' }}>
-          <strong>📝 Note:</strong> Enter any portion size in grams. All nutritional values are automatically calculated based on your custom portion size.
+          <strong>📝 Note:</strong> Enter any portion size in grams, or in a household unit such as a slice or cup when the food defines one. All nutritional values are automatically calculated based on your custom portion size.
         </div>
       </section>
 
+      {/* Recipes */}
+      <RecipeManager onError={handleApiError} onLogServing={handleLogRecipeServing} />
+
       {/* Food Log Component */}
-      <FoodLog ref={foodLogRef} />
+      <FoodLog
+        ref={foodLogRef}
+        onError={handleApiError}
+        goals={dailyGoals}
+        onSaveGoals={handleSaveGoals}
+      />
+
+      {/* Export and import */}
+      <DataExportPanel onError={handleApiError} onImported={handleHistoryImported} />
+      <HistoryImportPanel weightUnit={weightUnit} onError={handleApiError} onImported={handleHistoryImported} />
     </main>
   );
 }
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { useApiClient } from "../hooks/useApiClient";
+import { Food } from "../services/apiClient";
+import { normalizeBarcode } from "../utils/barcode";
+
+interface BarcodeEntryProps {
+  onFound: (food: Food) => void;
+  onNotFound: (barcode: string) => void;
+  onError?: (error: unknown) => void;
+  disabled?: boolean;
+}
+
+const BarcodeEntry: React.FC<BarcodeEntryProps> = ({ onFound, onNotFound, onError, disabled = false }) => {
+  const apiClient = useApiClient();
+  const [code, setCode] = useState('');
+  const [isLookingUp, setIsLookingUp] = useState(false);
+
+  const barcode = normalizeBarcode(code);
+  const showInvalid = code.trim() !== '' && !barcode;
+  const canLookup = !!barcode && !isLookingUp && !disabled;
+
+  const handleLookup = async () => {
+    if (!barcode || !canLookup) return;
+
+    try {
+      setIsLookingUp(true);
+      const food = await apiClient.lookupBarcode(barcode);
+      if (food) {
+        onFound(food);
+        setCode('');
+      } else {
+        onNotFound(barcode);
+      }
+    } catch (error) {
+      onError?.(error);
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  return (
+    <div style={{ display: 'flex', gap: '10px', alignItems: 'center', marginBottom: '15px', flexWrap: 'wrap' }}>
+      <label htmlFor="barcode-entry" style={{ fontSize: '14px', color: '#6c757d', whiteSpace: 'nowrap' }}>
+        📦 Or enter a barcode:
+      </label>
+      <input
+        id="barcode-entry"
+        type="text"
+        inputMode="numeric"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            handleLookup();
+          }
+        }}
+        placeholder="UPC or EAN, e.g. 036000291452"
+        disabled={disabled}
+        style={{
+          flex: 1,
+          minWidth: '200px',
+          padding: '10px',
+          fontSize: '16px',
+          border: `1px solid ${showInvalid ? '#dc3545' : '#ced4da'}`,
+          borderRadius: '4px'
+        }}
+      />
+      <button
+        onClick={handleLookup}
+        disabled={!canLookup}
+        style={{
+          padding: '10px 16px',
+          backgroundColor: canLookup ? '#17a2b8' : '#95a5a6',
+          color: 'white',
+          border: 'none',
+          borderRadius: '4px',
+          cursor: canLookup ? 'pointer' : 'not-allowed',
+          fontSize: '14px',
+          fontWeight: 'bold',
+          whiteSpace: 'nowrap'
+        }}
+      >
+        {isLookingUp ? '⏳ Looking up...' : '🔎 Find Barcode'}
+      </button>
+      {showInvalid && (
+        <div style={{ width: '100%', fontSize: '12px', color: '#dc3545' }}>
+          Barcodes are 8, 12, 13 or 14 digits with a valid check digit.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BarcodeEntry;
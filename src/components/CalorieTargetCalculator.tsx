@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { DailyGoals } from "../services/apiClient";
+import {
+  ACTIVITY_LEVELS,
+  ActivityLevel,
+  GOAL_PRESETS,
+  GoalPreset,
+  Sex,
+  calculateBmr,
+  calculateMacroTargets,
+  calculateTdee
+} from "../utils/energy";
+
+interface CalorieTargetCalculatorProps {
+  weightKg: number;
+  weightUnit: 'kg' | 'lbs';
+  onApplyTargets?: (targets: DailyGoals) => Promise<boolean>;
+}
+
+const CM_PER_INCH = 2.54;
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px 10px',
+  fontSize: '14px',
+  border: '1px solid #ffeaa7',
+  borderRadius: '4px',
+  boxSizing: 'border-box'
+};
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  fontSize: '12px',
+  color: '#856404',
+  marginBottom: '4px',
+  fontWeight: '500'
+};
+
+const CalorieTargetCalculator: React.FC<CalorieTargetCalculatorProps> = ({ weightKg, weightUnit, onApplyTargets }) => {
+  const [heightCm, setHeightCm] = useState('');
+  const [heightFeet, setHeightFeet] = useState('');
+  const [heightInches, setHeightInches] = useState('');
+  const [age, setAge] = useState('');
+  const [sex, setSex] = useState<Sex>('female');
+  const [activityLevel, setActivityLevel] = useState<ActivityLevel>('moderate');
+  const [bodyFat, setBodyFat] = useState('');
+  const [goal, setGoal] = useState<GoalPreset>('maintain');
+  const [applyStatus, setApplyStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
+
+  // Height is entered in ft/in alongside lbs and in cm alongside kg
+  const getHeightCm = (): number => {
+    if (weightUnit === 'kg') return parseFloat(heightCm);
+    const feet = parseFloat(heightFeet) || 0;
+    const inches = parseFloat(heightInches) || 0;
+    return (feet * 12 + inches) * CM_PER_INCH;
+  };
+
+  const height = getHeightCm();
+  const ageNum = parseInt(age, 10);
+  const bodyFatNum = parseFloat(bodyFat);
+  const hasRequiredInputs = height > 0 && ageNum > 0 && ageNum < 120;
+
+  const energy = hasRequiredInputs
+    ? (() => {
+        const { bmr, formula } = calculateBmr({
+          weightKg,
+          heightCm: height,
+          age: ageNum,
+          sex,
+          bodyFatPercent: isNaN(bodyFatNum) ? undefined : bodyFatNum
+        });
+        const tdee = calculateTdee(bmr, activityLevel);
+        return { bmr, formula, tdee, targets: calculateMacroTargets(tdee, weightKg, goal) };
+      })()
+    : null;
+
+  const handleApplyTargets = async () => {
+    if (!energy || !onApplyTargets) return;
+
+    setApplyStatus('saving');
+    const saved = await onApplyTargets(energy.targets);
+    setApplyStatus(saved ? 'saved' : 'idle');
+  };
+
+  return (
+    <div style={{
+      marginTop: '20px',
+      padding: '15px',
+      backgroundColor: 'white',
+      borderRadius: '6px',
+      border: '1px solid #ffeaa7'
+    }}>
+      <h4 style={{ margin: '0 0 12px 0', color: '#856404', fontSize: '16px' }}>
+        🔥 Calorie Target Calculator
+      </h4>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(140px, 1fr))', gap: '12px', marginBottom: '15px' }}>
+        {weightUnit === 'kg' ? (
+          <div>
+            <label style={labelStyle}>Height (cm)</label>
+            <input type="number" min="50" max="250" value={heightCm} onChange={(e) => setHeightCm(e.target.value)} style={inputStyle} />
+          </div>
+        ) : (
+          <div>
+            <label style={labelStyle}>Height (ft / in)</label>
+            <div style={{ display: 'flex', gap: '6px' }}>
+              <input type="number" min="3" max="8" value={heightFeet} onChange={(e) => setHeightFeet(e.target.value)} style={inputStyle} placeholder="ft" />
+              <input type="number" min="0" max="11" value={heightInches} onChange={(e) => setHeightInches(e.target.value)} style={inputStyle} placeholder="in" />
+            </div>
+          </div>
+        )}
+
+        <div>
+          <label style={labelStyle}>Age</label>
+          <input type="number" min="13" max="119" value={age} onChange={(e) => setAge(e.target.value)} style={inputStyle} />
+        </div>
+
+        <div>
+          <label style={labelStyle}>Sex</label>
+          <select value={sex} onChange={(e) => setSex(e.target.value as Sex)} style={inputStyle}>
+            <option value="female">Female</option>
+            <option value="male">Male</option>
+          </select>
+        </div>
+
+        <div>
+          <label style={labelStyle}>Activity level</label>
+          <select value={activityLevel} onChange={(e) => setActivityLevel(e.target.value as ActivityLevel)} style={inputStyle}>
+            {ACTIVITY_LEVELS.map(option => (
+              <option key={option.value} value={option.value} title={option.description}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label style={labelStyle}>Body fat % (optional)</label>
+          <input type="number" min="3" max="60" value={bodyFat} onChange={(e) => setBodyFat(e.target.value)} style={inputStyle} />
+        </div>
+      </div>
+
+      {/* Goal Presets */}
+      <div style={{ display: 'flex', gap: '8px', marginBottom: '15px', flexWrap: 'wrap' }}>
+        {GOAL_PRESETS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => setGoal(option.value)}
+            style={{
+              padding: '8px 14px',
+              backgroundColor: goal === option.value ? '#856404' : '#f5f5f5',
+              color: goal === option.value ? 'white' : '#666',
+              border: '1px solid #ddd',
+              borderRadius: '6px',
+              cursor: 'pointer',
+              fontSize: '14px',
+              fontWeight: '500'
+            }}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {energy ? (
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(120px, 1fr))', gap: '10px', textAlign: 'center' }}>
+          <div>
+            <div style={{ fontSize: '20px', fontWeight: 'bold', color: '#495057' }}>{Math.round(energy.bmr)}</div>
+            <div style={{ fontSize: '12px', color: '#6c757d' }}>
+              BMR ({energy.formula === 'katch-mcardle' ? 'Katch-McArdle' : 'Mifflin-St Jeor'})
+            </div>
+          </div>
+          <div>
+            <div style={{ fontSize: '20px', fontWeight: 'bold', color: '#495057' }}>{Math.round(energy.tdee)}</div>
+            <div style={{ fontSize: '12px', color: '#6c757d' }}>TDEE</div>
+          </div>
+          <div>
+            <div style={{ fontSize: '20px', fontWeight: 'bold', color: '#155724' }}>{energy.targets.calories}</div>
+            <div style={{ fontSize: '12px', color: '#6c757d' }}>Daily target (cal)</div>
+          </div>
+          <div>
+            <div style={{ fontSize: '20px', fontWeight: 'bold', color: '#d63384' }}>{energy.targets.protein}g</div>
+            <div style={{ fontSize: '12px', color: '#6c757d' }}>Protein</div>
+          </div>
+          <div>
+            <div style={{ fontSize: '20px', fontWeight: 'bold', color: '#fd7e14' }}>{energy.targets.carbs}g</div>
+            <div style={{ fontSize: '12px', color: '#6c757d' }}>Carbs</div>
+          </div>
+          <div>
+            <div style={{ fontSize: '20px', fontWeight: 'bold', color: '#198754' }}>{energy.targets.fat}g</div>
+            <div style={{ fontSize: '12px', color: '#6c757d' }}>Fat</div>
+          </div>
+          {onApplyTargets && (
+            <div style={{ gridColumn: '1 / -1', marginTop: '5px' }}>
+              <button
+                onClick={handleApplyTargets}
+                disabled={applyStatus === 'saving'}
+                style={{
+                  backgroundColor: '#856404',
+                  color: 'white',
+                  border: 'none',
+                  padding: '10px 18px',
+                  borderRadius: '6px',
+                  cursor: applyStatus === 'saving' ? 'not-allowed' : 'pointer',
+                  fontSize: '14px',
+                  fontWeight: '500'
+                }}
+              >
+                {applyStatus === 'saving' ? '⏳ Saving...' : applyStatus === 'saved' ? '✅ Saved as Daily Goals' : '🎯 Use as Daily Goals'}
+              </button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div style={{ fontSize: '14px', color: '#6c757d', fontStyle: 'italic' }}>
+          Enter your height and age to calculate your BMR, TDEE and daily targets.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalorieTargetCalculator;
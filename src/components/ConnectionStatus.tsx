@@ -0,0 +1,51 @@
+import { useSyncStatus } from '../hooks/useSyncStatus';
+
+const ConnectionStatus: React.FC = () => {
+  const { isOnline, isSyncing, pendingCount, syncNow } = useSyncStatus();
+
+  const pendingLabel = `${pendingCount} change${pendingCount === 1 ? '' : 's'}`;
+  const badge = !isOnline
+    ? { text: pendingCount > 0 ? `🔴 Offline · ${pendingLabel} to sync` : '🔴 Offline', color: '#721c24', background: '#f8d7da' }
+    : isSyncing
+      ? { text: `🔄 Syncing ${pendingLabel}...`, color: '#004085', background: '#cce5ff' }
+      : pendingCount > 0
+        ? { text: `🟡 ${pendingLabel} to sync`, color: '#856404', background: '#fff3cd' }
+        : { text: '🟢 Online', color: '#155724', background: '#e8f5e8' };
+
+  // Changes can be stuck while online, e.g. after a server error, so offer a manual retry
+  const canRetry = isOnline && !isSyncing && pendingCount > 0;
+
+  return (
+    <div style={{
+      backgroundColor: badge.background,
+      padding: '8px 12px',
+      borderRadius: '20px',
+      fontSize: '12px',
+      color: badge.color,
+      fontWeight: '500',
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px'
+    }}>
+      {badge.text}
+      {canRetry && (
+        <button
+          onClick={syncNow}
+          style={{
+            padding: '2px 8px',
+            fontSize: '12px',
+            backgroundColor: 'white',
+            color: badge.color,
+            border: `1px solid ${badge.color}`,
+            borderRadius: '10px',
+            cursor: 'pointer'
+          }}
+        >
+          Sync now
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ConnectionStatus;
@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { useApiClient } from "../hooks/useApiClient";
+import { Food } from "../services/apiClient";
+import { GRAM_UNIT } from "../utils/servings";
+
+interface CustomFoodFormProps {
+  initialName?: string;
+  barcode?: string; // saved with the food so the next scan finds it
+  onCreated: (food: Food) => void;
+  onCancel: () => void;
+  onError?: (error: unknown) => void;
+}
+
+type NutritionBasis = 'per100g' | 'perServing';
+
+const NUTRIENT_FIELDS = [
+  { key: 'calories', label: 'Calories', color: '#155724' },
+  { key: 'protein', label: 'Protein (g)', color: '#d63384' },
+  { key: 'carbs', label: 'Carbs (g)', color: '#fd7e14' },
+  { key: 'fat', label: 'Fat (g)', color: '#198754' }
+] as const;
+
+type NutrientKey = typeof NUTRIENT_FIELDS[number]['key'];
+
+const inputStyle: React.CSSProperties = {
+  display: 'block',
+  width: '100%',
+  marginTop: '4px',
+  padding: '8px 10px',
+  fontSize: '14px',
+  border: '1px solid #ced4da',
+  borderRadius: '4px',
+  boxSizing: 'border-box'
+};
+
+const CustomFoodForm: React.FC<CustomFoodFormProps> = ({ initialName = '', barcode, onCreated, onCancel, onError }) => {
+  const apiClient = useApiClient();
+  const [name, setName] = useState(initialName);
+  const [basis, setBasis] = useState<NutritionBasis>('per100g');
+  const [servingGrams, setServingGrams] = useState('');
+  const [servingLabel, setServingLabel] = useState('serving');
+  const [values, setValues] = useState<Record<NutrientKey, string>>({ calories: '', protein: '', carbs: '', fat: '' });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const servingSize = Number(servingGrams);
+  const trimmedLabel = servingLabel.trim();
+  const hasValidServing = basis === 'per100g'
+    || (servingGrams !== '' && servingSize > 0 && trimmedLabel !== '' && trimmedLabel !== GRAM_UNIT);
+  const hasValidValues = NUTRIENT_FIELDS.every(({ key }) => values[key] !== '' && Number(values[key]) >= 0);
+
+  // Convert the entered values to the per-100g basis the food database uses
+  const getPer100g = (key: NutrientKey): number => {
+    const value = Number(values[key]) || 0;
+    const scaled = basis === 'per100g' ? value : (value / servingSize) * 100;
+    return Math.round(scaled * 10) / 10;
+  };
+
+  const per100g = {
+    calories: Math.round(getPer100g('calories')),
+    protein: getPer100g('protein'),
+    carbs: getPer100g('carbs'),
+    fat: getPer100g('fat')
+  };
+  const macroTotal = per100g.protein + per100g.carbs + per100g.fat;
+  const exceedsWeight = hasValidServing && macroTotal > 100;
+  const canSave = name.trim() !== '' && hasValidServing && hasValidValues && !exceedsWeight && !isSaving;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+
+    try {
+      setIsSaving(true);
+      // A per-serving entry also becomes a household unit for the food
+      const servings = basis === 'perServing' ? [{ label: trimmedLabel, grams: servingSize }] : [];
+      const food = await apiClient.createCustomFood({ name: name.trim(), ...per100g, servings, barcode });
+      onCreated(food);
+    } catch (error) {
+      onError?.(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div style={{
+      marginTop: '15px',
+      padding: '15px',
+      backgroundColor: 'white',
+      borderRadius: '6px',
+      border: '1px solid #f5c6cb'
+    }}>
+      <h4 style={{ margin: '0 0 12px 0', color: '#495057', fontSize: '16px' }}>
+        ➕ Create a Custom Food
+      </h4>
+
+      {barcode && (
+        <div style={{ fontSize: '13px', color: '#6c757d', marginBottom: '10px' }}>
+          📦 Barcode {barcode} will be saved with this food.
+        </div>
+      )}
+
+      <label style={{ fontSize: '12px', color: '#495057', fontWeight: '500' }}>
+        Food name
+        <input type="text" value={name} onChange={(e) => setName(e.target.value)} maxLength={255} style={inputStyle} />
+      </label>
+
+      {/* Nutrition Basis */}
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'center', margin: '12px 0', flexWrap: 'wrap' }}>
+        {(['per100g', 'perServing'] as NutritionBasis[]).map(option => (
+          <button
+            key={option}
+            onClick={() => setBasis(option)}
+            style={{
+              padding: '8px 14px',
+              backgroundColor: basis === option ? '#1976d2' : '#f5f5f5',
+              color: basis === option ? 'white' : '#666',
+              border: '1px solid #ddd',
+              borderRadius: '6px',
+              cursor: 'pointer',
+              fontSize: '14px'
+            }}
+          >
+            {option === 'per100g' ? 'Per 100g' : 'Per serving'}
+          </button>
+        ))}
+        {basis === 'perServing' && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '14px', color: '#495057' }}>
+            1
+            <input
+              type="text"
+              value={servingLabel}
+              onChange={(e) => setServingLabel(e.target.value)}
+              maxLength={50}
+              placeholder="slice, cup..."
+              style={{ ...inputStyle, display: 'inline-block', width: '100px', marginTop: 0 }}
+              aria-label="Serving name"
+            />
+            =
+            <input
+              type="number"
+              min="1"
+              value={servingGrams}
+              onChange={(e) => setServingGrams(e.target.value)}
+              style={{ ...inputStyle, display: 'inline-block', width: '80px', marginTop: 0 }}
+              aria-label="Serving size in grams"
+            />
+            g
+          </div>
+        )}
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(120px, 1fr))', gap: '10px' }}>
+        {NUTRIENT_FIELDS.map(({ key, label, color }) => (
+          <label key={key} style={{ fontSize: '12px', color, fontWeight: '500' }}>
+            {label}
+            <input
+              type="number"
+              min="0"
+              value={values[key]}
+              onChange={(e) => setValues(prev => ({ ...prev, [key]: e.target.value }))}
+              style={inputStyle}
+            />
+          </label>
+        ))}
+      </div>
+
+      {basis === 'perServing' && hasValidServing && hasValidValues && (
+        <div style={{ marginTop: '10px', fontSize: '13px', color: '#6c757d' }}>
+          Per 100g: {per100g.calories} cal • {per100g.protein}g protein • {per100g.carbs}g carbs • {per100g.fat}g fat
+        </div>
+      )}
+
+      {exceedsWeight && (
+        <div style={{ marginTop: '10px', fontSize: '13px', color: '#dc3545' }}>
+          ⚠️ Protein, carbs and fat add up to more than 100g per 100g. Please check the values.
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end', marginTop: '15px' }}>
+        <button
+          onClick={onCancel}
+          disabled={isSaving}
+          style={{
+            backgroundColor: '#f5f5f5',
+            color: '#666',
+            border: '1px solid #ddd',
+            padding: '8px 14px',
+            borderRadius: '4px',
+            cursor: 'pointer',
+            fontSize: '14px'
+          }}
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={!canSave}
+          style={{
+            backgroundColor: canSave ? '#28a745' : '#95a5a6',
+            color: 'white',
+            border: 'none',
+            padding: '8px 14px',
+            borderRadius: '4px',
+            cursor: canSave ? 'pointer' : 'not-allowed',
+            fontSize: '14px',
+            fontWeight: '500'
+          }}
+        >
+          {isSaving ? '⏳ Saving...' : '💾 Save Food'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CustomFoodForm;
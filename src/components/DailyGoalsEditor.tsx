@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { DailyGoals } from "../services/apiClient";
+
+interface DailyGoalsEditorProps {
+  goals: DailyGoals | null;
+  onSave: (goals: DailyGoals) => Promise<void>;
+  onCancel: () => void;
+}
+
+const FIELDS: { key: keyof DailyGoals; label: string }[] = [
+  { key: 'calories', label: 'Calories' },
+  { key: 'protein', label: 'Protein (g)' },
+  { key: 'carbs', label: 'Carbs (g)' },
+  { key: 'fat', label: 'Fat (g)' }
+];
+
+const DailyGoalsEditor: React.FC<DailyGoalsEditorProps> = ({ goals, onSave, onCancel }) => {
+  const [values, setValues] = useState<Record<keyof DailyGoals, string>>({
+    calories: goals ? String(goals.calories) : '',
+    protein: goals ? String(goals.protein) : '',
+    carbs: goals ? String(goals.carbs) : '',
+    fat: goals ? String(goals.fat) : ''
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const parsed = FIELDS.map(({ key }) => Number(values[key]));
+  const isValid = FIELDS.every(({ key }, index) => values[key] !== '' && !isNaN(parsed[index]) && parsed[index] >= 0);
+
+  const handleSave = async () => {
+    if (!isValid) return;
+
+    setIsSaving(true);
+    await onSave({
+      calories: Math.round(parsed[0]),
+      protein: parsed[1],
+      carbs: parsed[2],
+      fat: parsed[3]
+    });
+    setIsSaving(false);
+  };
+
+  return (
+    <div style={{
+      backgroundColor: 'white',
+      padding: '15px',
+      borderRadius: '6px',
+      border: '1px solid #ffeaa7',
+      marginBottom: '20px'
+    }}>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(120px, 1fr))', gap: '10px', marginBottom: '12px' }}>
+        {FIELDS.map(({ key, label }) => (
+          <label key={key} style={{ fontSize: '12px', color: '#856404', fontWeight: '500' }}>
+            {label}
+            <input
+              type="number"
+              min="0"
+              value={values[key]}
+              onChange={(e) => setValues(prev => ({ ...prev, [key]: e.target.value }))}
+              style={{
+                display: 'block',
+                width: '100%',
+                marginTop: '4px',
+                padding: '8px 10px',
+                fontSize: '14px',
+                border: '1px solid #ffeaa7',
+                borderRadius: '4px',
+                boxSizing: 'border-box'
+              }}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end' }}>
+        <button
+          onClick={onCancel}
+          disabled={isSaving}
+          style={{
+            backgroundColor: '#f5f5f5',
+            color: '#666',
+            border: '1px solid #ddd',
+            padding: '8px 14px',
+            borderRadius: '4px',
+            cursor: 'pointer',
+            fontSize: '14px'
+          }}
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !isValid}
+          style={{
+            backgroundColor: isSaving || !isValid ? '#95a5a6' : '#856404',
+            color: 'white',
+            border: 'none',
+            padding: '8px 14px',
+            borderRadius: '4px',
+            cursor: isSaving || !isValid ? 'not-allowed' : 'pointer',
+            fontSize: '14px',
+            fontWeight: '500'
+          }}
+        >
+          {isSaving ? '⏳ Saving...' : '💾 Save Goals'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DailyGoalsEditor;
@@ -0,0 +1,174 @@
+import { useRef, useState } from "react";
+import { useApiClient } from "../hooks/useApiClient";
+import {
+  MAX_EXPORT_DAYS,
+  buildArchive,
+  countRangeDays,
+  downloadTextFile,
+  getExportFilename,
+  parseArchive,
+  toFoodLogCsv
+} from "../utils/dataExport";
+import { addDays, getTodayDateString } from "../utils/dates";
+
+interface DataExportPanelProps {
+  onError?: (error: unknown) => void;
+  onImported?: () => void;
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '8px 10px',
+  fontSize: '14px',
+  border: '1px solid #ced4da',
+  borderRadius: '4px'
+};
+
+const buttonStyle = (backgroundColor: string, enabled = true): React.CSSProperties => ({
+  backgroundColor: enabled ? backgroundColor : '#95a5a6',
+  color: 'white',
+  border: 'none',
+  padding: '8px 14px',
+  borderRadius: '4px',
+  cursor: enabled ? 'pointer' : 'not-allowed',
+  fontSize: '14px',
+  fontWeight: '500'
+});
+
+const DataExportPanel: React.FC<DataExportPanelProps> = ({ onError, onImported }) => {
+  const apiClient = useApiClient();
+  const [from, setFrom] = useState(() => addDays(getTodayDateString(), -29));
+  const [to, setTo] = useState(getTodayDateString);
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const rangeDays = countRangeDays(from, to);
+  const isRangeValid = !!from && !!to && rangeDays > 0 && rangeDays <= MAX_EXPORT_DAYS;
+  const canExport = isRangeValid && !isBusy;
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    if (!canExport) return;
+
+    try {
+      setIsBusy(true);
+      setMessage(null);
+      const [foodLogs, weights] = await Promise.all([
+        apiClient.getFoodLogsInRange(from, to),
+        format === 'json' ? apiClient.getWeightEntries(from, to) : Promise.resolve([])
+      ]);
+
+      if (format === 'csv') {
+        downloadTextFile(getExportFilename(from, to, 'csv'), toFoodLogCsv(foodLogs), 'text/csv');
+        setMessage(`Exported ${foodLogs.length} food log entries.`);
+      } else {
+        const archive = buildArchive(from, to, foodLogs, weights.filter(entry => !entry.pendingSync));
+        downloadTextFile(getExportFilename(from, to, 'json'), JSON.stringify(archive, null, 2), 'application/json');
+        setMessage(`Exported ${archive.foodLogs.length} food log entries and ${archive.weights.length} weigh-ins.`);
+      }
+    } catch (error) {
+      onError?.(error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImportFile = async (file: File) => {
+    try {
+      setIsBusy(true);
+      setMessage(null);
+      const archive = parseArchive(await file.text());
+
+      const logs = archive.foodLogs.length > 0
+        ? await apiClient.importFoodLogs(archive.foodLogs)
+        : { imported: 0, skipped: 0 };
+      const weighIns = archive.weights.length > 0 ? await apiClient.importWeightEntries(archive.weights) : 0;
+
+      setMessage(
+        `Imported ${logs.imported} food log entries` +
+        (logs.skipped > 0 ? ` (${logs.skipped} already in your log)` : '') +
+        ` and ${weighIns} weigh-ins.`
+      );
+      onImported?.();
+    } catch (error) {
+      if (error instanceof Error) {
+        setMessage(`⚠️ ${error.message}`);
+      } else {
+        onError?.(error);
+      }
+    } finally {
+      setIsBusy(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  return (
+    <section style={{
+      padding: '25px',
+      backgroundColor: '#f8f9fa',
+      borderRadius: '10px',
+      border: '1px solid #dee2e6',
+      marginBottom: '30px'
+    }}>
+      <h2 style={{ color: '#495057', marginTop: 0, marginBottom: '15px' }}>
+        💾 Export & Import
+      </h2>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '10px', alignItems: 'center', marginBottom: '12px' }}>
+        <label style={{ fontSize: '14px', color: '#6c757d' }}>
+          From{' '}
+          <input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} style={inputStyle} />
+        </label>
+        <label style={{ fontSize: '14px', color: '#6c757d' }}>
+          To{' '}
+          <input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} style={inputStyle} />
+        </label>
+        <button onClick={() => handleExport('csv')} disabled={!canExport} style={buttonStyle('#28a745', canExport)}>
+          📄 Export CSV
+        </button>
+        <button onClick={() => handleExport('json')} disabled={!canExport} style={buttonStyle('#007bff', canExport)}>
+          🗄️ Export JSON
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isBusy}
+          style={buttonStyle('#6c757d', !isBusy)}
+        >
+          📥 Import JSON
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) {
+              handleImportFile(file);
+            }
+          }}
+          style={{ display: 'none' }}
+        />
+      </div>
+
+      {!isRangeValid && (
+        <div style={{ fontSize: '12px', color: '#dc3545', marginBottom: '8px' }}>
+          Choose a range of up to {MAX_EXPORT_DAYS} days with the start on or before the end.
+        </div>
+      )}
+
+      <div style={{ fontSize: '12px', color: '#6c757d' }}>
+        CSV has one row per logged food for spreadsheets. JSON keeps everything, including weigh-ins,
+        and can be imported back; entries already in your log are skipped.
+      </div>
+
+      {(isBusy || message) && (
+        <div style={{ marginTop: '10px', fontSize: '14px', color: '#495057' }}>
+          {isBusy ? '⏳ Working...' : message}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default DataExportPanel;
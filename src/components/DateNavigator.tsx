@@ -0,0 +1,123 @@
+import { DailyLogSummary } from "../services/apiClient";
+import { addDays, formatDisplayDate, getTodayDateString, parseLocalDate } from "../utils/dates";
+
+interface DateNavigatorProps {
+  selectedDate: string; // YYYY-MM-DD
+  onDateChange: (date: string) => void;
+  history: DailyLogSummary[];
+  historyDays?: number;
+}
+
+const navButtonStyle = (disabled: boolean): React.CSSProperties => ({
+  backgroundColor: disabled ? '#f5f5f5' : 'white',
+  color: disabled ? '#adb5bd' : '#856404',
+  border: '1px solid #ffeaa7',
+  padding: '8px 12px',
+  borderRadius: '4px',
+  cursor: disabled ? 'not-allowed' : 'pointer',
+  fontSize: '14px',
+  fontWeight: '500'
+});
+
+const DateNavigator: React.FC<DateNavigatorProps> = ({
+  selectedDate,
+  onDateChange,
+  history,
+  historyDays = 7
+}) => {
+  const today = getTodayDateString();
+  const isToday = selectedDate === today;
+
+  // Days shown in the history strip, oldest first, ending on the selected day
+  const historyDates = Array.from({ length: historyDays }, (_, index) =>
+    addDays(selectedDate, index - (historyDays - 1))
+  );
+  const summaryByDate = new Map(history.map(summary => [summary.date, summary]));
+
+  return (
+    <div style={{ marginBottom: '20px' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '10px', flexWrap: 'wrap', marginBottom: '12px' }}>
+        <button
+          onClick={() => onDateChange(addDays(selectedDate, -1))}
+          style={navButtonStyle(false)}
+          title="Previous day"
+        >
+          ◀
+        </button>
+
+        <div style={{ fontSize: '18px', fontWeight: 'bold', color: '#856404', minWidth: '170px', textAlign: 'center' }}>
+          {formatDisplayDate(selectedDate)}
+        </div>
+
+        <button
+          onClick={() => onDateChange(addDays(selectedDate, 1))}
+          disabled={isToday}
+          style={navButtonStyle(isToday)}
+          title="Next day"
+        >
+          ▶
+        </button>
+
+        <button
+          onClick={() => onDateChange(today)}
+          disabled={isToday}
+          style={navButtonStyle(isToday)}
+        >
+          Today
+        </button>
+
+        <input
+          type="date"
+          value={selectedDate}
+          max={today}
+          onChange={(e) => {
+            if (e.target.value) {
+              onDateChange(e.target.value);
+            }
+          }}
+          style={{
+            padding: '7px 10px',
+            fontSize: '14px',
+            border: '1px solid #ffeaa7',
+            borderRadius: '4px',
+            color: '#495057'
+          }}
+        />
+      </div>
+
+      {/* Recent history strip */}
+      <div style={{ display: 'grid', gridTemplateColumns: `repeat(${historyDays}, 1fr)`, gap: '6px' }}>
+        {historyDates.map(date => {
+          const summary = summaryByDate.get(date);
+          const isSelected = date === selectedDate;
+
+          return (
+            <button
+              key={date}
+              onClick={() => onDateChange(date)}
+              style={{
+                backgroundColor: isSelected ? '#856404' : 'white',
+                color: isSelected ? 'white' : '#495057',
+                border: '1px solid #ffeaa7',
+                borderRadius: '4px',
+                padding: '6px 4px',
+                cursor: 'pointer',
+                fontSize: '12px'
+              }}
+              title={summary ? `${summary.entryCount} entries` : 'Nothing logged'}
+            >
+              <div style={{ fontWeight: '500' }}>
+                {parseLocalDate(date).toLocaleDateString(undefined, { weekday: 'short' })}
+              </div>
+              <div style={{ opacity: 0.8 }}>
+                {summary ? `${summary.calories} cal` : '—'}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default DateNavigator;
@@ -1,79 +1,235 @@
-import { useState, useImperativeHandle, forwardRef } from "react";
-
-// Interface for logged food items
-interface LoggedFood {
-  id: string;
-  name: string;
-  calories: number;
-  protein: number;
-  carbs: number;
-  fat: number;
-  portionSize: number; // grams
-  timestamp: Date;
-}
+import { useState, useEffect, useImperativeHandle, forwardRef } from "react";
+import { useApiClient } from "../hooks/useApiClient";
+import { useLatest } from "../hooks/useLatest";
+import { useSyncStatus } from "../hooks/useSyncStatus";
+import { DailyGoals, DailyLogSummary, FoodLogEntry, FoodLogInput, MealType, Micronutrients } from "../services/apiClient";
+import { addDays, atCurrentTime, formatDisplayDate, getTodayDateString } from "../utils/dates";
+import { MEAL_OPTIONS, getMealForTime } from "../utils/meals";
+import { scaleMicronutrients, sumMicronutrients } from "../utils/micronutrients";
+import { scaleNutrition, sumNutrition } from "../utils/nutrition";
+import DailyGoalsEditor from "./DailyGoalsEditor";
+import DateNavigator from "./DateNavigator";
+import FoodLogItem, { FoodLogItemChanges, LoggedFood } from "./FoodLogItem";
+import GoalProgress from "./GoalProgress";
+import MicronutrientPanel from "./MicronutrientPanel";
 
 // Interface for the component props
 interface FoodLogProps {
   className?: string;
   style?: React.CSSProperties;
+  onError?: (error: unknown) => void;
+  goals?: DailyGoals | null;
+  onSaveGoals?: (goals: DailyGoals) => Promise<boolean>;
 }
 
 // Interface for the ref methods that parent can call
 export interface FoodLogRef {
-  addFood: (name: string, calories: number, protein: number, carbs: number, fat: number, portionSize?: number) => void;
+  reload: () => void;
+  addFood: (name: string, calories: number, protein: number, carbs: number, fat: number, portionSize?: number, meal?: MealType, serving?: LoggedServing, micronutrients?: Micronutrients, source?: LogSource) => Promise<void>;
+}
+
+// The food or recipe an entry is logged from, so it can be offered again as a recent food
+export type LogSource = Pick<FoodLogInput, 'foodId' | 'recipeId'>;
+
+// The household unit a portion was entered in, e.g. 2 x "slice"
+export interface LoggedServing {
+  unit: string;
+  quantity: number;
 }
 
-const FoodLog = forwardRef<FoodLogRef, FoodLogProps>(({ className, style }, ref) => {
+// Convert a server log entry into the shape rendered by the log
+const toLoggedFood = (entry: FoodLogEntry): LoggedFood => ({
+  id: entry.id,
+  name: entry.name,
+  calories: entry.calories,
+  protein: entry.protein,
+  carbs: entry.carbs,
+  fat: entry.fat,
+  portionSize: entry.portionSize,
+  servingUnit: entry.servingUnit,
+  servingQuantity: entry.servingQuantity,
+  meal: entry.meal,
+  logDate: entry.logDate,
+  timestamp: new Date(entry.loggedAt),
+  per100g: {
+    calories: entry.caloriesPer100g,
+    protein: entry.proteinPer100g,
+    carbs: entry.carbsPer100g,
+    fat: entry.fatPer100g
+  },
+  micronutrientsPer100g: entry.micronutrientsPer100g,
+  pendingSync: entry.pendingSync
+});
+
+const HISTORY_DAYS = 7;
+
+const FoodLog = forwardRef<FoodLogRef, FoodLogProps>(({ className, style, onError, goals, onSaveGoals }, ref) => {
+  const apiClient = useApiClient();
   // State for food log
+  const [selectedDate, setSelectedDate] = useState<string>(getTodayDateString());
   const [foodLog, setFoodLog] = useState<LoggedFood[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [history, setHistory] = useState<DailyLogSummary[]>([]);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [isEditingGoals, setIsEditingGoals] = useState(false);
+  const [reloadVersion, setReloadVersion] = useState(0);
+  const { lastSyncedAt } = useSyncStatus();
+  const onErrorRef = useLatest(onError);
+
+  // Load the selected day's entries from the server, again after offline changes have synced
+  useEffect(() => {
+    let cancelled = false;
 
-  // Add food to log
-  const addToFoodLog = (name: string, calories: number, protein: number, carbs: number, fat: number, portionSize: number = 50) => {
-    const newLogEntry: LoggedFood = {
-      id: Date.now().toString(),
-      name,
-      calories: Math.round((calories / 100) * portionSize),
-      protein: Math.round(((protein / 100) * portionSize) * 10) / 10, // Round to 1 decimal
-      carbs: Math.round(((carbs / 100) * portionSize) * 10) / 10,
-      fat: Math.round(((fat / 100) * portionSize) * 10) / 10,
-      portionSize,
-      timestamp: new Date()
+    const loadFoodLog = async () => {
+      try {
+        setIsLoading(true);
+        const entries = await apiClient.getFoodLogs(selectedDate);
+        if (!cancelled) {
+          setFoodLog(entries.map(toLoggedFood));
+        }
+      } catch (error) {
+        if (!cancelled) {
+          onErrorRef.current?.(error);
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
     };
-    setFoodLog(prev => [newLogEntry, ...prev]); // Add to beginning of array
-  };
 
-  // Remove food from log
-  const removeFromFoodLog = (id: string) => {
-    setFoodLog(prev => prev.filter(item => item.id !== id));
-  };
+    loadFoodLog();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [apiClient, onErrorRef, selectedDate, lastSyncedAt, reloadVersion]);
+
+  // Load per-day totals for the history strip; reloaded whenever the log changes
+  useEffect(() => {
+    let cancelled = false;
+
+    apiClient.getFoodLogSummary(addDays(selectedDate, -(HISTORY_DAYS - 1)), selectedDate)
+      .then(summaries => {
+        if (!cancelled) {
+          setHistory(summaries);
+        }
+      })
+      .catch(error => {
+        console.error('Error loading food log history:', error);
+      });
 
-  // Clear entire food log
-  const clearFoodLog = () => {
-    setFoodLog([]);
+    return () => {
+      cancelled = true;
+    };
+  }, [apiClient, selectedDate, historyVersion, lastSyncedAt, reloadVersion]);
+
+  const refreshHistory = () => setHistoryVersion(version => version + 1);
+
+  // Add food to the log for the selected day
+  const addToFoodLog = async (name: string, calories: number, protein: number, carbs: number, fat: number, portionSize: number = 50, meal?: MealType, serving?: LoggedServing, micronutrients?: Micronutrients, source?: LogSource) => {
+    try {
+      const loggedAt = atCurrentTime(selectedDate);
+      const entry = await apiClient.createFoodLog({
+        name,
+        ...scaleNutrition({ calories, protein, carbs, fat }, portionSize),
+        portionSize,
+        servingUnit: serving?.unit,
+        servingQuantity: serving?.quantity,
+        caloriesPer100g: calories,
+        proteinPer100g: protein,
+        carbsPer100g: carbs,
+        fatPer100g: fat,
+        micronutrientsPer100g: micronutrients,
+        loggedAt: loggedAt.toISOString(),
+        logDate: selectedDate,
+        meal: meal || getMealForTime(loggedAt),
+        ...source
+      });
+      setFoodLog(prev => [toLoggedFood(entry), ...prev]); // Add to beginning of array
+      refreshHistory();
+    } catch (error) {
+      onError?.(error);
+    }
   };
 
-  // Calculate total calories for the day
-  const getTotalCalories = () => {
-    return foodLog.reduce((total, food) => total + food.calories, 0);
+  // Update an entry's portion, meal or time; calories and macros are rescaled from its per-100g basis
+  const updateFoodLogEntry = async (id: number, changes: FoodLogItemChanges): Promise<boolean> => {
+    const food = foodLog.find(item => item.id === id);
+    if (!food) return false;
+
+    try {
+      const entry = await apiClient.updateFoodLog(id, {
+        ...scaleNutrition(food.per100g, changes.portionSize),
+        portionSize: changes.portionSize,
+        servingQuantity: changes.servingQuantity,
+        meal: changes.meal,
+        loggedAt: changes.timestamp.toISOString()
+      });
+      setFoodLog(prev => prev.map(item => (item.id === id ? toLoggedFood(entry) : item)));
+      refreshHistory();
+      return true;
+    } catch (error) {
+      onError?.(error);
+      return false;
+    }
   };
 
-  // Calculate total protein for the day
-  const getTotalProtein = () => {
-    return Math.round(foodLog.reduce((total, food) => total + food.protein, 0) * 10) / 10;
+  // Remove food from log
+  const removeFromFoodLog = async (id: number) => {
+    try {
+      await apiClient.deleteFoodLog(id);
+      setFoodLog(prev => prev.filter(item => item.id !== id));
+      refreshHistory();
+    } catch (error) {
+      onError?.(error);
+    }
   };
 
-  // Calculate total carbs for the day
-  const getTotalCarbs = () => {
-    return Math.round(foodLog.reduce((total, food) => total + food.carbs, 0) * 10) / 10;
+  // Clear the selected day's log
+  // Delete every entry for the selected day. Deletes that fail leave their entries in the list.
+  const clearFoodLog = async () => {
+    if (!window.confirm(
+      `Delete all ${foodLog.length} ${foodLog.length === 1 ? 'entry' : 'entries'} for ${formatDisplayDate(selectedDate)}? This can't be undone.`
+    )) {
+      return;
+    }
+
+    const results = await Promise.allSettled(foodLog.map(item => apiClient.deleteFoodLog(item.id)));
+    const deletedIds = new Set(foodLog.filter((_, index) => results[index].status === 'fulfilled').map(item => item.id));
+    setFoodLog(prev => prev.filter(item => !deletedIds.has(item.id)));
+    refreshHistory();
+
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) {
+      onError?.(failure.reason);
+    }
   };
 
-  // Calculate total fat for the day
-  const getTotalFat = () => {
-    return Math.round(foodLog.reduce((total, food) => total + food.fat, 0) * 10) / 10;
+  const dayTotals = sumNutrition(foodLog);
+  const dayMicronutrients = sumMicronutrients(
+    foodLog.map(food => scaleMicronutrients(food.micronutrientsPer100g, food.portionSize))
+  );
+
+  // Group the day's entries by meal, oldest first within each meal
+  const mealGroups = MEAL_OPTIONS
+    .map(option => ({
+      ...option,
+      foods: foodLog
+        .filter(food => food.meal === option.value)
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    }))
+    .filter(group => group.foods.length > 0);
+
+  const handleSaveGoals = async (newGoals: DailyGoals) => {
+    if (onSaveGoals && await onSaveGoals(newGoals)) {
+      setIsEditingGoals(false);
+    }
   };
 
   // Expose methods to parent component via ref
   useImperativeHandle(ref, () => ({
+    reload: () => setReloadVersion(version => version + 1),
     addFood: addToFoodLog
   }));
 
@@ -90,25 +246,62 @@ const FoodLog = forwardRef<FoodLogRef, FoodLogProps>(({ className, style }, ref)
         <h2 style={{ color: '#856404', margin: 0 }}>
           📋 Food Log
         </h2>
-        {foodLog.length > 0 && (
-          <button
-            onClick={clearFoodLog}
-            style={{
-              backgroundColor: '#dc3545',
-              color: 'white',
-              border: 'none',
-              padding: '8px 12px',
-              borderRadius: '4px',
-              cursor: 'pointer',
-              fontSize: '12px'
-            }}
-          >
-            Clear All
-          </button>
-        )}
+        <div style={{ display: 'flex', gap: '8px' }}>
+          {onSaveGoals && !isEditingGoals && (
+            <button
+              onClick={() => setIsEditingGoals(true)}
+              style={{
+                backgroundColor: 'white',
+                color: '#856404',
+                border: '1px solid #ffeaa7',
+                padding: '8px 12px',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '12px'
+              }}
+            >
+              🎯 {goals ? 'Edit Goals' : 'Set Goals'}
+            </button>
+          )}
+          {foodLog.length > 0 && (
+            <button
+              onClick={clearFoodLog}
+              style={{
+                backgroundColor: '#dc3545',
+                color: 'white',
+                border: 'none',
+                padding: '8px 12px',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '12px'
+              }}
+            >
+              Clear All
+            </button>
+          )}
+        </div>
       </div>
 
-      {foodLog.length === 0 ? (
+      <DateNavigator
+        selectedDate={selectedDate}
+        onDateChange={setSelectedDate}
+        history={history}
+        historyDays={HISTORY_DAYS}
+      />
+
+      {isEditingGoals && (
+        <DailyGoalsEditor
+          goals={goals ?? null}
+          onSave={handleSaveGoals}
+          onCancel={() => setIsEditingGoals(false)}
+        />
+      )}
+
+      {goals && !isEditingGoals && !isLoading && (
+        <GoalProgress totals={dayTotals} goals={goals} />
+      )}
+
+      {isLoading ? (
         <div style={{
           textAlign: 'center',
           padding: '40px 20px',
@@ -118,7 +311,20 @@ const FoodLog = forwardRef<FoodLogRef, FoodLogProps>(({ className, style }, ref)
           border: '1px solid #ffeaa7'
         }}>
           <p style={{ margin: 0, fontSize: '16px' }}>
-            🍽️ No foods logged yet
+            ⏳ Loading your food log...
+          </p>
+        </div>
+      ) : foodLog.length === 0 ? (
+        <div style={{
+          textAlign: 'center',
+          padding: '40px 20px',
+          color: '#856404',
+          backgroundColor: 'white',
+          borderRadius: '6px',
+          border: '1px solid #ffeaa7'
+        }}>
+          <p style={{ margin: 0, fontSize: '16px' }}>
+            🍽️ No foods logged {selectedDate === getTodayDateString() ? 'yet' : 'on this day'}
           </p>
           <p style={{ margin: '10px 0 0 0', fontSize: '14px', opacity: 0.8 }}>
             Search and select foods above to start tracking your calories
@@ -126,91 +332,84 @@ const FoodLog = forwardRef<FoodLogRef, FoodLogProps>(({ className, style }, ref)
         </div>
       ) : (
         <>
+          {/* Meal Groups */}
+          {mealGroups.map(group => {
+            const mealTotals = sumNutrition(group.foods);
+
+            return (
+              <div key={group.value} style={{ marginBottom: '20px' }}>
+                <div style={{
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  alignItems: 'baseline',
+                  borderBottom: '2px solid #ffeaa7',
+                  paddingBottom: '6px',
+                  marginBottom: '10px'
+                }}>
+                  <h3 style={{ margin: 0, color: '#856404', fontSize: '18px' }}>
+                    {group.icon} {group.label}
+                  </h3>
+                  <div style={{ fontSize: '13px', color: '#6c757d', display: 'flex', gap: '10px' }}>
+                    <strong style={{ color: '#155724' }}>{mealTotals.calories} cal</strong>
+                    <span style={{ color: '#d63384' }}>P {mealTotals.protein}g</span>
+                    <span style={{ color: '#fd7e14' }}>C {mealTotals.carbs}g</span>
+                    <span style={{ color: '#198754' }}>F {mealTotals.fat}g</span>
+                  </div>
+                </div>
+
+                {/* Food Log Items */}
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+                  {group.foods.map((food) => (
+                    <FoodLogItem
+                      key={food.id}
+                      food={food}
+                      onUpdate={updateFoodLogEntry}
+                      onRemove={removeFromFoodLog}
+                    />
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+
           {/* Total Calories Display */}
           <div style={{
             backgroundColor: '#e8f5e8',
             padding: '15px',
             borderRadius: '6px',
             border: '1px solid #c3e6cb',
-            marginBottom: '20px',
             textAlign: 'center'
           }}>
             <div style={{ fontSize: '14px', color: '#155724', marginBottom: '5px' }}>
-              Daily Totals
+              Totals for {formatDisplayDate(selectedDate)}
             </div>
             <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(120px, 1fr))', gap: '10px' }}>
               <div>
                 <div style={{ fontSize: '24px', fontWeight: 'bold', color: '#155724' }}>
-                  {getTotalCalories()}
+                  {dayTotals.calories}
                 </div>
                 <div style={{ fontSize: '12px', color: '#6c757d' }}>Calories</div>
               </div>
               <div>
                 <div style={{ fontSize: '24px', fontWeight: 'bold', color: '#d63384' }}>
-                  {getTotalProtein()}g
+                  {dayTotals.protein}g
                 </div>
                 <div style={{ fontSize: '12px', color: '#6c757d' }}>Protein</div>
               </div>
               <div>
                 <div style={{ fontSize: '24px', fontWeight: 'bold', color: '#fd7e14' }}>
-                  {getTotalCarbs()}g
+                  {dayTotals.carbs}g
                 </div>
                 <div style={{ fontSize: '12px', color: '#6c757d' }}>Carbs</div>
               </div>
               <div>
                 <div style={{ fontSize: '24px', fontWeight: 'bold', color: '#198754' }}>
-                  {getTotalFat()}g
+                  {dayTotals.fat}g
                 </div>
                 <div style={{ fontSize: '12px', color: '#6c757d' }}>Fat</div>
               </div>
             </div>
-          </div>
-
-          {/* Food Log Items */}
-          <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
-            {foodLog.map((food) => (
-              <div
-                key={food.id}
-                style={{
-                  backgroundColor: 'white',
-                  padding: '15px',
-                  borderRadius: '6px',
-                  border: '1px solid #ffeaa7',
-                  display: 'flex',
-                  justifyContent: 'space-between',
-                  alignItems: 'center'
-                }}
-              >
-                <div style={{ flex: 1 }}>
-                  <div style={{ fontWeight: '500', color: '#495057', marginBottom: '5px' }}>
-                    {food.name}
-                  </div>
-                  <div style={{ fontSize: '14px', color: '#6c757d', marginBottom: '3px' }}>
-                    {food.portionSize}g • {food.calories} calories • {food.timestamp.toLocaleTimeString()}
-                  </div>
-                  <div style={{ fontSize: '12px', color: '#6c757d', display: 'flex', gap: '10px' }}>
-                    <span style={{ color: '#d63384' }}>{food.protein}g</span>
-                    <span style={{ color: '#fd7e14' }}>{food.carbs}g</span>
-                    <span style={{ color: '#198754' }}>{food.fat}g</span>
-                  </div>
-                </div>
-                
-                <button
-                  onClick={() => removeFromFoodLog(food.id)}
-                  style={{
-                    backgroundColor: 'transparent',
-                    border: 'none',
-                    color: '#dc3545',
-                    cursor: 'pointer',
-                    fontSize: '16px',
-                    padding: '5px'
-                  }}
-                  title="Remove from log"
-                >
-                  🗑️
-                </button>
-              </div>
-            ))}
+            <MicronutrientPanel values={dayMicronutrients.totals} incomplete={dayMicronutrients.incomplete} />
           </div>
         </>
       )}
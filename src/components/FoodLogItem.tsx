@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { MealType, Micronutrients } from "../services/apiClient";
+import { combineDateAndTime, toTimeInputValue } from "../utils/dates";
+import { MEAL_OPTIONS } from "../utils/meals";
+import { NutritionValues, scaleNutrition } from "../utils/nutrition";
+import { GRAM_UNIT, MAX_PORTION_GRAMS, formatPortion, resolvePortionGrams } from "../utils/servings";
+
+// Interface for logged food items
+export interface LoggedFood extends NutritionValues {
+  id: number;
+  name: string;
+  portionSize: number; // grams
+  servingUnit: string;
+  servingQuantity: number;
+  meal: MealType;
+  logDate: string; // YYYY-MM-DD
+  timestamp: Date;
+  per100g: NutritionValues;
+  micronutrientsPer100g: Micronutrients;
+  pendingSync?: boolean; // saved on this device but not yet on the server
+}
+
+// Changes that can be made to an entry while editing it inline
+export interface FoodLogItemChanges {
+  portionSize: number;
+  servingQuantity: number; // in the entry's existing serving unit
+  meal: MealType;
+  timestamp: Date;
+}
+
+interface FoodLogItemProps {
+  food: LoggedFood;
+  onUpdate: (id: number, changes: FoodLogItemChanges) => Promise<boolean>;
+  onRemove: (id: number) => void;
+}
+
+const editInputStyle: React.CSSProperties = {
+  padding: '6px 8px',
+  fontSize: '14px',
+  border: '1px solid #ced4da',
+  borderRadius: '4px'
+};
+
+const iconButtonStyle: React.CSSProperties = {
+  backgroundColor: 'transparent',
+  border: 'none',
+  cursor: 'pointer',
+  fontSize: '16px',
+  padding: '5px'
+};
+
+const FoodLogItem: React.FC<FoodLogItemProps> = ({ food, onUpdate, onRemove }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [quantityInput, setQuantityInput] = useState(String(food.servingQuantity));
+  const [meal, setMeal] = useState<MealType>(food.meal);
+  const [time, setTime] = useState(toTimeInputValue(food.timestamp));
+
+  // The quantity is edited in the unit it was logged in and resolved back to grams
+  const servingQuantity = Number(quantityInput);
+  const unit = { label: food.servingUnit, grams: food.portionSize / food.servingQuantity };
+  const portionSize = resolvePortionGrams(servingQuantity, unit);
+  const isPortionValid = !isNaN(servingQuantity) && servingQuantity > 0 && portionSize > 0 && portionSize <= MAX_PORTION_GRAMS;
+
+  // Nutrition for the portion being edited, recomputed from the per-100g basis
+  const preview = isPortionValid ? scaleNutrition(food.per100g, portionSize) : food;
+
+  const startEditing = () => {
+    setQuantityInput(String(food.servingQuantity));
+    setMeal(food.meal);
+    setTime(toTimeInputValue(food.timestamp));
+    setIsEditing(true);
+  };
+
+  const saveChanges = async () => {
+    if (!isPortionValid) return;
+
+    setIsSaving(true);
+    const saved = await onUpdate(food.id, {
+      portionSize,
+      servingQuantity,
+      meal,
+      timestamp: combineDateAndTime(food.logDate, time)
+    });
+    setIsSaving(false);
+
+    if (saved) {
+      setIsEditing(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        backgroundColor: 'white',
+        padding: '15px',
+        borderRadius: '6px',
+        border: `1px solid ${isEditing ? '#856404' : '#ffeaa7'}`,
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center'
+      }}
+    >
+      <div style={{ flex: 1 }}>
+        <div style={{ fontWeight: '500', color: '#495057', marginBottom: '5px' }}>
+          {food.name}
+          {food.pendingSync && (
+            <span style={{ marginLeft: '8px', fontSize: '11px', color: '#856404' }} title="Saved on this device; will sync when you're back online">
+              ⏳ not synced
+            </span>
+          )}
+        </div>
+
+        {isEditing ? (
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', alignItems: 'center', marginBottom: '5px' }}>
+            <input
+              type="number"
+              value={quantityInput}
+              onChange={(e) => setQuantityInput(e.target.value)}
+              min="0"
+              step="any"
+              style={{ ...editInputStyle, width: '80px', borderColor: isPortionValid ? '#ced4da' : '#dc3545' }}
+              aria-label={`Portion size in ${food.servingUnit}`}
+            />
+            <span style={{ fontSize: '14px', color: '#6c757d' }}>
+              {food.servingUnit}{food.servingUnit !== GRAM_UNIT && isPortionValid ? ` (${portionSize}g)` : ''}
+            </span>
+            <select
+              value={meal}
+              onChange={(e) => setMeal(e.target.value as MealType)}
+              style={editInputStyle}
+              aria-label="Meal"
+            >
+              {MEAL_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.icon} {option.label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="time"
+              value={time}
+              onChange={(e) => setTime(e.target.value)}
+              style={editInputStyle}
+              aria-label="Time eaten"
+            />
+            <span style={{ fontSize: '14px', color: '#6c757d' }}>
+              → {preview.calories} calories
+            </span>
+          </div>
+        ) : (
+          <div style={{ fontSize: '14px', color: '#6c757d', marginBottom: '3px' }}>
+            {formatPortion(food.servingQuantity, food.servingUnit, food.portionSize)} • {food.calories} calories • {food.timestamp.toLocaleTimeString()}
+          </div>
+        )}
+
+        <div style={{ fontSize: '12px', color: '#6c757d', display: 'flex', gap: '10px' }}>
+          <span style={{ color: '#d63384' }}>{preview.protein}g</span>
+          <span style={{ color: '#fd7e14' }}>{preview.carbs}g</span>
+          <span style={{ color: '#198754' }}>{preview.fat}g</span>
+        </div>
+      </div>
+
+      {isEditing ? (
+        <div style={{ display: 'flex', gap: '5px' }}>
+          <button
+            onClick={saveChanges}
+            disabled={isSaving || !isPortionValid}
+            style={{ ...iconButtonStyle, color: '#198754', cursor: isSaving || !isPortionValid ? 'not-allowed' : 'pointer' }}
+            title="Save changes"
+          >
+            {isSaving ? '⏳' : '✔️'}
+          </button>
+          <button
+            onClick={() => setIsEditing(false)}
+            disabled={isSaving}
+            style={{ ...iconButtonStyle, color: '#6c757d' }}
+            title="Cancel editing"
+          >
+            ✕
+          </button>
+        </div>
+      ) : (
+        <div style={{ display: 'flex', gap: '5px' }}>
+          <button
+            onClick={startEditing}
+            style={{ ...iconButtonStyle, color: '#856404' }}
+            title="Edit entry"
+          >
+            ✏️
+          </button>
+          <button
+            onClick={() => onRemove(food.id)}
+            style={{ ...iconButtonStyle, color: '#dc3545' }}
+            title="Remove from log"
+          >
+            🗑️
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FoodLogItem;
@@ -1,45 +1,134 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useCallback } from "react";
 import { useCombobox } from 'downshift';
-import { apiClient, Food } from "../services/apiClient";
+import { useApiClient } from "../hooks/useApiClient";
+import { Food, QuickAddFood, QuickAddFoods, isAbortError } from "../services/apiClient";
+import { scaleNutrition } from "../utils/nutrition";
+import { formatPortion, getQuickAddPortion } from "../utils/servings";
 
 interface FoodSearchComboboxProps {
   placeholder?: string;
   onSelection: (selectedFood: Food | null) => void;
   onInputChange?: (value: string) => void;
+  // Enables favorites and recent foods, shown while the input is empty, and logs one in a click
+  onQuickAdd?: (item: QuickAddFood) => void;
   disabled?: boolean;
+  excludeRecipes?: boolean;
   className?: string;
   style?: React.CSSProperties;
 }
 
+const SUGGESTION_LIMIT = 10;
+
+const foodKey = (food: Food) => `${food.type ?? 'food'}-${food.id}`;
+
+interface QuickAddSection {
+  title: string;
+  items: QuickAddFood[];
+}
+
+// Favorites first, then recent and frequent foods not already listed above them
+const toQuickAddSections = ({ favorites, recent, frequent }: QuickAddFoods): QuickAddSection[] => {
+  const listed = new Set<string>();
+  const unlisted = (items: QuickAddFood[]) => items.filter(item => {
+    const key = foodKey(item.food);
+    if (listed.has(key)) return false;
+    listed.add(key);
+    return true;
+  });
+
+  return [
+    { title: '★ Favorites', items: unlisted(favorites) },
+    { title: 'Recent', items: unlisted(recent) },
+    { title: 'Frequent', items: unlisted(frequent) }
+  ].filter(section => section.items.length > 0);
+};
+
+const sectionTitleStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  fontSize: '12px',
+  fontWeight: 'bold',
+  color: '#6c757d',
+  backgroundColor: '#f8f9fa',
+  textTransform: 'uppercase'
+};
+
 const FoodSearchCombobox = ({ 
   placeholder = "Enter food name...",
   onSelection,
   onInputChange,
+  onQuickAdd,
   disabled = false,
+  excludeRecipes = false,
   className,
   style 
 }: FoodSearchComboboxProps) => {
+  const apiClient = useApiClient();
   // Internal state for autocomplete
   const [suggestions, setSuggestions] = useState<Food[]>([]);
   const [isLoadingSuggestions, setIsLoadingSuggestions] = useState(false);
+  const [quickAdd, setQuickAdd] = useState<QuickAddFoods | null>(null);
   const debounceRef = useRef<NodeJS.Timeout | null>(null);
+  const requestRef = useRef<AbortController | null>(null);
+
+  // Reloaded each time the empty input is focused, so just-logged foods show up as recent
+  const loadQuickAdd = useCallback(async () => {
+    try {
+      setQuickAdd(await apiClient.getQuickAddFoods());
+    } catch (error) {
+      console.error('Error loading favorite and recent foods:', error);
+    }
+  }, [apiClient]);
+
+  const favoriteKeys = new Set(quickAdd?.favorites.map(item => foodKey(item.food)));
+
+  // Star or unstar a food straight away, putting it back if saving fails
+  const toggleFavorite = async (food: Food) => {
+    const isFavorite = !favoriteKeys.has(foodKey(food));
+    const updateFavorites = (favorite: boolean) => setQuickAdd(prev => prev && {
+      ...prev,
+      favorites: favorite
+        ? [{ food, isFavorite: true, lastPortion: null, lastLoggedAt: null, recentLogCount: 0 }, ...prev.favorites]
+        : prev.favorites.filter(item => foodKey(item.food) !== foodKey(food))
+    });
+
+    updateFavorites(isFavorite);
+    try {
+      await apiClient.setFavorite(food, isFavorite);
+      loadQuickAdd();
+    } catch (error) {
+      console.error('Error saving favorite:', error);
+      updateFavorites(!isFavorite);
+    }
+  };
 
   // Fetch suggestions with debouncing
   const fetchSuggestions = async (searchTerm: string) => {
+    // Cancel the previous search so a slow, stale response can't overwrite newer suggestions
+    requestRef.current?.abort();
+
     if (searchTerm.length < 2) {
+      requestRef.current = null;
       setSuggestions([]);
+      setIsLoadingSuggestions(false);
       return;
     }
 
+    const controller = new AbortController();
+    requestRef.current = controller;
+
     try {
       setIsLoadingSuggestions(true);
-      const results = await apiClient.searchFood(searchTerm);
-      setSuggestions(results.slice(0, 10)); // Limit to 10 suggestions
+      // Results arrive best match first, so one small page is enough for suggestions
+      const { foods } = await apiClient.searchFood(searchTerm, { limit: SUGGESTION_LIMIT, signal: controller.signal });
+      setSuggestions(excludeRecipes ? foods.filter(food => food.type !== 'recipe') : foods);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Error fetching suggestions:', error);
       setSuggestions([]);
     } finally {
-      setIsLoadingSuggestions(false);
+      if (requestRef.current === controller) {
+        setIsLoadingSuggestions(false);
+      }
     }
   };
 
@@ -58,26 +147,44 @@ const FoodSearchCombobox = ({
     onSelection(selectedItem);
   };
 
-  // Cleanup debounce on unmount
+  // Favorites are needed up front to star search suggestions
+  const showsQuickAdd = !!onQuickAdd;
+  useEffect(() => {
+    if (showsQuickAdd) {
+      loadQuickAdd();
+    }
+  }, [loadQuickAdd, showsQuickAdd]);
+
+  // Cleanup debounce and any in-flight search on unmount
   useEffect(() => {
     return () => {
       if (debounceRef.current) {
         clearTimeout(debounceRef.current);
       }
+      requestRef.current?.abort();
     };
   }, []);
 
+  const [inputValue, setInputValue] = useState('');
+  const quickAddSections = onQuickAdd && !inputValue.trim() && quickAdd ? toQuickAddSections(quickAdd) : [];
+  const items = quickAddSections.length > 0
+    ? quickAddSections.flatMap(section => section.items.map(item => item.food))
+    : suggestions;
+
   // Downshift setup
   const {
     isOpen,
     getMenuProps,
     getInputProps,
     getItemProps,
-    highlightedIndex
+    highlightedIndex,
+    openMenu,
+    closeMenu
   } = useCombobox({
-    items: suggestions,
+    items,
     onInputValueChange: ({ inputValue }) => {
       if (inputValue !== undefined) {
+        setInputValue(inputValue);
         onInputChange?.(inputValue);
         debouncedFetchSuggestions(inputValue);
       }
@@ -88,12 +195,117 @@ const FoodSearchCombobox = ({
     itemToString: (item) => item ? item.name : '',
   });
 
+  // Show favorites and recent foods as soon as the empty input is focused
+  const handleFocus = () => {
+    if (onQuickAdd && !inputValue.trim()) {
+      loadQuickAdd();
+      openMenu();
+    }
+  };
+
+  const handleQuickAdd = (event: React.MouseEvent, item: QuickAddFood) => {
+    event.stopPropagation(); // don't also select the row
+    onQuickAdd?.(item);
+    closeMenu();
+  };
+
+  const handleToggleFavorite = (event: React.MouseEvent, food: Food) => {
+    event.stopPropagation();
+    toggleFavorite(food);
+  };
+
+  const renderItem = (food: Food, index: number, quickAddItem?: QuickAddFood) => {
+    const isFavorite = favoriteKeys.has(foodKey(food));
+    const portion = quickAddItem && getQuickAddPortion(quickAddItem);
+
+    return (
+      <div
+        key={foodKey(food)}
+        {...getItemProps({ item: food, index })}
+        style={{
+          padding: '12px',
+          cursor: 'pointer',
+          backgroundColor: highlightedIndex === index ? '#e9ecef' : 'white',
+          borderBottom: index < items.length - 1 ? '1px solid #e9ecef' : 'none',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          gap: '8px'
+        }}
+      >
+        <span style={{ fontWeight: '500' }}>
+          {food.name}
+          {food.type === 'recipe' ? (
+            <span style={{ marginLeft: '8px', fontSize: '11px', color: '#6f42c1', fontWeight: 'normal' }}>
+              recipe
+            </span>
+          ) : food.isCustom && (
+            <span style={{ marginLeft: '8px', fontSize: '11px', color: '#1976d2', fontWeight: 'normal' }}>
+              custom
+            </span>
+          )}
+        </span>
+        <span style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '14px', color: '#6c757d' }}>
+          {quickAddItem && portion ? (
+            <>
+              <span>
+                {formatPortion(portion.servingQuantity, portion.servingUnit, portion.portionSize)}
+                {' · '}
+                {scaleNutrition(food, portion.portionSize).calories} cal
+              </span>
+              <button
+                type="button"
+                onClick={(event) => handleQuickAdd(event, quickAddItem)}
+                title={`Log ${food.name} at this portion`}
+                style={{
+                  padding: '4px 8px',
+                  backgroundColor: '#28a745',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '4px',
+                  cursor: 'pointer',
+                  fontSize: '12px'
+                }}
+              >
+                + Log
+              </button>
+            </>
+          ) : (
+            <span>{food.calories} cal/100g</span>
+          )}
+          {onQuickAdd && (
+            <button
+              type="button"
+              onClick={(event) => handleToggleFavorite(event, food)}
+              title={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+              aria-pressed={isFavorite}
+              style={{
+                padding: '0 4px',
+                background: 'none',
+                border: 'none',
+                cursor: 'pointer',
+                fontSize: '18px',
+                color: isFavorite ? '#f0ad4e' : '#ced4da'
+              }}
+            >
+              {isFavorite ? '★' : '☆'}
+            </button>
+          )}
+        </span>
+      </div>
+    );
+  };
+
+  // Items are numbered across sections, as downshift expects
+  let quickAddIndex = 0;
+
   return (
     <div style={{ position: 'relative', ...style }} className={className}>
       <input 
         {...getInputProps({
           placeholder,
           disabled,
+          onFocus: handleFocus,
           style: { 
             width: '100%',
             padding: '12px', 
@@ -113,35 +325,23 @@ const FoodSearchCombobox = ({
           left: 0,
           right: 0,
           backgroundColor: 'white',
-          border: isOpen && suggestions.length > 0 ? '1px solid #ced4da' : 'none',
+          border: isOpen && items.length > 0 ? '1px solid #ced4da' : 'none',
           borderTop: 'none',
           borderRadius: '0 0 4px 4px',
-          maxHeight: '200px',
+          maxHeight: quickAddSections.length > 0 ? '320px' : '200px',
           overflowY: 'auto',
           zIndex: 1000,
-          boxShadow: isOpen && suggestions.length > 0 ? '0 2px 4px rgba(0,0,0,0.1)' : 'none'
+          boxShadow: isOpen && items.length > 0 ? '0 2px 4px rgba(0,0,0,0.1)' : 'none'
         }}
       >
-        {isOpen && suggestions.map((suggestion, index) => (
-          <div
-            key={suggestion.id}
-            {...getItemProps({ item: suggestion, index })}
-            style={{
-              padding: '12px',
-              cursor: 'pointer',
-              backgroundColor: highlightedIndex === index ? '#e9ecef' : 'white',
-              borderBottom: index < suggestions.length - 1 ? '1px solid #e9ecef' : 'none',
-              display: 'flex',
-              justifyContent: 'space-between',
-              alignItems: 'center'
-            }}
-          >
-            <span style={{ fontWeight: '500' }}>{suggestion.name}</span>
-            <span style={{ fontSize: '14px', color: '#6c757d' }}>
-              {suggestion.calories} cal/100g
-            </span>
+        {isOpen && quickAddSections.map(section => (
+          <div key={section.title}>
+            <div style={sectionTitleStyle}>{section.title}</div>
+            {section.items.map(item => renderItem(item.food, quickAddIndex++, item))}
           </div>
         ))}
+
+        {isOpen && quickAddSections.length === 0 && suggestions.map((suggestion, index) => renderItem(suggestion, index))}
         
         {isOpen && isLoadingSuggestions && (
           <div style={{
@@ -158,4 +358,4 @@ const FoodSearchCombobox = ({
   );
 };
 
-export default FoodSearchCombobox; 
\ No newline at end of file
+export default FoodSearchCombobox;
@@ -0,0 +1,72 @@
+import { DailyGoals } from "../services/apiClient";
+import { NutritionValues } from "../utils/nutrition";
+
+interface GoalProgressProps {
+  totals: NutritionValues;
+  goals: DailyGoals;
+}
+
+const NUTRIENTS: { key: keyof DailyGoals; label: string; unit: string; color: string }[] = [
+  { key: 'calories', label: 'Calories', unit: '', color: '#155724' },
+  { key: 'protein', label: 'Protein', unit: 'g', color: '#d63384' },
+  { key: 'carbs', label: 'Carbs', unit: 'g', color: '#fd7e14' },
+  { key: 'fat', label: 'Fat', unit: 'g', color: '#198754' }
+];
+
+const formatAmount = (value: number) => (Number.isInteger(value) ? value.toString() : value.toFixed(1));
+
+const GoalProgress: React.FC<GoalProgressProps> = ({ totals, goals }) => {
+  return (
+    <div style={{
+      backgroundColor: 'white',
+      padding: '15px',
+      borderRadius: '6px',
+      border: '1px solid #ffeaa7',
+      marginBottom: '20px',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '12px'
+    }}>
+      {NUTRIENTS.map(({ key, label, unit, color }) => {
+        const consumed = totals[key];
+        const target = goals[key];
+        const remaining = target - consumed;
+        const isOver = target > 0 && remaining < 0;
+        const percent = target > 0 ? Math.min(100, (consumed / target) * 100) : 0;
+
+        return (
+          <div key={key}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '14px', marginBottom: '4px' }}>
+              <span style={{ fontWeight: '500', color }}>{label}</span>
+              <span style={{ color: '#495057' }}>
+                {formatAmount(consumed)}{unit} / {formatAmount(target)}{unit}
+                <span style={{ marginLeft: '8px', color: isOver ? '#dc3545' : '#6c757d', fontWeight: isOver ? 'bold' : 'normal' }}>
+                  {isOver
+                    ? `⚠️ ${formatAmount(-remaining)}${unit} over`
+                    : `${formatAmount(remaining)}${unit} left`}
+                </span>
+              </span>
+            </div>
+            <div style={{ height: '10px', backgroundColor: '#e9ecef', borderRadius: '5px', overflow: 'hidden' }}>
+              <div
+                style={{
+                  width: `${percent}%`,
+                  height: '100%',
+                  backgroundColor: isOver ? '#dc3545' : color,
+                  transition: 'width 0.3s'
+                }}
+                role="progressbar"
+                aria-label={`${label} progress`}
+                aria-valuenow={Math.round(percent)}
+                aria-valuemin={0}
+                aria-valuemax={100}
+              />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default GoalProgress;
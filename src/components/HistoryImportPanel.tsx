@@ -0,0 +1,243 @@
+import { useMemo, useRef, useState } from "react";
+import { useApiClient } from "../hooks/useApiClient";
+import { formatDisplayDate } from "../utils/dates";
+import { ParsedHistoryFile, parseHistoryFile } from "../utils/historyImport";
+import { MEAL_OPTIONS } from "../utils/meals";
+import { WeightUnit, fromKg } from "../utils/weight";
+
+interface HistoryImportPanelProps {
+  weightUnit: WeightUnit;
+  onError?: (error: unknown) => void;
+  onImported?: () => void;
+}
+
+interface SelectedFile {
+  name: string;
+  text: string;
+}
+
+const PREVIEW_ROWS = 10;
+const MAX_ERRORS_SHOWN = 20;
+
+const buttonStyle = (backgroundColor: string, enabled = true): React.CSSProperties => ({
+  backgroundColor: enabled ? backgroundColor : '#95a5a6',
+  color: 'white',
+  border: 'none',
+  padding: '8px 14px',
+  borderRadius: '4px',
+  cursor: enabled ? 'pointer' : 'not-allowed',
+  fontSize: '14px',
+  fontWeight: '500'
+});
+
+const cellStyle: React.CSSProperties = {
+  padding: '6px 8px',
+  borderBottom: '1px solid #e9ecef',
+  textAlign: 'left'
+};
+
+const HistoryImportPanel: React.FC<HistoryImportPanelProps> = ({ weightUnit, onError, onImported }) => {
+  const apiClient = useApiClient();
+  const [files, setFiles] = useState<SelectedFile[]>([]);
+  const [fileWeightUnit, setFileWeightUnit] = useState<WeightUnit>(weightUnit);
+  const [isImporting, setIsImporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Re-parsed when the assumed weight unit changes, so the preview always matches what will be saved
+  const parsed = useMemo(() => files.map(file => {
+    try {
+      return { file: parseHistoryFile(file.name, file.text, fileWeightUnit), error: null };
+    } catch (error) {
+      return { file: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  }), [files, fileWeightUnit]);
+
+  const parsedFiles = parsed.map(result => result.file).filter((file): file is ParsedHistoryFile => file !== null);
+  const foodLogs = parsedFiles.flatMap(file => file.foodLogs);
+  const weights = parsedFiles.flatMap(file => file.weights);
+  const rowErrors = parsedFiles.flatMap(file => file.errors.map(error => ({ ...error, fileName: file.fileName })));
+  const needsWeightUnit = parsedFiles.some(file => file.assumedWeightUnit && file.weights.length > 0);
+  const nominalPortionCount = parsedFiles.reduce((count, file) => count + file.nominalPortionCount, 0);
+  const canImport = (foodLogs.length > 0 || weights.length > 0) && !isImporting;
+
+  const handleFilesChosen = async (fileList: FileList) => {
+    setMessage(null);
+    setFiles(await Promise.all(Array.from(fileList).map(async file => ({ name: file.name, text: await file.text() }))));
+  };
+
+  const reset = () => {
+    setFiles([]);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleImport = async () => {
+    if (!canImport) return;
+
+    try {
+      setIsImporting(true);
+      const logs = foodLogs.length > 0 ? await apiClient.importFoodLogs(foodLogs) : { imported: 0, skipped: 0 };
+      const weighIns = weights.length > 0 ? await apiClient.importWeightEntries(weights) : 0;
+
+      setMessage(
+        `Imported ${logs.imported} food log entries` +
+        (logs.skipped > 0 ? ` (${logs.skipped} already in your log)` : '') +
+        ` and ${weighIns} weigh-ins.`
+      );
+      reset();
+      onImported?.();
+    } catch (error) {
+      onError?.(error);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <section style={{
+      padding: '25px',
+      backgroundColor: '#f8f9fa',
+      borderRadius: '10px',
+      border: '1px solid #dee2e6',
+      marginBottom: '30px'
+    }}>
+      <h2 style={{ color: '#495057', marginTop: 0, marginBottom: '10px' }}>
+        📥 Import from MyFitnessPal or Cronometer
+      </h2>
+      <div style={{ fontSize: '12px', color: '#6c757d', marginBottom: '12px' }}>
+        MyFitnessPal: the Nutrition Summary and Measurement Summary CSVs from its data export.
+        Cronometer: servings.csv (Food &amp; Recipe Entries) and biometrics.csv. Nothing is saved until you confirm.
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,text/csv"
+        multiple
+        onChange={(e) => {
+          if (e.target.files && e.target.files.length > 0) {
+            handleFilesChosen(e.target.files);
+          }
+        }}
+        disabled={isImporting}
+      />
+
+      {message && files.length === 0 && (
+        <div style={{ marginTop: '10px', fontSize: '14px', color: '#155724' }}>✅ {message}</div>
+      )}
+
+      {files.length > 0 && (
+        <div style={{ marginTop: '15px' }}>
+          {/* Per-file summary */}
+          {parsed.map((result, index) => (
+            <div key={index} style={{ fontSize: '14px', marginBottom: '4px', color: result.error ? '#dc3545' : '#495057' }}>
+              {result.file ? (
+                <>
+                  {result.file.errors.length > 0 ? '⚠️' : '✅'} <strong>{result.file.fileName}</strong>: {result.file.description},{' '}
+                  {result.file.foodLogs.length + result.file.weights.length} rows ready
+                  {result.file.errors.length > 0 && `, ${result.file.errors.length} with errors`}
+                </>
+              ) : (
+                <>❌ {result.error}</>
+              )}
+            </div>
+          ))}
+
+          {needsWeightUnit && (
+            <label style={{ display: 'block', margin: '10px 0', fontSize: '14px', color: '#495057' }}>
+              MyFitnessPal weights are in{' '}
+              <select value={fileWeightUnit} onChange={(e) => setFileWeightUnit(e.target.value as WeightUnit)}>
+                <option value="lbs">lbs</option>
+                <option value="kg">kg</option>
+              </select>
+            </label>
+          )}
+
+          {nominalPortionCount > 0 && (
+            <div style={{ fontSize: '12px', color: '#856404', margin: '8px 0' }}>
+              {nominalPortionCount} entries have no weight in grams (meal totals or household units such as cups);
+              they keep their calories and macros and can still be resized by quantity.
+            </div>
+          )}
+
+          {/* Row-level validation errors; these rows are left out of the import */}
+          {rowErrors.length > 0 && (
+            <div style={{
+              margin: '10px 0',
+              padding: '10px',
+              backgroundColor: '#f8d7da',
+              border: '1px solid #f5c6cb',
+              borderRadius: '6px',
+              color: '#721c24',
+              fontSize: '13px'
+            }}>
+              <strong>{rowErrors.length} rows will be skipped:</strong>
+              <ul style={{ margin: '6px 0 0', paddingLeft: '20px' }}>
+                {rowErrors.slice(0, MAX_ERRORS_SHOWN).map(error => (
+                  <li key={`${error.fileName}-${error.row}`}>
+                    {error.fileName} row {error.row}: {error.message}
+                  </li>
+                ))}
+              </ul>
+              {rowErrors.length > MAX_ERRORS_SHOWN && <div>…and {rowErrors.length - MAX_ERRORS_SHOWN} more</div>}
+            </div>
+          )}
+
+          {foodLogs.length > 0 && (
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px', margin: '10px 0', backgroundColor: 'white' }}>
+              <thead>
+                <tr>
+                  <th style={cellStyle}>Date</th>
+                  <th style={cellStyle}>Meal</th>
+                  <th style={cellStyle}>Food</th>
+                  <th style={cellStyle}>Amount</th>
+                  <th style={cellStyle}>Calories</th>
+                  <th style={cellStyle}>P / C / F (g)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {foodLogs.slice(0, PREVIEW_ROWS).map((entry, index) => (
+                  <tr key={index}>
+                    <td style={cellStyle}>{entry.logDate && formatDisplayDate(entry.logDate)}</td>
+                    <td style={cellStyle}>{MEAL_OPTIONS.find(option => option.value === entry.meal)?.label}</td>
+                    <td style={cellStyle}>{entry.name}</td>
+                    <td style={cellStyle}>
+                      {entry.servingUnit === 'g' ? `${entry.portionSize}g` : `${entry.servingQuantity} ${entry.servingUnit}`}
+                    </td>
+                    <td style={cellStyle}>{entry.calories}</td>
+                    <td style={cellStyle}>{entry.protein} / {entry.carbs} / {entry.fat}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {foodLogs.length > PREVIEW_ROWS && (
+            <div style={{ fontSize: '12px', color: '#6c757d' }}>…and {foodLogs.length - PREVIEW_ROWS} more food entries</div>
+          )}
+
+          {weights.length > 0 && (
+            <div style={{ fontSize: '13px', color: '#495057', margin: '10px 0' }}>
+              Weigh-ins: {weights.slice(0, PREVIEW_ROWS).map(entry =>
+                `${entry.date} ${fromKg(entry.weightKg, weightUnit).toFixed(1)} ${weightUnit}`
+              ).join(', ')}
+              {weights.length > PREVIEW_ROWS && ` …and ${weights.length - PREVIEW_ROWS} more`}
+            </div>
+          )}
+
+          <div style={{ display: 'flex', gap: '10px', marginTop: '12px' }}>
+            <button onClick={handleImport} disabled={!canImport} style={buttonStyle('#28a745', canImport)}>
+              {isImporting ? '⏳ Importing...' : `Import ${foodLogs.length} entries and ${weights.length} weigh-ins`}
+            </button>
+            <button onClick={reset} disabled={isImporting} style={buttonStyle('#6c757d', !isImporting)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default HistoryImportPanel;
@@ -1,6 +1,10 @@
+import { DailyGoals } from "../services/apiClient";
+import CalorieTargetCalculator from "./CalorieTargetCalculator";
+
 interface MacroRecommendationsProps {
   weight: number | string;
   weightUnit: 'kg' | 'lbs';
+  onApplyTargets?: (targets: DailyGoals) => Promise<boolean>;
 }
 
 interface MacroCalculations {
@@ -20,7 +24,7 @@ interface MacroCalculations {
   };
 }
 
-const MacroRecommendations: React.FC<MacroRecommendationsProps> = ({ weight, weightUnit }) => {
+const MacroRecommendations: React.FC<MacroRecommendationsProps> = ({ weight, weightUnit, onApplyTargets }) => {
   // Calculate macro recommendations based on weight
   const getMacroRecommendations = (): MacroCalculations | null => {
     const weightNum = typeof weight === 'string' ? parseFloat(weight) : weight;
@@ -51,6 +55,9 @@ const MacroRecommendations: React.FC<MacroRecommendationsProps> = ({ weight, wei
 
   if (!macroData) return null;
 
+  const weightNum = typeof weight === 'string' ? parseFloat(weight) : weight;
+  const weightInKg = weightUnit === 'kg' ? weightNum : weightNum / 2.20462;
+
   return (
     <div style={{
       marginTop: '20px',
@@ -118,6 +125,9 @@ const MacroRecommendations: React.FC<MacroRecommendationsProps> = ({ weight, wei
       <div style={{ marginTop: '15px', fontSize: '12px', color: '#856404', fontStyle: 'italic' }}>
         💡 These recommendations are based on your body weight. Choose the activity level that best matches your lifestyle.
       </div>
+
+      {/* Personalized BMR/TDEE calculator */}
+      <CalorieTargetCalculator weightKg={weightInKg} weightUnit={weightUnit} onApplyTargets={onApplyTargets} />
     </div>
   );
 };
@@ -0,0 +1,46 @@
+import { MicronutrientKey, Micronutrients } from "../services/apiClient";
+import { MICRONUTRIENTS } from "../utils/micronutrients";
+
+interface MicronutrientPanelProps {
+  values: Micronutrients;
+  incomplete?: MicronutrientKey[];
+  title?: string;
+}
+
+const MicronutrientPanel: React.FC<MicronutrientPanelProps> = ({ values, incomplete = [], title = 'Fiber, vitamins & minerals' }) => {
+  const hasIncomplete = incomplete.length > 0;
+
+  return (
+    <div style={{ marginTop: '12px', textAlign: 'left' }}>
+      <div style={{ fontSize: '12px', color: '#6c757d', marginBottom: '6px', fontWeight: '500' }}>
+        {title}
+      </div>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(140px, 1fr))', gap: '4px 12px' }}>
+        {MICRONUTRIENTS.map(({ key, label, unit }) => {
+          const value = values[key];
+          const isUnknown = value === null || value === undefined;
+          const isPartial = incomplete.includes(key);
+
+          return (
+            <div key={key} style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px' }}>
+              <span style={{ color: '#6c757d' }}>{label}</span>
+              <span
+                style={{ color: isUnknown ? '#adb5bd' : '#495057', fontStyle: isUnknown ? 'italic' : 'normal' }}
+                title={isUnknown ? 'No data for this nutrient' : isPartial ? 'Some foods have no data for this nutrient' : undefined}
+              >
+                {isUnknown ? 'unknown' : `${isPartial ? '≥ ' : ''}${value}${unit}`}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+      {hasIncomplete && (
+        <div style={{ marginTop: '6px', fontSize: '11px', color: '#6c757d' }}>
+          ≥ marks totals where some foods have no data, so the real amount may be higher.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MicronutrientPanel;
@@ -0,0 +1,334 @@
+import { useState, useEffect } from "react";
+import { useApiClient } from "../hooks/useApiClient";
+import { useLatest } from "../hooks/useLatest";
+import { Food, Recipe } from "../services/apiClient";
+import { NutritionValues, multiplyNutrition, scaleNutrition, sumNutrition } from "../utils/nutrition";
+import FoodSearchCombobox from "./FoodSearchCombobox";
+
+interface RecipeManagerProps {
+  onError?: (error: unknown) => void;
+  onLogServing?: (recipe: Recipe) => void;
+}
+
+// An ingredient row in the editor; nutrition values are the food's per-100g values
+interface DraftIngredient extends NutritionValues {
+  foodId: number;
+  name: string;
+  grams: string;
+}
+
+interface RecipeDraft {
+  id: number | null;
+  name: string;
+  servings: string;
+  cookedWeightGrams: string;
+  ingredients: DraftIngredient[];
+}
+
+const EMPTY_DRAFT: RecipeDraft = { id: null, name: '', servings: '1', cookedWeightGrams: '', ingredients: [] };
+
+const inputStyle: React.CSSProperties = {
+  display: 'block',
+  width: '100%',
+  marginTop: '4px',
+  padding: '8px 10px',
+  fontSize: '14px',
+  border: '1px solid #d6c8f0',
+  borderRadius: '4px',
+  boxSizing: 'border-box'
+};
+
+const buttonStyle = (backgroundColor: string, enabled = true): React.CSSProperties => ({
+  backgroundColor: enabled ? backgroundColor : '#95a5a6',
+  color: 'white',
+  border: 'none',
+  padding: '8px 14px',
+  borderRadius: '4px',
+  cursor: enabled ? 'pointer' : 'not-allowed',
+  fontSize: '14px',
+  fontWeight: '500'
+});
+
+const formatNutrition = (values: NutritionValues) =>
+  `${values.calories} cal • ${values.protein}g protein • ${values.carbs}g carbs • ${values.fat}g fat`;
+
+const toDraft = (recipe: Recipe): RecipeDraft => ({
+  id: recipe.id,
+  name: recipe.name,
+  servings: String(recipe.servings),
+  cookedWeightGrams: String(recipe.cookedWeightGrams),
+  ingredients: recipe.ingredients.map(ingredient => ({ ...ingredient, grams: String(ingredient.grams) }))
+});
+
+const RecipeManager: React.FC<RecipeManagerProps> = ({ onError, onLogServing }) => {
+  const apiClient = useApiClient();
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draft, setDraft] = useState<RecipeDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  // Bumped after an ingredient is added so the search box remounts empty
+  const [ingredientSearchKey, setIngredientSearchKey] = useState(0);
+  const onErrorRef = useLatest(onError);
+
+  // Load the user's recipes
+  useEffect(() => {
+    let cancelled = false;
+
+    apiClient.getRecipes()
+      .then(results => {
+        if (!cancelled) setRecipes(results);
+      })
+      .catch(error => {
+        if (!cancelled) onErrorRef.current?.(error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [apiClient, onErrorRef]);
+
+  const updateDraft = (changes: Partial<RecipeDraft>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const addIngredient = (food: Food | null) => {
+    if (!food || !draft) return;
+
+    updateDraft({
+      ingredients: [
+        ...draft.ingredients,
+        { foodId: food.id, name: food.name, grams: '100', calories: food.calories, protein: food.protein, carbs: food.carbs, fat: food.fat }
+      ]
+    });
+    setIngredientSearchKey(prev => prev + 1);
+  };
+
+  const updateIngredientGrams = (index: number, grams: string) => {
+    if (!draft) return;
+    updateDraft({
+      ingredients: draft.ingredients.map((ingredient, i) => (i === index ? { ...ingredient, grams } : ingredient))
+    });
+  };
+
+  const removeIngredient = (index: number) => {
+    if (!draft) return;
+    updateDraft({ ingredients: draft.ingredients.filter((_, i) => i !== index) });
+  };
+
+  // Live nutrition preview for the recipe being edited
+  const rawWeight = draft ? draft.ingredients.reduce((sum, ingredient) => sum + (Number(ingredient.grams) || 0), 0) : 0;
+  const cookedWeight = draft && draft.cookedWeightGrams !== '' ? Number(draft.cookedWeightGrams) : rawWeight;
+  const servings = draft ? Number(draft.servings) : 0;
+  const totals = draft
+    ? sumNutrition(draft.ingredients.map(ingredient => scaleNutrition(ingredient, Number(ingredient.grams) || 0)))
+    : null;
+
+  const canSave = !!draft
+    && draft.name.trim() !== ''
+    && Number.isInteger(servings) && servings >= 1
+    && cookedWeight > 0
+    && draft.ingredients.length > 0
+    && draft.ingredients.every(ingredient => Number(ingredient.grams) > 0)
+    && !isSaving;
+
+  const handleSave = async () => {
+    if (!draft || !canSave) return;
+
+    const input = {
+      name: draft.name.trim(),
+      servings,
+      cookedWeightGrams: cookedWeight,
+      ingredients: draft.ingredients.map(ingredient => ({ foodId: ingredient.foodId, grams: Number(ingredient.grams) }))
+    };
+
+    try {
+      setIsSaving(true);
+      const saved = draft.id === null
+        ? await apiClient.createRecipe(input)
+        : await apiClient.updateRecipe(draft.id, input);
+      setRecipes(prev =>
+        [...prev.filter(recipe => recipe.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setDraft(null);
+    } catch (error) {
+      onError?.(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    try {
+      await apiClient.deleteRecipe(id);
+      setRecipes(prev => prev.filter(recipe => recipe.id !== id));
+    } catch (error) {
+      onError?.(error);
+    }
+  };
+
+  return (
+    <section style={{
+      padding: '25px',
+      backgroundColor: '#f3effa',
+      borderRadius: '10px',
+      border: '1px solid #d6c8f0',
+      marginBottom: '30px'
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
+        <h2 style={{ color: '#59359a', margin: 0 }}>
+          🍲 My Recipes
+        </h2>
+        {!draft && (
+          <button onClick={() => setDraft(EMPTY_DRAFT)} style={buttonStyle('#6f42c1')}>
+            ➕ New Recipe
+          </button>
+        )}
+      </div>
+
+      {/* Recipe Editor */}
+      {draft && (
+        <div style={{ padding: '15px', backgroundColor: 'white', borderRadius: '6px', border: '1px solid #d6c8f0', marginBottom: '20px' }}>
+          <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr 1fr', gap: '10px', marginBottom: '15px' }}>
+            <label style={{ fontSize: '12px', color: '#59359a', fontWeight: '500' }}>
+              Recipe name
+              <input type="text" value={draft.name} maxLength={255} onChange={(e) => updateDraft({ name: e.target.value })} style={inputStyle} />
+            </label>
+            <label style={{ fontSize: '12px', color: '#59359a', fontWeight: '500' }}>
+              Servings
+              <input type="number" min="1" step="1" value={draft.servings} onChange={(e) => updateDraft({ servings: e.target.value })} style={inputStyle} />
+            </label>
+            <label style={{ fontSize: '12px', color: '#59359a', fontWeight: '500' }}>
+              Cooked weight (g)
+              <input
+                type="number"
+                min="1"
+                value={draft.cookedWeightGrams}
+                placeholder={rawWeight > 0 ? String(rawWeight) : ''}
+                onChange={(e) => updateDraft({ cookedWeightGrams: e.target.value })}
+                style={inputStyle}
+                title="Leave blank to use the raw weight of the ingredients"
+              />
+            </label>
+          </div>
+
+          {/* Ingredients */}
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginBottom: '12px' }}>
+            {draft.ingredients.map((ingredient, index) => (
+              <div key={`${ingredient.foodId}-${index}`} style={{ display: 'flex', alignItems: 'center', gap: '10px', fontSize: '14px' }}>
+                <span style={{ flex: 1, color: '#495057' }}>{ingredient.name}</span>
+                <input
+                  type="number"
+                  min="1"
+                  value={ingredient.grams}
+                  onChange={(e) => updateIngredientGrams(index, e.target.value)}
+                  style={{ ...inputStyle, display: 'inline-block', width: '90px', marginTop: 0 }}
+                />
+                <span style={{ color: '#6c757d' }}>g</span>
+                <span style={{ width: '80px', textAlign: 'right', color: '#6c757d' }}>
+                  {scaleNutrition(ingredient, Number(ingredient.grams) || 0).calories} cal
+                </span>
+                <button
+                  onClick={() => removeIngredient(index)}
+                  style={{ backgroundColor: 'transparent', border: 'none', color: '#dc3545', cursor: 'pointer', fontSize: '14px' }}
+                  title="Remove ingredient"
+                >
+                  🗑️
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <FoodSearchCombobox
+            key={ingredientSearchKey}
+            placeholder="Add an ingredient..."
+            onSelection={addIngredient}
+            excludeRecipes
+          />
+
+          {totals && draft.ingredients.length > 0 && (
+            <div style={{ marginTop: '15px', fontSize: '13px', color: '#495057', display: 'flex', flexDirection: 'column', gap: '4px' }}>
+              <div><strong>Whole recipe:</strong> {formatNutrition(totals)}</div>
+              {cookedWeight > 0 && (
+                <div><strong>Per 100g:</strong> {formatNutrition(multiplyNutrition(totals, 100 / cookedWeight))}</div>
+              )}
+              {Number.isInteger(servings) && servings >= 1 && (
+                <div>
+                  <strong>Per serving ({Math.round((cookedWeight / servings) * 10) / 10}g):</strong>{' '}
+                  {formatNutrition(multiplyNutrition(totals, 1 / servings))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end', marginTop: '15px' }}>
+            <button
+              onClick={() => setDraft(null)}
+              disabled={isSaving}
+              style={{ ...buttonStyle('#f5f5f5'), color: '#666', border: '1px solid #ddd' }}
+            >
+              Cancel
+            </button>
+            <button onClick={handleSave} disabled={!canSave} style={buttonStyle('#28a745', canSave)}>
+              {isSaving ? '⏳ Saving...' : '💾 Save Recipe'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Recipe List */}
+      {isLoading ? (
+        <div style={{ padding: '20px', textAlign: 'center', color: '#6c757d' }}>
+          ⏳ Loading recipes...
+        </div>
+      ) : recipes.length === 0 ? (
+        <div style={{ padding: '20px', textAlign: 'center', color: '#6c757d' }}>
+          No recipes yet. Build one from your ingredients and log it like any other food.
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+          {recipes.map(recipe => (
+            <div
+              key={recipe.id}
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                gap: '10px',
+                padding: '12px',
+                backgroundColor: 'white',
+                border: '1px solid #d6c8f0',
+                borderRadius: '6px'
+              }}
+            >
+              <div>
+                <div style={{ fontWeight: 'bold', color: '#495057' }}>{recipe.name}</div>
+                <div style={{ fontSize: '13px', color: '#6c757d' }}>
+                  {recipe.servings} {recipe.servings === 1 ? 'serving' : 'servings'} • {recipe.ingredients.length} ingredients •
+                  {' '}per serving: {formatNutrition(recipe.perServing)}
+                </div>
+              </div>
+              <div style={{ display: 'flex', gap: '6px', flexShrink: 0 }}>
+                {onLogServing && (
+                  <button onClick={() => onLogServing(recipe)} style={buttonStyle('#007bff')}>
+                    📝 Log 1 serving
+                  </button>
+                )}
+                <button onClick={() => setDraft(toDraft(recipe))} style={buttonStyle('#6f42c1')}>
+                  ✏️ Edit
+                </button>
+                <button onClick={() => handleDelete(recipe.id)} style={buttonStyle('#dc3545')}>
+                  🗑️
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default RecipeManager;
@@ -0,0 +1,91 @@
+import { Food } from "../services/apiClient";
+
+interface SearchResultsListProps {
+  term: string;
+  foods: Food[];
+  total: number;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  selectedName?: string;
+  onSelect: (food: Food) => void;
+  onLoadMore: () => void;
+}
+
+const SearchResultsList: React.FC<SearchResultsListProps> = ({
+  term,
+  foods,
+  total,
+  hasMore,
+  isLoadingMore,
+  selectedName,
+  onSelect,
+  onLoadMore
+}) => {
+  return (
+    <div style={{
+      marginTop: '15px',
+      padding: '12px',
+      backgroundColor: 'white',
+      borderRadius: '6px',
+      border: '1px solid #c3e6cb'
+    }}>
+      <div style={{ fontSize: '14px', color: '#6c757d', marginBottom: '8px' }}>
+        Showing {foods.length} of {total} matches for "{term}"
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+        {foods.map(food => {
+          const isSelected = food.name === selectedName;
+
+          return (
+            <button
+              key={`${food.type ?? 'food'}-${food.id}`}
+              onClick={() => onSelect(food)}
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                padding: '8px 12px',
+                backgroundColor: isSelected ? '#d4edda' : 'white',
+                border: '1px solid #e9ecef',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '14px',
+                textAlign: 'left'
+              }}
+            >
+              <span style={{ fontWeight: isSelected ? 'bold' : 'normal', color: '#495057' }}>
+                {food.name}
+                {food.type === 'recipe' && (
+                  <span style={{ marginLeft: '8px', fontSize: '11px', color: '#6f42c1' }}>recipe</span>
+                )}
+              </span>
+              <span style={{ color: '#6c757d' }}>{food.calories} cal/100g</span>
+            </button>
+          );
+        })}
+      </div>
+
+      {hasMore && (
+        <button
+          onClick={onLoadMore}
+          disabled={isLoadingMore}
+          style={{
+            marginTop: '10px',
+            width: '100%',
+            padding: '8px',
+            backgroundColor: '#f5f5f5',
+            color: '#155724',
+            border: '1px solid #c3e6cb',
+            borderRadius: '4px',
+            cursor: isLoadingMore ? 'not-allowed' : 'pointer',
+            fontSize: '14px'
+          }}
+        >
+          {isLoadingMore ? '⏳ Loading...' : 'Load more results'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default SearchResultsList;
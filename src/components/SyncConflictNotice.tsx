@@ -0,0 +1,49 @@
+import { useSyncStatus } from '../hooks/useSyncStatus';
+
+// Lists offline changes the server refused when they were synced
+const SyncConflictNotice: React.FC = () => {
+  const { conflicts, dismissConflicts } = useSyncStatus();
+
+  if (conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div style={{
+      marginBottom: '20px',
+      padding: '12px',
+      borderRadius: '6px',
+      backgroundColor: '#fff3cd',
+      border: '1px solid #ffeaa7',
+      color: '#856404',
+      fontSize: '14px'
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '6px' }}>
+        <strong>⚠️ Some offline changes weren't saved</strong>
+        <button
+          onClick={dismissConflicts}
+          style={{
+            padding: '4px 8px',
+            fontSize: '12px',
+            backgroundColor: '#856404',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer'
+          }}
+        >
+          ✕ Dismiss
+        </button>
+      </div>
+      <ul style={{ margin: 0, paddingLeft: '20px' }}>
+        {conflicts.map((conflict, index) => (
+          <li key={index}>
+            {conflict.description} wasn't saved: {conflict.reason}.
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SyncConflictNotice;
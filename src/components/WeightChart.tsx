@@ -0,0 +1,92 @@
+import { WeightEntry } from "../services/apiClient";
+import { parseLocalDate } from "../utils/dates";
+import { TrendPoint, WeightUnit, fromKg } from "../utils/weight";
+
+interface WeightChartProps {
+  entries: WeightEntry[]; // sorted by date
+  trend: TrendPoint[];
+  weightUnit: WeightUnit;
+  height?: number;
+}
+
+const CHART_WIDTH = 600;
+const PADDING = { top: 15, right: 15, bottom: 30, left: 45 };
+
+const WeightChart: React.FC<WeightChartProps> = ({ entries, trend, weightUnit, height = 220 }) => {
+  if (entries.length === 0) return null;
+
+  const times = entries.map(entry => parseLocalDate(entry.date).getTime());
+  const weights = [...entries.map(entry => entry.weightKg), ...trend.map(point => point.weightKg)]
+    .map(weightKg => fromKg(weightKg, weightUnit));
+
+  const minTime = Math.min(...times);
+  const maxTime = Math.max(...times);
+  // Pad the weight axis so points don't sit on the chart edges
+  const minWeight = Math.floor(Math.min(...weights) - 1);
+  const maxWeight = Math.ceil(Math.max(...weights) + 1);
+
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+
+  const x = (date: string) => {
+    if (maxTime === minTime) return PADDING.left + plotWidth / 2;
+    return PADDING.left + ((parseLocalDate(date).getTime() - minTime) / (maxTime - minTime)) * plotWidth;
+  };
+  const y = (weightKg: number) =>
+    PADDING.top + (1 - (fromKg(weightKg, weightUnit) - minWeight) / (maxWeight - minWeight)) * plotHeight;
+
+  const yTicks = [0, 0.25, 0.5, 0.75, 1].map(fraction => minWeight + fraction * (maxWeight - minWeight));
+  const formatDate = (date: string) =>
+    parseLocalDate(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART_WIDTH} ${height}`}
+      style={{ width: '100%', height: 'auto', backgroundColor: 'white', borderRadius: '6px', border: '1px solid #90caf9' }}
+      role="img"
+      aria-label="Weight history chart"
+    >
+      {/* Horizontal grid lines with weight labels */}
+      {yTicks.map(tick => {
+        const tickY = PADDING.top + (1 - (tick - minWeight) / (maxWeight - minWeight)) * plotHeight;
+        return (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={CHART_WIDTH - PADDING.right} y1={tickY} y2={tickY} stroke="#e9ecef" />
+            <text x={PADDING.left - 6} y={tickY + 4} textAnchor="end" fontSize="11" fill="#6c757d">
+              {tick.toFixed(1)}
+            </text>
+          </g>
+        );
+      })}
+
+      {/* First and last date labels */}
+      <text x={PADDING.left} y={height - 8} fontSize="11" fill="#6c757d">
+        {formatDate(entries[0].date)}
+      </text>
+      {entries.length > 1 && (
+        <text x={CHART_WIDTH - PADDING.right} y={height - 8} textAnchor="end" fontSize="11" fill="#6c757d">
+          {formatDate(entries[entries.length - 1].date)}
+        </text>
+      )}
+
+      {/* Moving-average trend line */}
+      {trend.length > 1 && (
+        <polyline
+          points={trend.map(point => `${x(point.date)},${y(point.weightKg)}`).join(' ')}
+          fill="none"
+          stroke="#1565c0"
+          strokeWidth="2.5"
+        />
+      )}
+
+      {/* Individual weigh-ins */}
+      {entries.map(entry => (
+        <circle key={entry.id} cx={x(entry.date)} cy={y(entry.weightKg)} r="3.5" fill="#90caf9" stroke="#1976d2">
+          <title>{`${formatDate(entry.date)}: ${fromKg(entry.weightKg, weightUnit).toFixed(1)} ${weightUnit}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+export default WeightChart;
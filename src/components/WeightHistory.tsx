@@ -0,0 +1,217 @@
+import { useState, useEffect, useImperativeHandle, forwardRef } from "react";
+import { useApiClient } from "../hooks/useApiClient";
+import { useLatest } from "../hooks/useLatest";
+import { useSyncStatus } from "../hooks/useSyncStatus";
+import { WeightEntry } from "../services/apiClient";
+import { addDays, formatDisplayDate, getTodayDateString } from "../utils/dates";
+import { WeightUnit, calculateMovingAverage, calculateWeeklyRate, fromKg } from "../utils/weight";
+import WeightChart from "./WeightChart";
+
+interface WeightHistoryProps {
+  weightUnit: WeightUnit;
+  onError?: (error: unknown) => void;
+  onLatestWeightLoaded?: (weightKg: number) => void;
+}
+
+// Interface for the ref methods that parent can call
+export interface WeightHistoryRef {
+  recordWeight: (date: string, weightKg: number) => Promise<boolean>;
+  reload: () => void;
+}
+
+const RANGE_OPTIONS = [30, 90, 180, 365];
+const TREND_WINDOW_DAYS = 7;
+
+const WeightHistory = forwardRef<WeightHistoryRef, WeightHistoryProps>(({ weightUnit, onError, onLatestWeightLoaded }, ref) => {
+  const apiClient = useApiClient();
+  const [entries, setEntries] = useState<WeightEntry[]>([]);
+  const [rangeDays, setRangeDays] = useState(90);
+  const [isLoading, setIsLoading] = useState(true);
+  const [reloadVersion, setReloadVersion] = useState(0);
+  const { lastSyncedAt } = useSyncStatus();
+  const onErrorRef = useLatest(onError);
+  const onLatestWeightLoadedRef = useLatest(onLatestWeightLoaded);
+
+  // Load weigh-ins for the selected range, again after offline changes have synced
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadEntries = async () => {
+      try {
+        setIsLoading(true);
+        const today = getTodayDateString();
+        const results = await apiClient.getWeightEntries(addDays(today, -(rangeDays - 1)), today);
+        if (!cancelled) {
+          setEntries(results);
+          if (results.length > 0) {
+            onLatestWeightLoadedRef.current?.(results[results.length - 1].weightKg);
+          }
+        }
+      } catch (error) {
+        if (!cancelled) {
+          onErrorRef.current?.(error);
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadEntries();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [apiClient, onErrorRef, onLatestWeightLoadedRef, rangeDays, lastSyncedAt, reloadVersion]);
+
+  // Save a weigh-in, replacing any existing one for the same day
+  const recordWeight = async (date: string, weightKg: number): Promise<boolean> => {
+    try {
+      const saved = await apiClient.saveWeightEntry(date, weightKg);
+      setEntries(prev =>
+        [...prev.filter(entry => entry.date !== saved.date), saved].sort((a, b) => a.date.localeCompare(b.date))
+      );
+      return true;
+    } catch (error) {
+      onError?.(error);
+      return false;
+    }
+  };
+
+  const removeEntry = async (id: number) => {
+    try {
+      await apiClient.deleteWeightEntry(id);
+      setEntries(prev => prev.filter(entry => entry.id !== id));
+    } catch (error) {
+      onError?.(error);
+    }
+  };
+
+  // Expose methods to parent component via ref
+  useImperativeHandle(ref, () => ({
+    recordWeight,
+    reload: () => setReloadVersion(version => version + 1)
+  }));
+
+  const trend = calculateMovingAverage(entries, TREND_WINDOW_DAYS);
+  const weeklyRateKg = calculateWeeklyRate(entries);
+  const latestTrend = trend.length > 0 ? trend[trend.length - 1] : null;
+
+  const formatWeight = (weightKg: number) => `${fromKg(weightKg, weightUnit).toFixed(1)} ${weightUnit}`;
+  const formatRate = (rateKg: number) => {
+    const rate = fromKg(rateKg, weightUnit);
+    return `${rate > 0 ? '+' : ''}${rate.toFixed(2)} ${weightUnit}/week`;
+  };
+
+  return (
+    <div style={{ marginTop: '20px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px' }}>
+        <h3 style={{ margin: 0, color: '#1565c0', fontSize: '18px' }}>
+          📈 Weight History
+        </h3>
+        <div style={{ display: 'flex', gap: '6px' }}>
+          {RANGE_OPTIONS.map(days => (
+            <button
+              key={days}
+              onClick={() => setRangeDays(days)}
+              style={{
+                padding: '6px 10px',
+                backgroundColor: rangeDays === days ? '#1976d2' : '#f5f5f5',
+                color: rangeDays === days ? 'white' : '#666',
+                border: '1px solid #ddd',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '12px'
+              }}
+            >
+              {days}d
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div style={{ padding: '20px', textAlign: 'center', color: '#6c757d' }}>
+          ⏳ Loading weight history...
+        </div>
+      ) : entries.length === 0 ? (
+        <div style={{ padding: '20px', textAlign: 'center', color: '#6c757d' }}>
+          No weigh-ins in the last {rangeDays} days. Save your weight above to start tracking your trend.
+        </div>
+      ) : (
+        <>
+          {/* Trend Summary */}
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(150px, 1fr))', gap: '10px', marginBottom: '12px' }}>
+            <div style={{ padding: '10px', backgroundColor: '#e3f2fd', borderRadius: '6px', textAlign: 'center' }}>
+              <div style={{ fontSize: '12px', color: '#6c757d' }}>Latest weigh-in</div>
+              <div style={{ fontSize: '18px', fontWeight: 'bold', color: '#1565c0' }}>
+                {formatWeight(entries[entries.length - 1].weightKg)}
+              </div>
+            </div>
+            <div style={{ padding: '10px', backgroundColor: '#e3f2fd', borderRadius: '6px', textAlign: 'center' }}>
+              <div style={{ fontSize: '12px', color: '#6c757d' }}>{TREND_WINDOW_DAYS}-day average</div>
+              <div style={{ fontSize: '18px', fontWeight: 'bold', color: '#1565c0' }}>
+                {latestTrend ? formatWeight(latestTrend.weightKg) : '—'}
+              </div>
+            </div>
+            <div style={{ padding: '10px', backgroundColor: '#e3f2fd', borderRadius: '6px', textAlign: 'center' }}>
+              <div style={{ fontSize: '12px', color: '#6c757d' }}>Weekly change</div>
+              <div style={{ fontSize: '18px', fontWeight: 'bold', color: '#1565c0' }}>
+                {weeklyRateKg !== null ? formatRate(weeklyRateKg) : '—'}
+              </div>
+            </div>
+          </div>
+
+          <WeightChart entries={entries} trend={trend} weightUnit={weightUnit} />
+
+          {/* Recent Weigh-ins */}
+          <div style={{ marginTop: '12px', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+            {entries.slice(-5).reverse().map(entry => (
+              <div
+                key={entry.id}
+                style={{
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  alignItems: 'center',
+                  padding: '8px 12px',
+                  backgroundColor: 'white',
+                  border: '1px solid #e3f2fd',
+                  borderRadius: '4px',
+                  fontSize: '14px'
+                }}
+              >
+                <span style={{ color: '#6c757d' }}>
+                  {formatDisplayDate(entry.date)}
+                  {entry.pendingSync && (
+                    <span style={{ marginLeft: '8px', fontSize: '11px', color: '#856404' }}>⏳ not synced</span>
+                  )}
+                </span>
+                <span style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+                  <strong style={{ color: '#495057' }}>{formatWeight(entry.weightKg)}</strong>
+                  <button
+                    onClick={() => removeEntry(entry.id)}
+                    style={{
+                      backgroundColor: 'transparent',
+                      border: 'none',
+                      color: '#dc3545',
+                      cursor: 'pointer',
+                      fontSize: '14px'
+                    }}
+                    title="Remove weigh-in"
+                  >
+                    🗑️
+                  </button>
+                </span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+});
+
+WeightHistory.displayName = 'WeightHistory';
+
+export default WeightHistory;
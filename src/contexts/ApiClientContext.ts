@@ -0,0 +1,5 @@
+import { createContext } from 'react';
+import { ApiClient } from '../services/apiClient';
+
+// The backend the app talks to; main.tsx provides HttpApiClient, or MockApiClient when VITE_API_MOCK is set
+export const ApiClientContext = createContext<ApiClient | null>(null);
@@ -0,0 +1,11 @@
+import { useContext } from 'react';
+import { ApiClientContext } from '../contexts/ApiClientContext';
+import { ApiClient } from '../services/apiClient';
+
+export const useApiClient = (): ApiClient => {
+  const apiClient = useContext(ApiClientContext);
+  if (!apiClient) {
+    throw new Error('useApiClient must be used inside an ApiClientContext.Provider');
+  }
+  return apiClient;
+};
@@ -0,0 +1,11 @@
+import { MutableRefObject, useEffect, useRef } from 'react';
+
+// A ref that always holds the latest value, so an effect can call a parent's callback
+// without re-running every time the parent renders a new function
+export const useLatest = <T>(value: T): MutableRefObject<T> => {
+  const ref = useRef(value);
+  useEffect(() => {
+    ref.current = value;
+  });
+  return ref;
+};
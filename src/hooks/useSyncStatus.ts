@@ -0,0 +1,17 @@
+import { useState, useEffect } from 'react';
+import { SyncStatus } from '../services/syncQueue';
+import { useApiClient } from './useApiClient';
+
+// Connectivity and offline sync state, updated as writes are queued and replayed
+export const useSyncStatus = () => {
+  const apiClient = useApiClient();
+  const [status, setStatus] = useState<SyncStatus>(() => apiClient.getSyncStatus());
+
+  useEffect(() => apiClient.subscribeToSyncStatus(setStatus), [apiClient]);
+
+  return {
+    ...status,
+    syncNow: () => apiClient.syncNow(),
+    dismissConflicts: () => apiClient.dismissSyncConflicts()
+  };
+};
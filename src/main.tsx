@@ -3,6 +3,9 @@ import ReactDOM from "react-dom/client";
 import { Authenticator } from '@aws-amplify/ui-react';
 import { ChakraProvider, defaultSystem } from "@chakra-ui/react";
 import App from "./App.tsx";
+import { ApiClientContext } from "./contexts/ApiClientContext";
+import { HttpApiClient } from "./services/apiClient";
+import { MockApiClient } from "./services/mockApiClient";
 import { Amplify } from "aws-amplify";
 import { parseAmplifyConfig } from "aws-amplify/utils";
 import outputs from "../amplify_outputs.json";
@@ -14,11 +17,18 @@ const amplifyConfig = parseAmplifyConfig(outputs);
 // Configure Amplify with auto-generated configuration
 Amplify.configure(amplifyConfig);
 
+// VITE_API_MOCK=true runs the app against sample data kept in memory instead of the API
+const apiClient = import.meta.env.VITE_API_MOCK === 'true'
+  ? new MockApiClient({ latencyMs: 300 })
+  : HttpApiClient.getInstance();
+
 ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
     <ChakraProvider value={defaultSystem}>
       <Authenticator>
-        <App />
+        <ApiClientContext.Provider value={apiClient}>
+          <App />
+        </ApiClientContext.Provider>
       </Authenticator>
     </ChakraProvider>
   </React.StrictMode>
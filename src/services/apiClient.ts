@@ -1,4 +1,15 @@
 import { fetchAuthSession } from 'aws-amplify/auth';
+import { toLocalDateString } from '../utils/dates';
+import { LruCache } from './lruCache';
+import { OfflineStore } from './offlineStore';
+import {
+  QueuedOperation,
+  SyncQueue,
+  SyncStatus,
+  applyPendingLogWrites,
+  applyPendingWeightWrites,
+  toPendingLogEntry
+} from './syncQueue';
 
 export interface ApiError {
   code: string;
@@ -7,6 +18,42 @@ export interface ApiError {
   retryable?: boolean;
 }
 
+// Body of a failed API response
+interface ApiErrorBody {
+  success: false;
+  error?: { code: string; message: string };
+}
+
+// True for the error a request rejects with after its AbortSignal fires
+export const isAbortError = (error: unknown): boolean =>
+  !!error && typeof error === 'object' && (error as ApiError).code === 'ABORTED';
+
+// True when a request failed because the server couldn't be reached
+export const isOfflineError = (error: unknown): boolean =>
+  !!error && typeof error === 'object' && (error as ApiError).code === 'NETWORK_ERROR';
+
+export type MicronutrientKey =
+  | 'fiber'
+  | 'sugar'
+  | 'saturatedFat'
+  | 'sodium'
+  | 'potassium'
+  | 'cholesterol'
+  | 'calcium'
+  | 'iron'
+  | 'vitaminA'
+  | 'vitaminC'
+  | 'vitaminD';
+
+// Per-100g (or per-portion) micronutrients; null or missing means the value is unknown
+export type Micronutrients = Partial<Record<MicronutrientKey, number | null>>;
+
+// A household measure for a food, e.g. 1 slice = 30g
+export interface FoodServing {
+  label: string;
+  grams: number;
+}
+
 export interface Food {
   id: number;
   name: string;
@@ -14,28 +61,271 @@ export interface Food {
   protein: number;
   carbs: number;
   fat: number;
+  isCustom?: boolean; // private food created by the current user
+  type?: 'food' | 'recipe';
+  servingSize?: number; // grams per serving, set for recipes
+  servings?: FoodServing[];
+  micronutrients?: Micronutrients; // per 100g
+  barcode?: string | null; // UPC/EAN as a GTIN
+}
+
+// One page of ranked search results
+export interface FoodSearchPage {
+  foods: Food[];
+  total: number; // matches across all pages
+  nextCursor: string | null; // pass back to load the next page
+}
+
+export interface FoodSearchOptions {
+  limit?: number; // 1-50, defaults to 20 on the server
+  cursor?: string | null;
+  signal?: AbortSignal; // cancels the request, e.g. when a newer search supersedes it
+}
+
+// Per-100g values for a user-created food
+export type CustomFoodInput = Omit<Food, 'id' | 'isCustom' | 'type' | 'servingSize'>;
+
+export type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snacks';
+
+export interface FoodLogEntry {
+  id: number;
+  name: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  portionSize: number; // grams
+  servingUnit: string; // 'g' or a FoodServing label
+  servingQuantity: number; // amount in servingUnit
+  loggedAt: string; // ISO timestamp
+  logDate: string; // YYYY-MM-DD in the user's local timezone
+  meal: MealType;
+  // Original per-100g basis, kept so the portion can be edited later
+  caloriesPer100g: number;
+  proteinPer100g: number;
+  carbsPer100g: number;
+  fatPer100g: number;
+  micronutrientsPer100g: Micronutrients;
+  // The food or recipe the entry was logged from; unset for entries typed in by hand or imported
+  foodId?: number | null;
+  recipeId?: number | null;
+  updatedAt: string; // ISO timestamp, sent back with offline edits to detect conflicting changes
+  pendingSync?: boolean; // saved on this device but not yet on the server
+}
+
+// Fields accepted when creating a log entry (calories/macros already scaled to the portion)
+export type FoodLogInput = Omit<
+  FoodLogEntry,
+  'id' | 'loggedAt' | 'logDate' | 'meal' | 'servingUnit' | 'servingQuantity' | 'micronutrientsPer100g' | 'updatedAt' | 'pendingSync'
+> & {
+  loggedAt?: string;
+  logDate?: string;
+  meal?: MealType;
+  servingUnit?: string;
+  servingQuantity?: number;
+  micronutrientsPer100g?: Micronutrients;
+};
+
+// The portion a food was last logged at
+export interface LoggedPortion {
+  portionSize: number; // grams
+  servingUnit: string;
+  servingQuantity: number;
+}
+
+// A favorite or recently logged food, offered before anything is typed into the search box
+export interface QuickAddFood {
+  food: Food;
+  isFavorite: boolean;
+  lastPortion: LoggedPortion | null; // null if it has never been logged from search or quick-add
+  lastLoggedAt: string | null; // ISO timestamp
+  recentLogCount: number; // entries in the last 90 days
+}
+
+export interface QuickAddFoods {
+  favorites: QuickAddFood[]; // most recently starred first
+  recent: QuickAddFood[]; // most recently logged first
+  frequent: QuickAddFood[]; // most often logged first
+}
+
+// Totals for a single day of the food log
+export interface DailyLogSummary {
+  date: string; // YYYY-MM-DD
+  entryCount: number;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+// A single dated weigh-in, always stored in kilograms
+export interface WeightEntry {
+  id: number;
+  date: string; // YYYY-MM-DD in the user's local timezone
+  weightKg: number;
+  pendingSync?: boolean; // saved on this device but not yet on the server
+}
+
+// Outcome of a bulk import; entries already in the log are skipped rather than duplicated
+export interface ImportResult {
+  imported: number;
+  skipped: number;
+}
+
+// Daily calorie and macro (grams) targets
+export interface DailyGoals {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+// Calories and macros for a recipe or one of its parts
+export interface NutritionTotals {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+export interface RecipeIngredient {
+  foodId: number;
+  name: string;
+  grams: number;
+  // Per-100g values of the ingredient food
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  micronutrients: Micronutrients;
+}
+
+export interface Recipe {
+  id: number;
+  name: string;
+  servings: number;
+  cookedWeightGrams: number;
+  ingredients: RecipeIngredient[];
+  totals: NutritionTotals;
+  per100g: NutritionTotals;
+  perServing: NutritionTotals;
+  micronutrientsPer100g: Micronutrients;
+}
+
+export interface RecipeInput {
+  name: string;
+  servings: number;
+  cookedWeightGrams: number;
+  ingredients: { foodId: number; grams: number }[];
+}
+
+// Everything the UI needs from the backend. Components get an implementation from ApiClientContext:
+// HttpApiClient talks to the API, MockApiClient keeps sample data in memory for demos and tests.
+export interface ApiClient {
+  searchFood(name: string, options?: FoodSearchOptions): Promise<FoodSearchPage>;
+  lookupBarcode(code: string): Promise<Food | null>;
+  createCustomFood(food: CustomFoodInput): Promise<Food>;
+  getQuickAddFoods(): Promise<QuickAddFoods>;
+  setFavorite(food: Food, isFavorite: boolean): Promise<void>;
+
+  getFoodLogs(date: string): Promise<FoodLogEntry[]>;
+  getFoodLogsInRange(from: string, to: string): Promise<FoodLogEntry[]>;
+  getFoodLogSummary(from: string, to: string): Promise<DailyLogSummary[]>;
+  createFoodLog(entry: FoodLogInput): Promise<FoodLogEntry>;
+  updateFoodLog(id: number, updates: Partial<FoodLogInput>): Promise<FoodLogEntry>;
+  deleteFoodLog(id: number): Promise<void>;
+  importFoodLogs(entries: FoodLogInput[]): Promise<ImportResult>;
+
+  getWeightEntries(from?: string, to?: string): Promise<WeightEntry[]>;
+  saveWeightEntry(date: string, weightKg: number): Promise<WeightEntry>;
+  deleteWeightEntry(id: number): Promise<void>;
+  importWeightEntries(entries: Omit<WeightEntry, 'id'>[]): Promise<number>;
+
+  getGoals(): Promise<DailyGoals | null>;
+  saveGoals(goals: DailyGoals): Promise<DailyGoals>;
+
+  getRecipes(): Promise<Recipe[]>;
+  createRecipe(recipe: RecipeInput): Promise<Recipe>;
+  updateRecipe(id: number, recipe: RecipeInput): Promise<Recipe>;
+  deleteRecipe(id: number): Promise<void>;
+
+  // Offline support: writes made without a connection are queued and replayed later
+  getSyncStatus(): SyncStatus;
+  subscribeToSyncStatus(listener: (status: SyncStatus) => void): () => void;
+  syncNow(): Promise<void>;
+  dismissSyncConflicts(): void;
+  clearOfflineData(): Promise<void>;
+}
+
+// Search results remembered for offline lookups
+interface RememberedFood {
+  key: string;
+  food: Food;
+  seenAt: number;
 }
 
-export class ApiClient {
-  private static instance: ApiClient;
+const MAX_REMEMBERED_FOODS = 500;
+const IMPORT_BATCH_SIZE = 500; // the most entries the server accepts per import request
+const WEIGHTS_CACHE_KEY = 'weights';
+
+// The server files each entry under the local day it's sent with; default to the day it was eaten here
+const withLogDate = (entry: FoodLogInput): FoodLogInput =>
+  entry.logDate ? entry : { ...entry, logDate: toLocalDateString(entry.loggedAt ? new Date(entry.loggedAt) : new Date()) };
+
+// Client-side stand-in for the server's ranking: exact, prefix, word start, then substring matches.
+// Returns -1 when the name doesn't match the lowercased term at all.
+export const rankFoodName = (name: string, term: string): number => {
+  const lowerName = name.toLowerCase();
+  if (lowerName === term) return 0;
+  if (lowerName.startsWith(term)) return 1;
+  if (lowerName.split(/[^a-z0-9]+/).some(word => word.startsWith(term))) return 2;
+  return lowerName.includes(term) ? 3 : -1;
+};
+
+export class HttpApiClient implements ApiClient {
+  private static instance: HttpApiClient;
   private readonly baseUrl: string;
   private readonly maxRetries = 3;
   private readonly retryDelay = 1000; // 1 second
 
+  // Recent search pages, so retyping a query doesn't hit the API again
+  private readonly searchCache = new LruCache<FoodSearchPage>(100, 5 * 60 * 1000);
+
+  // Food log and weight writes are queued here while offline and replayed once the server is reachable
+  private readonly offlineStore = new OfflineStore();
+  private readonly syncQueue = new SyncQueue(this.offlineStore);
+
+  // Log entries handed out so far, so an offline edit can be applied to the entry it was made on
+  private readonly knownLogEntries = new Map<number, FoodLogEntry>();
+  // Server ids of entries created offline, by temporary id, for writes queued while their create was in flight
+  private readonly syncedIds = new Map<number, number>();
+  private lastTempId = 0;
+
   constructor() {
     // API Configuration - Updated to use the correct CDK API Gateway endpoint
     this.baseUrl = import.meta.env.VITE_API_BASE_URL || 'https://iy0tyajsdj.execute-api.us-east-2.amazonaws.com/prod';
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => this.setConnectivity(true));
+      window.addEventListener('offline', () => this.setConnectivity(false));
+    }
   }
 
-  static getInstance(): ApiClient {
-    if (!ApiClient.instance) {
-      ApiClient.instance = new ApiClient();
+  static getInstance(): HttpApiClient {
+    if (!HttpApiClient.instance) {
+      HttpApiClient.instance = new HttpApiClient();
     }
-    return ApiClient.instance;
+    return HttpApiClient.instance;
   }
 
-  private async delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private async delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(resolve, ms);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+      }, { once: true });
+    });
   }
 
   private async getAuthHeaders(): Promise<Record<string, string>> {
@@ -54,12 +344,17 @@ export class ApiClient {
   }
 
   private handleApiError(error: unknown, operation: string): ApiError {
+    if (error && typeof error === 'object' && (error as Record<string, unknown>).name === 'AbortError') {
+      return { code: 'ABORTED', message: `${operation} was cancelled`, retryable: false };
+    }
+
     console.error(`API Error in ${operation}:`, error);
 
     if (error && typeof error === 'object') {
       const err = error as Record<string, unknown>;
       
-      if (err.name === 'TypeError' && err.message?.toString().includes('fetch')) {
+      // Chrome and Firefox mention fetch in the message, Safari reports "Load failed"
+      if (err.name === 'TypeError' && /fetch|load failed/i.test(err.message?.toString() || '')) {
         return {
           code: 'NETWORK_ERROR',
           message: 'Network error. Please check your connection and try again.',
@@ -69,6 +364,10 @@ export class ApiClient {
 
       if (typeof err.status === 'number') {
         const statusCode = err.status as number;
+        // Prefer the code and message from the API's error envelope when there is one
+        if (typeof err.code === 'string') {
+          return { code: err.code, message: String(err.message), statusCode, retryable: statusCode >= 500 };
+        }
         return {
           code: statusCode >= 500 ? 'SERVER_ERROR' : 'HTTP_ERROR',
           message: `HTTP ${statusCode}: Request failed`,
@@ -88,48 +387,674 @@ export class ApiClient {
   private async executeWithRetry<T>(
     operation: () => Promise<T>,
     operationName: string,
-    retryCount = 0
+    retryCount = 0,
+    signal?: AbortSignal
   ): Promise<T> {
     try {
       return await operation();
     } catch (error) {
       const apiError = this.handleApiError(error, operationName);
+      // Retrying can't help while the browser knows it has no connection
+      const knownOffline = apiError.code === 'NETWORK_ERROR' && typeof navigator !== 'undefined' && !navigator.onLine;
       
-      if (apiError.retryable && retryCount < this.maxRetries) {
+      if (apiError.retryable && retryCount < this.maxRetries && !signal?.aborted && !knownOffline) {
         console.log(`Retrying ${operationName} (attempt ${retryCount + 1}/${this.maxRetries})`);
-        await this.delay(this.retryDelay * Math.pow(2, retryCount));
-        return this.executeWithRetry(operation, operationName, retryCount + 1);
+        try {
+          await this.delay(this.retryDelay * Math.pow(2, retryCount), signal);
+        } catch (delayError) {
+          throw this.handleApiError(delayError, operationName);
+        }
+        return this.executeWithRetry(operation, operationName, retryCount + 1, signal);
       }
       
       throw apiError;
     }
   }
 
+  // Search results include the user's own foods and recipes, so drop cached pages when those change
+  private invalidateSearchCache(): void {
+    this.searchCache.clear();
+  }
+
   private async makeRequest<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
     const headers = await this.getAuthHeaders();
-    const response = await fetch(`${this.baseUrl}${endpoint}`, {
-      ...options,
-      headers: { ...headers, ...options.headers },
-    });
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${endpoint}`, {
+        ...options,
+        headers: { ...headers, ...options.headers },
+      });
+    } catch (error) {
+      // fetch rejects with a TypeError when the server can't be reached at all
+      if (error instanceof TypeError) {
+        this.setConnectivity(false);
+      }
+      throw error;
+    }
+    this.setConnectivity(true);
 
     if (!response.ok) {
-      const error = new Error(`HTTP ${response.status}: ${response.statusText}`) as Error & { status: number };
+      // API errors carry { success: false, error: { code, message } }; gateway errors may not
+      const body = await response.json().catch(() => null) as ApiErrorBody | null;
+      const error = new Error(body?.error?.message || `HTTP ${response.status}: ${response.statusText}`) as
+        Error & { status: number; code?: string };
       error.status = response.status;
+      error.code = body?.error?.code;
       throw error;
     }
 
     return response.json();
   }
 
-  async searchFood(name: string): Promise<Food[]> {
+  private setConnectivity(isOnline: boolean): void {
+    const reconnected = isOnline && !this.syncQueue.getStatus().isOnline;
+    this.syncQueue.setOnline(isOnline);
+    if (reconnected) {
+      this.syncNow();
+    }
+  }
+
+  getSyncStatus(): SyncStatus {
+    return this.syncQueue.getStatus();
+  }
+
+  subscribeToSyncStatus(listener: (status: SyncStatus) => void): () => void {
+    return this.syncQueue.subscribe(listener);
+  }
+
+  dismissSyncConflicts(): void {
+    this.syncQueue.dismissConflicts();
+  }
+
+  // Replay writes made while offline; safe to call at any time
+  async syncNow(): Promise<void> {
+    try {
+      await this.syncQueue.replay(operation => this.replayWrite(operation));
+    } catch (error) {
+      console.error('Failed to sync offline changes:', error);
+    }
+  }
+
+  // Forget everything kept for offline use, e.g. when the user signs out
+  async clearOfflineData(): Promise<void> {
+    this.invalidateSearchCache();
+    this.knownLogEntries.clear();
+    this.syncedIds.clear();
+    await Promise.all([
+      this.syncQueue.clear(),
+      this.offlineStore.clear('cache'),
+      this.offlineStore.clear('foods')
+    ]);
+  }
+
+  // Negative, so it can never collide with an id assigned by the server
+  private nextTempId(): number {
+    this.lastTempId = Math.min(this.lastTempId - 1, -Date.now());
+    return this.lastTempId;
+  }
+
+  private resolveSyncedId(id: number): number {
+    if (id > 0) return id;
+
+    const syncedId = this.syncedIds.get(id);
+    if (syncedId === undefined) {
+      const error: ApiError = { code: 'HTTP_ERROR', message: 'Entry was never saved', statusCode: 404 };
+      throw error;
+    }
+    return syncedId;
+  }
+
+  private async ignoreNotFound(request: Promise<void>): Promise<void> {
+    try {
+      await request;
+    } catch (error) {
+      if ((error as ApiError).statusCode !== 404) {
+        throw error;
+      }
+    }
+  }
+
+  private async replayWrite(operation: QueuedOperation): Promise<void> {
+    switch (operation.kind) {
+      case 'createFoodLog': {
+        const saved = await this.sendFoodLogCreate(operation.input, operation.clientRequestId);
+        this.syncedIds.set(operation.tempId, saved.id);
+        return;
+      }
+      case 'updateFoodLog':
+        await this.sendFoodLogUpdate(this.resolveSyncedId(operation.id), operation.updates, operation.expectedUpdatedAt);
+        return;
+      case 'deleteFoodLog':
+        return this.ignoreNotFound(this.sendFoodLogDelete(this.resolveSyncedId(operation.id)));
+      case 'saveWeightEntry': {
+        const saved = await this.sendWeightEntry(operation.date, operation.weightKg);
+        this.syncedIds.set(operation.tempId, saved.id);
+        return;
+      }
+      case 'deleteWeightEntry':
+        return this.ignoreNotFound(this.sendWeightEntryDelete(this.resolveSyncedId(operation.id)));
+    }
+  }
+
+  // Writes go through the queue while it holds anything, so they reach the server in order
+  private async shouldQueueWrite(): Promise<boolean> {
+    await this.syncQueue.whenReady();
+    return this.syncQueue.pending.length > 0;
+  }
+
+  private async cacheGet<T>(key: string): Promise<T | undefined> {
+    try {
+      const record = await this.offlineStore.get<{ key: string; value: T }>('cache', key);
+      return record?.value;
+    } catch (error) {
+      console.warn('Failed to read offline cache:', error);
+      return undefined;
+    }
+  }
+
+  private async cacheSet(key: string, value: unknown): Promise<void> {
+    try {
+      await this.offlineStore.put('cache', { key, value });
+    } catch (error) {
+      console.warn('Failed to update offline cache:', error);
+    }
+  }
+
+  // Run a read and keep its result; when the server can't be reached, return the last kept result instead
+  private async withOfflineFallback<T>(cacheKey: string, read: () => Promise<T>): Promise<T> {
+    try {
+      const value = await read();
+      await this.cacheSet(cacheKey, value);
+      return value;
+    } catch (error) {
+      const cached = isOfflineError(error) ? await this.cacheGet<T>(cacheKey) : undefined;
+      if (cached === undefined) {
+        throw error;
+      }
+      return cached;
+    }
+  }
+
+  private async updateCachedLogs(date: string, update: (entries: FoodLogEntry[]) => FoodLogEntry[]): Promise<void> {
+    const cached = await this.cacheGet<FoodLogEntry[]>(`logs:${date}`);
+    if (cached) {
+      await this.cacheSet(`logs:${date}`, update(cached));
+    }
+  }
+
+  private async updateCachedWeights(update: (entries: WeightEntry[]) => WeightEntry[]): Promise<void> {
+    const cached = await this.cacheGet<WeightEntry[]>(WEIGHTS_CACHE_KEY);
+    if (cached) {
+      await this.cacheSet(WEIGHTS_CACHE_KEY, update(cached));
+    }
+  }
+
+  private rememberLogEntries(entries: FoodLogEntry[]): FoodLogEntry[] {
+    entries.forEach(entry => this.knownLogEntries.set(entry.id, entry));
+    return entries;
+  }
+
+  private async rememberFoods(foods: Food[]): Promise<void> {
+    if (foods.length === 0) return;
+
+    try {
+      const seenAt = Date.now();
+      await this.offlineStore.putAll('foods', foods.map(food => ({ key: `${food.type ?? 'food'}-${food.id}`, food, seenAt })));
+      await this.offlineStore.trim('foods', 'seenAt', MAX_REMEMBERED_FOODS);
+    } catch (error) {
+      console.warn('Failed to keep foods for offline search:', error);
+    }
+  }
+
+  private async getRememberedFoods(): Promise<Food[]> {
+    try {
+      const records = await this.offlineStore.getAll<RememberedFood>('foods');
+      return records.map(record => record.food);
+    } catch (error) {
+      console.warn('Failed to read foods kept for offline search:', error);
+      return [];
+    }
+  }
+
+  private async searchRememberedFoods(name: string, options: FoodSearchOptions): Promise<FoodSearchPage> {
+    // Offline results come back as a single page
+    if (options.cursor) {
+      return { foods: [], total: 0, nextCursor: null };
+    }
+
+    const term = name.trim().toLowerCase();
+    const matches = (await this.getRememberedFoods())
+      .map(food => ({ food, rank: rankFoodName(food.name, term) }))
+      .filter(match => match.rank >= 0)
+      .sort((a, b) => a.rank - b.rank || a.food.name.length - b.food.name.length || a.food.name.localeCompare(b.food.name))
+      .map(match => match.food);
+
+    return { foods: matches.slice(0, options.limit ?? 20), total: matches.length, nextCursor: null };
+  }
+
+  async searchFood(name: string, options: FoodSearchOptions = {}): Promise<FoodSearchPage> {
+    const cacheKey = JSON.stringify([name.trim().toLowerCase(), options.limit ?? null, options.cursor ?? null]);
+    const cached = this.searchCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    let page: FoodSearchPage;
+    try {
+      page = await this.executeWithRetry(async () => {
+        const params = new URLSearchParams({ name });
+        if (options.limit !== undefined) params.set('limit', String(options.limit));
+        if (options.cursor) params.set('cursor', options.cursor);
+
+        const result = await this.makeRequest<{ success: boolean; data: FoodSearchPage }>(
+          `/foods/search?${params.toString()}`,
+          { signal: options.signal }
+        );
+        return result.data;
+      }, 'searchFood', 0, options.signal);
+    } catch (error) {
+      if (isOfflineError(error)) {
+        return this.searchRememberedFoods(name, options);
+      }
+      throw error;
+    }
+
+    this.searchCache.set(cacheKey, page);
+    this.rememberFoods(page.foods);
+    return page;
+  }
+
+  // Find a packaged food by its UPC/EAN code; resolves to null when no food has that code
+  async lookupBarcode(code: string): Promise<Food | null> {
+    try {
+      return await this.executeWithRetry(async () => {
+        try {
+          const result = await this.makeRequest<{ success: boolean; data: Food }>(
+            `/foods/barcode/${encodeURIComponent(code)}`
+          );
+          return result?.data || null;
+        } catch (error) {
+          if ((error as { status?: number }).status === 404) {
+            return null;
+          }
+          throw error;
+        }
+      }, 'lookupBarcode');
+    } catch (error) {
+      const remembered = isOfflineError(error)
+        ? (await this.getRememberedFoods()).find(food => food.barcode === code)
+        : undefined;
+      if (!remembered) {
+        throw error;
+      }
+      return remembered;
+    }
+  }
+
+  async createCustomFood(food: CustomFoodInput): Promise<Food> {
+    const saved = await this.executeWithRetry(async () => {
+      const result = await this.makeRequest<{ success: boolean; data: Food }>('/foods', {
+        method: 'POST',
+        body: JSON.stringify(food)
+      });
+      return result.data;
+    }, 'createCustomFood');
+    this.invalidateSearchCache();
+    return saved;
+  }
+
+  async getQuickAddFoods(): Promise<QuickAddFoods> {
+    return this.withOfflineFallback('quick-add', () => this.executeWithRetry(async () => {
+      const result = await this.makeRequest<{ success: boolean; data: QuickAddFoods }>('/foods/quick-add');
+      return result.data;
+    }, 'getQuickAddFoods'));
+  }
+
+  // Star or unstar a food or recipe
+  async setFavorite(food: Food, isFavorite: boolean): Promise<void> {
+    await this.executeWithRetry(async () => {
+      await this.makeRequest<{ success: boolean }>(`/foods/favorites/${food.type ?? 'food'}/${food.id}`, {
+        method: isFavorite ? 'PUT' : 'DELETE'
+      });
+    }, 'setFavorite');
+  }
+
+  async getFoodLogs(date: string): Promise<FoodLogEntry[]> {
+    const entries = await this.withOfflineFallback(`logs:${date}`, () => this.executeWithRetry(async () => {
+      const result = await this.makeRequest<{ success: boolean; data: FoodLogEntry[] }>(
+        `/logs?date=${encodeURIComponent(date)}`
+      );
+      return result?.data || [];
+    }, 'getFoodLogs'));
+    await this.syncQueue.whenReady();
+    return this.rememberLogEntries(applyPendingLogWrites(entries, this.syncQueue.pending, date));
+  }
+
+  // Every entry in an inclusive date range of up to a year, oldest first
+  async getFoodLogsInRange(from: string, to: string): Promise<FoodLogEntry[]> {
     return this.executeWithRetry(async () => {
-      const result = await this.makeRequest<{ success: boolean; data: Food[] }>(
-        `/foods/search?name=${encodeURIComponent(name)}`
+      const result = await this.makeRequest<{ success: boolean; data: FoodLogEntry[] }>(
+        `/logs?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`
       );
-      return (result?.data as Food[]) || [];
-    }, 'searchFood');
+      return result?.data || [];
+    }, 'getFoodLogsInRange');
+  }
+
+  // Add many log entries, e.g. from an export archive; each needs loggedAt so duplicates can be detected
+  async importFoodLogs(entries: FoodLogInput[]): Promise<ImportResult> {
+    const total: ImportResult = { imported: 0, skipped: 0 };
+    for (let start = 0; start < entries.length; start += IMPORT_BATCH_SIZE) {
+      const batch = entries.slice(start, start + IMPORT_BATCH_SIZE).map(withLogDate);
+      const result = await this.executeWithRetry(async () => {
+        const response = await this.makeRequest<{ success: boolean; data: ImportResult }>('/logs/import', {
+          method: 'POST',
+          body: JSON.stringify({ entries: batch })
+        });
+        return response.data;
+      }, 'importFoodLogs');
+      total.imported += result.imported;
+      total.skipped += result.skipped;
+    }
+    return total;
+  }
+
+  async getFoodLogSummary(from: string, to: string): Promise<DailyLogSummary[]> {
+    return this.withOfflineFallback(`summary:${from}:${to}`, () => this.executeWithRetry(async () => {
+      const result = await this.makeRequest<{ success: boolean; data: DailyLogSummary[] }>(
+        `/logs/summary?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`
+      );
+      return result?.data || [];
+    }, 'getFoodLogSummary'));
+  }
+
+  // Every attempt sends the same clientRequestId, so the server saves the entry once even if an
+  // earlier attempt's response was lost
+  private async sendFoodLogCreate(entry: FoodLogInput, clientRequestId: string): Promise<FoodLogEntry> {
+    return this.executeWithRetry(async () => {
+      const result = await this.makeRequest<{ success: boolean; data: FoodLogEntry }>('/logs', {
+        method: 'POST',
+        body: JSON.stringify({ ...entry, clientRequestId })
+      });
+      return result.data;
+    }, 'createFoodLog');
+  }
+
+  private async sendFoodLogUpdate(id: number, updates: Partial<FoodLogInput>, expectedUpdatedAt?: string): Promise<FoodLogEntry> {
+    return this.executeWithRetry(async () => {
+      const result = await this.makeRequest<{ success: boolean; data: FoodLogEntry }>(`/logs/${id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ ...updates, expectedUpdatedAt })
+      });
+      return result.data;
+    }, 'updateFoodLog');
+  }
+
+  private async sendFoodLogDelete(id: number): Promise<void> {
+    return this.executeWithRetry(async () => {
+      await this.makeRequest<{ success: boolean }>(`/logs/${id}`, { method: 'DELETE' });
+    }, 'deleteFoodLog');
+  }
+
+  // Saved entries come back marked pendingSync when the server can't be reached
+  async createFoodLog(input: FoodLogInput): Promise<FoodLogEntry> {
+    const entry = withLogDate(input);
+    const clientRequestId = crypto.randomUUID();
+    if (!await this.shouldQueueWrite()) {
+      try {
+        const saved = await this.sendFoodLogCreate(entry, clientRequestId);
+        await this.updateCachedLogs(saved.logDate, entries => [saved, ...entries]);
+        return this.rememberLogEntries([saved])[0];
+      } catch (error) {
+        if (!isOfflineError(error)) throw error;
+      }
+    }
+
+    const tempId = this.nextTempId();
+    const write = await this.syncQueue.enqueue(
+      { kind: 'createFoodLog', tempId, clientRequestId, input: entry },
+      `Logging "${entry.name}"`
+    );
+    this.syncNow();
+    return this.rememberLogEntries([toPendingLogEntry(tempId, entry, write.queuedAt)])[0];
+  }
+
+  async updateFoodLog(id: number, updates: Partial<FoodLogInput>): Promise<FoodLogEntry> {
+    const base = this.knownLogEntries.get(id);
+
+    if (!await this.shouldQueueWrite()) {
+      try {
+        const saved = await this.sendFoodLogUpdate(this.syncedIds.get(id) ?? id, updates);
+        await this.updateCachedLogs(saved.logDate, entries => entries.map(item => (item.id === saved.id ? saved : item)));
+        return this.rememberLogEntries([saved])[0];
+      } catch (error) {
+        if (!isOfflineError(error)) throw error;
+      }
+    }
+
+    // Queued edits are applied to the entry as this device last saw it
+    if (!base) {
+      const error: ApiError = { code: 'HTTP_ERROR', message: 'Log entry not found', statusCode: 404 };
+      throw error;
+    }
+
+    // Fold edits into a write that hasn't been sent yet, keeping the version the first edit was based on
+    const pendingCreate = this.syncQueue.find('createFoodLog', operation => operation.tempId === id);
+    const pendingUpdate = this.syncQueue.find('updateFoodLog', operation => operation.id === id);
+    if (pendingCreate) {
+      await this.syncQueue.replace(pendingCreate.write, {
+        ...pendingCreate.operation,
+        input: { ...pendingCreate.operation.input, ...updates }
+      });
+    } else if (pendingUpdate) {
+      await this.syncQueue.replace(pendingUpdate.write, {
+        ...pendingUpdate.operation,
+        updates: { ...pendingUpdate.operation.updates, ...updates }
+      });
+    } else {
+      await this.syncQueue.enqueue(
+        { kind: 'updateFoodLog', id, updates, expectedUpdatedAt: id > 0 ? base.updatedAt : undefined },
+        `Your edit to "${base.name}"`
+      );
+    }
+    this.syncNow();
+
+    return this.rememberLogEntries([{ ...base, ...updates, pendingSync: true }])[0];
+  }
+
+  async deleteFoodLog(id: number): Promise<void> {
+    const base = this.knownLogEntries.get(id);
+
+    if (!await this.shouldQueueWrite()) {
+      try {
+        const serverId = this.syncedIds.get(id) ?? id;
+        await this.sendFoodLogDelete(serverId);
+        this.knownLogEntries.delete(id);
+        if (base) {
+          await this.updateCachedLogs(base.logDate, entries => entries.filter(item => item.id !== serverId));
+        }
+        return;
+      } catch (error) {
+        if (!isOfflineError(error)) throw error;
+      }
+    }
+
+    // An entry that never reached the server only needs its queued writes dropped
+    const pendingCreate = this.syncQueue.find('createFoodLog', operation => operation.tempId === id);
+    const pendingUpdate = this.syncQueue.find('updateFoodLog', operation => operation.id === id);
+    if (pendingUpdate) {
+      await this.syncQueue.remove(pendingUpdate.write);
+    }
+    if (pendingCreate) {
+      await this.syncQueue.remove(pendingCreate.write);
+    } else {
+      await this.syncQueue.enqueue({ kind: 'deleteFoodLog', id }, `Removing "${base?.name ?? 'an entry'}"`);
+      this.syncNow();
+    }
+    this.knownLogEntries.delete(id);
+  }
+
+  async getWeightEntries(from?: string, to?: string): Promise<WeightEntry[]> {
+    const params = new URLSearchParams();
+    if (from) params.set('from', from);
+    if (to) params.set('to', to);
+    const query = params.toString();
+    const inRange = (entry: WeightEntry) => (!from || entry.date >= from) && (!to || entry.date <= to);
+
+    let entries: WeightEntry[];
+    try {
+      entries = await this.executeWithRetry(async () => {
+        const result = await this.makeRequest<{ success: boolean; data: WeightEntry[] }>(
+          `/weights${query ? `?${query}` : ''}`
+        );
+        return result?.data || [];
+      }, 'getWeightEntries');
+
+      // Weigh-ins are kept in one list; replace the part this range covers
+      const cached = await this.cacheGet<WeightEntry[]>(WEIGHTS_CACHE_KEY) ?? [];
+      await this.cacheSet(WEIGHTS_CACHE_KEY, [...cached.filter(entry => !inRange(entry)), ...entries]);
+    } catch (error) {
+      const cached = isOfflineError(error) ? await this.cacheGet<WeightEntry[]>(WEIGHTS_CACHE_KEY) : undefined;
+      if (!cached) {
+        throw error;
+      }
+      entries = cached.filter(inRange);
+    }
+
+    await this.syncQueue.whenReady();
+    return applyPendingWeightWrites(entries, this.syncQueue.pending).filter(inRange);
+  }
+
+  private async sendWeightEntry(date: string, weightKg: number): Promise<WeightEntry> {
+    return this.executeWithRetry(async () => {
+      const result = await this.makeRequest<{ success: boolean; data: WeightEntry }>('/weights', {
+        method: 'POST',
+        body: JSON.stringify({ date, weightKg })
+      });
+      return result.data;
+    }, 'saveWeightEntry');
+  }
+
+  private async sendWeightEntryDelete(id: number): Promise<void> {
+    return this.executeWithRetry(async () => {
+      await this.makeRequest<{ success: boolean }>(`/weights/${id}`, { method: 'DELETE' });
+    }, 'deleteWeightEntry');
+  }
+
+  async saveWeightEntry(date: string, weightKg: number): Promise<WeightEntry> {
+    if (!await this.shouldQueueWrite()) {
+      try {
+        const saved = await this.sendWeightEntry(date, weightKg);
+        await this.updateCachedWeights(entries => [...entries.filter(entry => entry.date !== saved.date), saved]);
+        return saved;
+      } catch (error) {
+        if (!isOfflineError(error)) throw error;
+      }
+    }
+
+    // Only the latest weigh-in for a day matters
+    const pendingSave = this.syncQueue.find('saveWeightEntry', operation => operation.date === date);
+    if (pendingSave) {
+      await this.syncQueue.remove(pendingSave.write);
+    }
+
+    const tempId = this.nextTempId();
+    await this.syncQueue.enqueue({ kind: 'saveWeightEntry', tempId, date, weightKg }, `Your weigh-in for ${date}`);
+    this.syncNow();
+    return { id: tempId, date, weightKg, pendingSync: true };
   }
-}
 
-// Export a singleton instance
-export const apiClient = ApiClient.getInstance(); 
\ No newline at end of file
+  async deleteWeightEntry(id: number): Promise<void> {
+    if (!await this.shouldQueueWrite()) {
+      try {
+        const serverId = this.syncedIds.get(id) ?? id;
+        await this.sendWeightEntryDelete(serverId);
+        await this.updateCachedWeights(entries => entries.filter(entry => entry.id !== serverId));
+        return;
+      } catch (error) {
+        if (!isOfflineError(error)) throw error;
+      }
+    }
+
+    const pendingSave = this.syncQueue.find('saveWeightEntry', operation => operation.tempId === id);
+    if (pendingSave) {
+      await this.syncQueue.remove(pendingSave.write);
+    } else {
+      await this.syncQueue.enqueue({ kind: 'deleteWeightEntry', id }, 'Removing a weigh-in');
+      this.syncNow();
+    }
+  }
+
+  // Save many weigh-ins; each replaces any existing weigh-in for its day
+  async importWeightEntries(entries: Omit<WeightEntry, 'id'>[]): Promise<number> {
+    let imported = 0;
+    for (let start = 0; start < entries.length; start += IMPORT_BATCH_SIZE) {
+      const batch = entries.slice(start, start + IMPORT_BATCH_SIZE).map(({ date, weightKg }) => ({ date, weightKg }));
+      const result = await this.executeWithRetry(async () => {
+        const response = await this.makeRequest<{ success: boolean; data: { imported: number } }>('/weights/import', {
+          method: 'POST',
+          body: JSON.stringify({ entries: batch })
+        });
+        return response.data;
+      }, 'importWeightEntries');
+      imported += result.imported;
+    }
+    return imported;
+  }
+
+  async getGoals(): Promise<DailyGoals | null> {
+    return this.withOfflineFallback('goals', () => this.executeWithRetry(async () => {
+      const result = await this.makeRequest<{ success: boolean; data: DailyGoals | null }>('/goals');
+      return result?.data || null;
+    }, 'getGoals'));
+  }
+
+  async saveGoals(goals: DailyGoals): Promise<DailyGoals> {
+    const saved = await this.executeWithRetry(async () => {
+      const result = await this.makeRequest<{ success: boolean; data: DailyGoals }>('/goals', {
+        method: 'PUT',
+        body: JSON.stringify(goals)
+      });
+      return result.data;
+    }, 'saveGoals');
+    await this.cacheSet('goals', saved);
+    return saved;
+  }
+
+  async getRecipes(): Promise<Recipe[]> {
+    return this.withOfflineFallback('recipes', () => this.executeWithRetry(async () => {
+      const result = await this.makeRequest<{ success: boolean; data: Recipe[] }>('/recipes');
+      return result?.data || [];
+    }, 'getRecipes'));
+  }
+
+  async createRecipe(recipe: RecipeInput): Promise<Recipe> {
+    const saved = await this.executeWithRetry(async () => {
+      const result = await this.makeRequest<{ success: boolean; data: Recipe }>('/recipes', {
+        method: 'POST',
+        body: JSON.stringify(recipe)
+      });
+      return result.data;
+    }, 'createRecipe');
+    this.invalidateSearchCache();
+    return saved;
+  }
+
+  async updateRecipe(id: number, recipe: RecipeInput): Promise<Recipe> {
+    const saved = await this.executeWithRetry(async () => {
+      const result = await this.makeRequest<{ success: boolean; data: Recipe }>(`/recipes/${id}`, {
+        method: 'PUT',
+        body: JSON.stringify(recipe)
+      });
+      return result.data;
+    }, 'updateRecipe');
+    this.invalidateSearchCache();
+    return saved;
+  }
+
+  async deleteRecipe(id: number): Promise<void> {
+    await this.executeWithRetry(async () => {
+      await this.makeRequest<{ success: boolean }>(`/recipes/${id}`, { method: 'DELETE' });
+    }, 'deleteRecipe');
+    this.invalidateSearchCache();
+  }
+}
@@ -0,0 +1,46 @@
+interface CacheEntry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+// Small in-memory cache that evicts the least recently used entry once full.
+// Entries also expire after `ttlMs`, so stale results are refetched eventually.
+export class LruCache<V> {
+  private readonly entries = new Map<string, CacheEntry<V>>();
+
+  constructor(
+    private readonly maxEntries: number,
+    private readonly ttlMs: number
+  ) {}
+
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert so Map iteration order tracks recency
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+
+    if (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.entries.delete(oldestKey);
+      }
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
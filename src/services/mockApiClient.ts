@@ -0,0 +1,419 @@
+import {
+  ApiClient,
+  ApiError,
+  CustomFoodInput,
+  DailyGoals,
+  DailyLogSummary,
+  Food,
+  FoodLogEntry,
+  FoodLogInput,
+  FoodSearchOptions,
+  FoodSearchPage,
+  ImportResult,
+  Micronutrients,
+  QuickAddFood,
+  QuickAddFoods,
+  Recipe,
+  RecipeInput,
+  WeightEntry,
+  rankFoodName
+} from './apiClient';
+import { SAMPLE_FOODS } from './sampleFoods';
+import { SyncStatus } from './syncQueue';
+import { toLocalDateString } from '../utils/dates';
+import { MICRONUTRIENTS } from '../utils/micronutrients';
+import { multiplyNutrition, sumNutrition } from '../utils/nutrition';
+
+export interface MockApiClientOptions {
+  foods?: Food[]; // searchable foods, defaults to SAMPLE_FOODS
+  goals?: DailyGoals | null;
+  latencyMs?: number; // delay before each response, to exercise loading states
+}
+
+const QUICK_ADD_LIMIT = 10;
+const FREQUENT_DAYS = 90;
+
+const roundToTenth = (value: number) => Math.round(value * 10) / 10;
+
+// Favorites and log entries point at either a food or a recipe
+const foodKey = (type: Food['type'], id: number) => `${type ?? 'food'}-${id}`;
+
+const entryKey = (entry: FoodLogEntry): string | null => {
+  if (entry.recipeId) return foodKey('recipe', entry.recipeId);
+  return entry.foodId ? foodKey('food', entry.foodId) : null;
+};
+
+const notFound = (message: string): ApiError => ({ code: 'NOT_FOUND', message, statusCode: 404, retryable: false });
+
+const invalid = (message: string): ApiError => ({ code: 'VALIDATION_ERROR', message, statusCode: 400, retryable: false });
+
+// Per-100g micronutrients of a cooked recipe; unknown if any ingredient lacks the value
+const sumRecipeMicronutrients = (ingredients: Recipe['ingredients'], cookedWeightGrams: number): Micronutrients =>
+  Object.fromEntries(MICRONUTRIENTS.map(({ key }) => [
+    key,
+    ingredients.some(ingredient => ingredient.micronutrients[key] === null || ingredient.micronutrients[key] === undefined)
+      ? null
+      : roundToTenth(
+        ingredients.reduce((sum, ingredient) => sum + ((ingredient.micronutrients[key] ?? 0) * ingredient.grams) / 100, 0)
+          * (100 / cookedWeightGrams)
+      )
+  ]));
+
+// A recipe in the Food shape used by search results, as the server returns it
+const recipeToFood = (recipe: Recipe): Food => {
+  const servingSize = roundToTenth(recipe.cookedWeightGrams / recipe.servings);
+  return {
+    id: recipe.id,
+    name: recipe.name,
+    ...recipe.per100g,
+    isCustom: true,
+    type: 'recipe',
+    micronutrients: recipe.micronutrientsPer100g,
+    servingSize,
+    servings: [{ label: 'serving', grams: servingSize }]
+  };
+};
+
+// ApiClient that keeps everything in memory, seeded with sample foods. Used for demos and UI work
+// without a backend (VITE_API_MOCK=true); nothing is saved across page loads and it is always online.
+export class MockApiClient implements ApiClient {
+  private readonly foods: Food[];
+  private readonly latencyMs: number;
+  private goals: DailyGoals | null;
+  private logs: FoodLogEntry[] = [];
+  private weights: WeightEntry[] = [];
+  private recipes: Recipe[] = [];
+  private favoriteKeys: string[] = []; // most recently starred first
+  private nextId: number;
+  private readonly syncStatus: SyncStatus = {
+    isOnline: true,
+    isSyncing: false,
+    pendingCount: 0,
+    conflicts: [],
+    lastSyncedAt: null
+  };
+
+  constructor({ foods = SAMPLE_FOODS, goals = null, latencyMs = 0 }: MockApiClientOptions = {}) {
+    this.foods = foods.map(food => ({ type: 'food', ...food }));
+    this.goals = goals;
+    this.latencyMs = latencyMs;
+    this.nextId = Math.max(0, ...foods.map(food => food.id)) + 1;
+  }
+
+  // Resolve with a copy after the configured latency, so callers can't change the stored data
+  private respond<T>(value: T | (() => T), signal?: AbortSignal): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const aborted = () => reject({ code: 'ABORTED', message: 'Request was cancelled', retryable: false } as ApiError);
+      if (signal?.aborted) {
+        aborted();
+        return;
+      }
+
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        try {
+          resolve(structuredClone(value instanceof Function ? value() : value));
+        } catch (error) {
+          reject(error);
+        }
+      }, this.latencyMs);
+      const onAbort = () => {
+        clearTimeout(timer);
+        aborted();
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private findLog(id: number): FoodLogEntry {
+    const entry = this.logs.find(item => item.id === id);
+    if (!entry) {
+      throw notFound('Log entry not found');
+    }
+    return entry;
+  }
+
+  private toLogEntry(id: number, input: FoodLogInput): FoodLogEntry {
+    const loggedAt = input.loggedAt ?? new Date().toISOString();
+    const per100g = (value: number) => (value * 100) / input.portionSize;
+    return {
+      ...input,
+      id,
+      calories: Math.round(input.calories),
+      loggedAt,
+      logDate: input.logDate ?? toLocalDateString(new Date(loggedAt)),
+      meal: input.meal ?? 'snacks',
+      servingUnit: input.servingUnit ?? 'g',
+      servingQuantity: input.servingQuantity ?? input.portionSize,
+      caloriesPer100g: input.caloriesPer100g ?? per100g(input.calories),
+      proteinPer100g: input.proteinPer100g ?? per100g(input.protein),
+      carbsPer100g: input.carbsPer100g ?? per100g(input.carbs),
+      fatPer100g: input.fatPer100g ?? per100g(input.fat),
+      micronutrientsPer100g: input.micronutrientsPer100g ?? {},
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  private toRecipe(id: number, input: RecipeInput): Recipe {
+    if (input.ingredients.length === 0 || input.servings <= 0 || input.cookedWeightGrams <= 0) {
+      throw invalid('A recipe needs ingredients, servings and a cooked weight');
+    }
+
+    const ingredients = input.ingredients.map(({ foodId, grams }) => {
+      const food = this.foods.find(item => item.id === foodId);
+      if (!food) {
+        throw invalid(`Unknown ingredient food ${foodId}`);
+      }
+      const { name, calories, protein, carbs, fat, micronutrients = {} } = food;
+      return { foodId, name, grams, calories, protein, carbs, fat, micronutrients };
+    });
+
+    const totals = sumNutrition(ingredients.map(ingredient => multiplyNutrition(ingredient, ingredient.grams / 100)));
+    return {
+      id,
+      name: input.name,
+      servings: input.servings,
+      cookedWeightGrams: input.cookedWeightGrams,
+      ingredients,
+      totals,
+      per100g: multiplyNutrition(totals, 100 / input.cookedWeightGrams),
+      perServing: multiplyNutrition(totals, 1 / input.servings),
+      micronutrientsPer100g: sumRecipeMicronutrients(ingredients, input.cookedWeightGrams)
+    };
+  }
+
+  async searchFood(name: string, options: FoodSearchOptions = {}): Promise<FoodSearchPage> {
+    const term = name.trim().toLowerCase();
+    const limit = Math.min(Math.max(options.limit ?? 20, 1), 50);
+    const offset = Number(options.cursor ?? 0);
+
+    return this.respond(() => {
+      const matches = term
+        ? [...this.foods, ...this.recipes.map(recipeToFood)]
+          .map(food => ({ food, rank: rankFoodName(food.name, term) }))
+          .filter(match => match.rank >= 0)
+          .sort((a, b) => a.rank - b.rank || a.food.name.length - b.food.name.length || a.food.name.localeCompare(b.food.name))
+          .map(match => match.food)
+        : [];
+      const nextOffset = offset + limit;
+      return {
+        foods: matches.slice(offset, nextOffset),
+        total: matches.length,
+        nextCursor: nextOffset < matches.length ? String(nextOffset) : null
+      };
+    }, options.signal);
+  }
+
+  async lookupBarcode(code: string): Promise<Food | null> {
+    return this.respond(() => this.foods.find(food => food.barcode === code) ?? null);
+  }
+
+  async createCustomFood(food: CustomFoodInput): Promise<Food> {
+    const saved: Food = { ...food, id: this.nextId++, isCustom: true, type: 'food' };
+    this.foods.push(saved);
+    return this.respond(saved);
+  }
+
+  // Same lists the server builds from favorite_foods and the food log
+  async getQuickAddFoods(): Promise<QuickAddFoods> {
+    return this.respond(() => {
+      const foods = new Map([...this.foods, ...this.recipes.map(recipeToFood)].map(food => [foodKey(food.type, food.id), food]));
+      const frequentSince = new Date(Date.now() - FREQUENT_DAYS * 24 * 60 * 60 * 1000).toISOString();
+      const latestFirst = [...this.logs].sort((a, b) => b.loggedAt.localeCompare(a.loggedAt));
+
+      const toQuickAddFood = (key: string): QuickAddFood[] => {
+        const food = foods.get(key);
+        const entries = latestFirst.filter(entry => entryKey(entry) === key);
+        const lastUse = entries[0];
+        if (!food) {
+          return [];
+        }
+        return [{
+          food,
+          isFavorite: this.favoriteKeys.includes(key),
+          lastPortion: lastUse
+            ? { portionSize: lastUse.portionSize, servingUnit: lastUse.servingUnit, servingQuantity: lastUse.servingQuantity }
+            : null,
+          lastLoggedAt: lastUse?.loggedAt ?? null,
+          recentLogCount: entries.filter(entry => entry.loggedAt > frequentSince).length
+        }];
+      };
+
+      const usedKeys = new Set(latestFirst.map(entryKey).filter((key): key is string => key !== null));
+      const used = [...usedKeys].flatMap(toQuickAddFood);
+      return {
+        favorites: this.favoriteKeys.flatMap(toQuickAddFood),
+        recent: used.slice(0, QUICK_ADD_LIMIT),
+        frequent: used
+          .filter(item => item.recentLogCount >= 2)
+          .sort((a, b) => b.recentLogCount - a.recentLogCount)
+          .slice(0, QUICK_ADD_LIMIT)
+      };
+    });
+  }
+
+  async setFavorite(food: Food, isFavorite: boolean): Promise<void> {
+    const key = foodKey(food.type, food.id);
+    const exists = food.type === 'recipe'
+      ? this.recipes.some(recipe => recipe.id === food.id)
+      : this.foods.some(item => item.id === food.id);
+    if (!exists) {
+      throw notFound(food.type === 'recipe' ? 'Recipe not found' : 'Food not found');
+    }
+    this.favoriteKeys = this.favoriteKeys.filter(item => item !== key);
+    if (isFavorite) {
+      this.favoriteKeys.unshift(key);
+    }
+    return this.respond(undefined);
+  }
+
+  async getFoodLogs(date: string): Promise<FoodLogEntry[]> {
+    return this.respond(() => this.logs
+      .filter(entry => entry.logDate === date)
+      .sort((a, b) => b.loggedAt.localeCompare(a.loggedAt)));
+  }
+
+  async getFoodLogsInRange(from: string, to: string): Promise<FoodLogEntry[]> {
+    return this.respond(() => this.logs
+      .filter(entry => entry.logDate >= from && entry.logDate <= to)
+      .sort((a, b) => a.logDate.localeCompare(b.logDate) || a.loggedAt.localeCompare(b.loggedAt)));
+  }
+
+  async getFoodLogSummary(from: string, to: string): Promise<DailyLogSummary[]> {
+    return this.respond(() => {
+      const days = new Map<string, FoodLogEntry[]>();
+      for (const entry of this.logs) {
+        if (entry.logDate >= from && entry.logDate <= to) {
+          days.set(entry.logDate, [...(days.get(entry.logDate) ?? []), entry]);
+        }
+      }
+      return [...days.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([date, entries]) => ({ date, entryCount: entries.length, ...sumNutrition(entries) }));
+    });
+  }
+
+  async createFoodLog(entry: FoodLogInput): Promise<FoodLogEntry> {
+    const saved = this.toLogEntry(this.nextId++, entry);
+    this.logs.push(saved);
+    return this.respond(saved);
+  }
+
+  async updateFoodLog(id: number, updates: Partial<FoodLogInput>): Promise<FoodLogEntry> {
+    const saved = { ...this.findLog(id), ...updates, updatedAt: new Date().toISOString() };
+    this.logs = this.logs.map(entry => (entry.id === id ? saved : entry));
+    return this.respond(saved);
+  }
+
+  async deleteFoodLog(id: number): Promise<void> {
+    this.findLog(id);
+    this.logs = this.logs.filter(entry => entry.id !== id);
+    return this.respond(undefined);
+  }
+
+  // Like the server, skips entries matching an existing one's name, time and portion
+  async importFoodLogs(entries: FoodLogInput[]): Promise<ImportResult> {
+    let imported = 0;
+    for (const entry of entries) {
+      const duplicate = this.logs.some(item =>
+        item.name === entry.name && item.loggedAt === entry.loggedAt && item.portionSize === entry.portionSize
+      );
+      if (!duplicate) {
+        this.logs.push(this.toLogEntry(this.nextId++, entry));
+        imported += 1;
+      }
+    }
+    return this.respond({ imported, skipped: entries.length - imported });
+  }
+
+  async getWeightEntries(from?: string, to?: string): Promise<WeightEntry[]> {
+    return this.respond(() => this.weights
+      .filter(entry => (!from || entry.date >= from) && (!to || entry.date <= to))
+      .sort((a, b) => a.date.localeCompare(b.date)));
+  }
+
+  // Replaces any weigh-in already saved for the day
+  async saveWeightEntry(date: string, weightKg: number): Promise<WeightEntry> {
+    const existing = this.weights.find(entry => entry.date === date);
+    const saved: WeightEntry = { id: existing?.id ?? this.nextId++, date, weightKg };
+    this.weights = [...this.weights.filter(entry => entry.date !== date), saved];
+    return this.respond(saved);
+  }
+
+  async deleteWeightEntry(id: number): Promise<void> {
+    if (!this.weights.some(entry => entry.id === id)) {
+      throw notFound('Weight entry not found');
+    }
+    this.weights = this.weights.filter(entry => entry.id !== id);
+    return this.respond(undefined);
+  }
+
+  async importWeightEntries(entries: Omit<WeightEntry, 'id'>[]): Promise<number> {
+    for (const { date, weightKg } of entries) {
+      const existing = this.weights.find(entry => entry.date === date);
+      this.weights = [
+        ...this.weights.filter(entry => entry.date !== date),
+        { id: existing?.id ?? this.nextId++, date, weightKg }
+      ];
+    }
+    return this.respond(entries.length);
+  }
+
+  async getGoals(): Promise<DailyGoals | null> {
+    return this.respond(() => this.goals);
+  }
+
+  async saveGoals(goals: DailyGoals): Promise<DailyGoals> {
+    this.goals = { ...goals };
+    return this.respond(goals);
+  }
+
+  async getRecipes(): Promise<Recipe[]> {
+    return this.respond(() => [...this.recipes].sort((a, b) => a.name.localeCompare(b.name)));
+  }
+
+  async createRecipe(recipe: RecipeInput): Promise<Recipe> {
+    const saved = this.toRecipe(this.nextId++, recipe);
+    this.recipes.push(saved);
+    return this.respond(saved);
+  }
+
+  async updateRecipe(id: number, recipe: RecipeInput): Promise<Recipe> {
+    if (!this.recipes.some(item => item.id === id)) {
+      throw notFound('Recipe not found');
+    }
+    const saved = this.toRecipe(id, recipe);
+    this.recipes = this.recipes.map(item => (item.id === id ? saved : item));
+    return this.respond(saved);
+  }
+
+  async deleteRecipe(id: number): Promise<void> {
+    if (!this.recipes.some(item => item.id === id)) {
+      throw notFound('Recipe not found');
+    }
+    this.recipes = this.recipes.filter(item => item.id !== id);
+    return this.respond(undefined);
+  }
+
+  getSyncStatus(): SyncStatus {
+    return this.syncStatus;
+  }
+
+  subscribeToSyncStatus(): () => void {
+    return () => {
+      // The status never changes, so there is nothing to unsubscribe from
+    };
+  }
+
+  async syncNow(): Promise<void> {
+    // Every write is saved immediately, so nothing is ever queued
+  }
+
+  dismissSyncConflicts(): void {
+    // Writes can't conflict without a server
+  }
+
+  async clearOfflineData(): Promise<void> {
+    // Nothing is cached on the device apart from the in-memory data itself
+  }
+}
@@ -0,0 +1,114 @@
+const DB_NAME = 'calorie-tracker-offline';
+const DB_VERSION = 1;
+
+// syncQueue: writes waiting to be sent, cache: last server responses, foods: recently seen search results
+export type OfflineStoreName = 'syncQueue' | 'cache' | 'foods';
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Promise wrapper over the browser's IndexedDB for data that has to survive a reload while offline
+export class OfflineStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          db.createObjectStore('syncQueue', { keyPath: 'seq', autoIncrement: true });
+          db.createObjectStore('cache', { keyPath: 'key' });
+          db.createObjectStore('foods', { keyPath: 'key' }).createIndex('seenAt', 'seenAt');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+      // Let the next call try again, e.g. after a blocked upgrade
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async withStore<T>(
+    storeName: OfflineStoreName,
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.open();
+    return toPromise(action(db.transaction(storeName, mode).objectStore(storeName)));
+  }
+
+  get<T>(storeName: OfflineStoreName, key: IDBValidKey): Promise<T | undefined> {
+    return this.withStore(storeName, 'readonly', store => store.get(key));
+  }
+
+  getAll<T>(storeName: OfflineStoreName): Promise<T[]> {
+    return this.withStore(storeName, 'readonly', store => store.getAll());
+  }
+
+  add(storeName: OfflineStoreName, value: unknown): Promise<IDBValidKey> {
+    return this.withStore(storeName, 'readwrite', store => store.add(value));
+  }
+
+  put(storeName: OfflineStoreName, value: unknown): Promise<IDBValidKey> {
+    return this.withStore(storeName, 'readwrite', store => store.put(value));
+  }
+
+  async putAll(storeName: OfflineStoreName, values: unknown[]): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    values.forEach(value => store.put(value));
+
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async delete(storeName: OfflineStoreName, key: IDBValidKey): Promise<void> {
+    await this.withStore(storeName, 'readwrite', store => store.delete(key));
+  }
+
+  async clear(storeName: OfflineStoreName): Promise<void> {
+    await this.withStore(storeName, 'readwrite', store => store.clear());
+  }
+
+  // Delete the records with the lowest `indexName` values until at most `maxRecords` remain
+  async trim(storeName: OfflineStoreName, indexName: string, maxRecords: number): Promise<void> {
+    const excess = await this.withStore(storeName, 'readonly', store => store.count()) - maxRecords;
+    if (excess <= 0) return;
+
+    const db = await this.open();
+    const transaction = db.transaction(storeName, 'readwrite');
+    const request = transaction.objectStore(storeName).index(indexName).openCursor();
+    let deleted = 0;
+
+    await new Promise<void>((resolve, reject) => {
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor && deleted < excess) {
+          cursor.delete();
+          deleted += 1;
+          cursor.continue();
+        }
+      };
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
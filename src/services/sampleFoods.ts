@@ -0,0 +1,118 @@
+import { Food } from './apiClient';
+
+// Common foods with typical per-100g values, used by MockApiClient. Two packaged foods have barcodes
+// (UPC 036000291452 and 049000000443) so barcode lookup can be tried too.
+export const SAMPLE_FOODS: Food[] = [
+  {
+    id: 1, name: 'Apple', calories: 52, protein: 0.3, carbs: 13.8, fat: 0.2,
+    servings: [{ label: 'medium', grams: 182 }],
+    micronutrients: { fiber: 2.4, sugar: 10.4, potassium: 107, vitaminC: 4.6 }
+  },
+  {
+    id: 2, name: 'Banana', calories: 89, protein: 1.1, carbs: 22.8, fat: 0.3,
+    servings: [{ label: 'medium', grams: 118 }],
+    micronutrients: { fiber: 2.6, sugar: 12.2, potassium: 358, vitaminC: 8.7 }
+  },
+  {
+    id: 3, name: 'Chicken Breast (cooked)', calories: 165, protein: 31, carbs: 0, fat: 3.6,
+    servings: [{ label: 'breast', grams: 172 }],
+    micronutrients: { sodium: 74, potassium: 256, cholesterol: 85 }
+  },
+  {
+    id: 4, name: 'White Rice (cooked)', calories: 130, protein: 2.7, carbs: 28.2, fat: 0.3,
+    servings: [{ label: 'cup', grams: 158 }],
+    micronutrients: { fiber: 0.4, sodium: 1 }
+  },
+  {
+    id: 5, name: 'Broccoli', calories: 34, protein: 2.8, carbs: 6.6, fat: 0.4,
+    servings: [{ label: 'cup, chopped', grams: 91 }],
+    micronutrients: { fiber: 2.6, potassium: 316, calcium: 47, vitaminC: 89.2 }
+  },
+  {
+    id: 6, name: 'Egg', calories: 143, protein: 12.6, carbs: 0.7, fat: 9.5,
+    servings: [{ label: 'large', grams: 50 }],
+    micronutrients: { sodium: 142, cholesterol: 372, vitaminD: 2 }
+  },
+  {
+    id: 7, name: 'Whole Milk', calories: 61, protein: 3.2, carbs: 4.8, fat: 3.3,
+    servings: [{ label: 'cup', grams: 244 }],
+    micronutrients: { sugar: 5.1, calcium: 113, vitaminD: 1.3 }
+  },
+  {
+    id: 8, name: 'Rolled Oats', calories: 379, protein: 13.2, carbs: 67.7, fat: 6.5,
+    servings: [{ label: '1/2 cup', grams: 40 }],
+    micronutrients: { fiber: 10.1, iron: 4.3 }
+  },
+  {
+    id: 9, name: 'Salmon (cooked)', calories: 206, protein: 22.1, carbs: 0, fat: 12.4,
+    servings: [{ label: 'fillet', grams: 154 }],
+    micronutrients: { sodium: 61, cholesterol: 63, vitaminD: 13.1 }
+  },
+  {
+    id: 10, name: 'Greek Yogurt (plain, nonfat)', calories: 59, protein: 10.2, carbs: 3.6, fat: 0.4,
+    servings: [{ label: 'container', grams: 170 }],
+    micronutrients: { sugar: 3.2, calcium: 110 }
+  },
+  {
+    id: 11, name: 'Almonds', calories: 579, protein: 21.2, carbs: 21.6, fat: 49.9,
+    servings: [{ label: 'oz', grams: 28 }],
+    micronutrients: { fiber: 12.5, calcium: 269, iron: 3.7 }
+  },
+  {
+    id: 12, name: 'Whole Wheat Bread', calories: 252, protein: 12.4, carbs: 42.7, fat: 3.5,
+    servings: [{ label: 'slice', grams: 32 }],
+    micronutrients: { fiber: 6, sodium: 455 }
+  },
+  {
+    id: 13, name: 'Peanut Butter', calories: 588, protein: 25.1, carbs: 20, fat: 50.4,
+    servings: [{ label: 'tbsp', grams: 16 }],
+    micronutrients: { fiber: 6, saturatedFat: 10.3 }
+  },
+  {
+    id: 14, name: 'Avocado', calories: 160, protein: 2, carbs: 8.5, fat: 14.7,
+    servings: [{ label: 'medium', grams: 150 }],
+    micronutrients: { fiber: 6.7, potassium: 485 }
+  },
+  {
+    id: 15, name: 'Sweet Potato (baked)', calories: 90, protein: 2, carbs: 20.7, fat: 0.2,
+    servings: [{ label: 'medium', grams: 114 }],
+    micronutrients: { fiber: 3.3, vitaminA: 961 }
+  },
+  {
+    id: 16, name: 'Spinach', calories: 23, protein: 2.9, carbs: 3.6, fat: 0.4,
+    servings: [{ label: 'cup', grams: 30 }],
+    micronutrients: { calcium: 99, iron: 2.7, vitaminA: 469 }
+  },
+  {
+    id: 17, name: 'Cheddar Cheese', calories: 403, protein: 24.9, carbs: 1.3, fat: 33.1,
+    servings: [{ label: 'slice', grams: 28 }],
+    micronutrients: { saturatedFat: 21.1, sodium: 621, calcium: 721 }
+  },
+  {
+    id: 18, name: 'Olive Oil', calories: 884, protein: 0, carbs: 0, fat: 100,
+    servings: [{ label: 'tbsp', grams: 13.5 }],
+    micronutrients: { saturatedFat: 13.8 }
+  },
+  {
+    id: 19, name: 'Pasta (cooked)', calories: 158, protein: 5.8, carbs: 30.9, fat: 0.9,
+    servings: [{ label: 'cup', grams: 140 }],
+    micronutrients: { fiber: 1.8 }
+  },
+  {
+    id: 20, name: 'Orange Juice', calories: 45, protein: 0.7, carbs: 10.4, fat: 0.2,
+    servings: [{ label: 'cup', grams: 248 }],
+    micronutrients: { sugar: 8.4, potassium: 200, vitaminC: 50 }
+  },
+  {
+    id: 21, name: 'Chewy Granola Bar', calories: 471, protein: 10.1, carbs: 64.4, fat: 19.8,
+    servings: [{ label: 'bar', grams: 42 }],
+    micronutrients: { fiber: 5.3, sugar: 24.8 },
+    barcode: '0036000291452'
+  },
+  {
+    id: 22, name: 'Cola', calories: 42, protein: 0, carbs: 10.6, fat: 0,
+    servings: [{ label: 'can', grams: 368 }],
+    micronutrients: { sugar: 10.6, sodium: 4 },
+    barcode: '0049000000443'
+  }
+];
@@ -0,0 +1,249 @@
+import { ApiError, FoodLogEntry, FoodLogInput, WeightEntry } from './apiClient';
+import { OfflineStore } from './offlineStore';
+import { toLocalDateString } from '../utils/dates';
+
+// A write made while the server couldn't be reached. Entries created offline use a negative
+// temporary id until the server assigns a real one, and keep the clientRequestId of the first attempt.
+export type QueuedOperation =
+  | { kind: 'createFoodLog'; tempId: number; clientRequestId: string; input: FoodLogInput }
+  | { kind: 'updateFoodLog'; id: number; updates: Partial<FoodLogInput>; expectedUpdatedAt?: string }
+  | { kind: 'deleteFoodLog'; id: number }
+  | { kind: 'saveWeightEntry'; tempId: number; date: string; weightKg: number }
+  | { kind: 'deleteWeightEntry'; id: number };
+
+export interface QueuedWrite {
+  seq: number; // replay order
+  queuedAt: string; // ISO timestamp
+  description: string; // e.g. 'Edit to "Banana"', shown if the server rejects it
+  operation: QueuedOperation;
+}
+
+// An offline change the server refused when it was replayed
+export interface SyncConflict {
+  description: string;
+  reason: string;
+}
+
+export interface SyncStatus {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingCount: number;
+  conflicts: SyncConflict[];
+  lastSyncedAt: string | null; // ISO timestamp of the last replay that sent something
+}
+
+type OperationOfKind<K extends QueuedOperation['kind']> = Extract<QueuedOperation, { kind: K }>;
+
+// Why the server refused a replayed write, or null if it may succeed later and should stay queued
+const getRejectionReason = (error: unknown): string | null => {
+  const apiError = error as ApiError;
+  const statusCode = apiError?.statusCode;
+
+  if (statusCode === undefined) {
+    return apiError?.code === 'NETWORK_ERROR' || apiError?.code === 'ABORTED'
+      ? null
+      : apiError?.message || 'it could not be saved';
+  }
+  if (statusCode === 401 || statusCode === 403 || statusCode === 408 || statusCode === 429 || statusCode >= 500) {
+    return null;
+  }
+  if (statusCode === 409) {
+    return 'the entry was changed on another device, so that version was kept';
+  }
+  if (statusCode === 404) {
+    return 'the entry no longer exists';
+  }
+  return apiError.message;
+};
+
+// The entry a queued create will produce, shown in the log until it syncs
+export const toPendingLogEntry = (tempId: number, input: FoodLogInput, queuedAt: string): FoodLogEntry => ({
+  ...input,
+  id: tempId,
+  loggedAt: input.loggedAt ?? queuedAt,
+  logDate: input.logDate ?? toLocalDateString(new Date(input.loggedAt ?? queuedAt)),
+  meal: input.meal ?? 'snacks',
+  servingUnit: input.servingUnit ?? 'g',
+  servingQuantity: input.servingQuantity ?? input.portionSize,
+  micronutrientsPer100g: input.micronutrientsPer100g ?? {},
+  updatedAt: queuedAt,
+  pendingSync: true
+});
+
+// Apply queued food log writes for `date` on top of the entries last loaded from the server
+export const applyPendingLogWrites = (entries: FoodLogEntry[], writes: QueuedWrite[], date: string): FoodLogEntry[] =>
+  writes.reduce((result, { operation, queuedAt }) => {
+    switch (operation.kind) {
+      case 'createFoodLog': {
+        const entry = toPendingLogEntry(operation.tempId, operation.input, queuedAt);
+        return entry.logDate === date ? [entry, ...result] : result;
+      }
+      case 'updateFoodLog':
+        return result.map(entry =>
+          entry.id === operation.id ? { ...entry, ...operation.updates, pendingSync: true } : entry
+        );
+      case 'deleteFoodLog':
+        return result.filter(entry => entry.id !== operation.id);
+      default:
+        return result;
+    }
+  }, entries);
+
+// Apply queued weigh-in writes on top of the entries last loaded from the server
+export const applyPendingWeightWrites = (entries: WeightEntry[], writes: QueuedWrite[]): WeightEntry[] =>
+  writes
+    .reduce((result, { operation }) => {
+      switch (operation.kind) {
+        case 'saveWeightEntry':
+          return [
+            ...result.filter(entry => entry.date !== operation.date),
+            { id: operation.tempId, date: operation.date, weightKg: operation.weightKg, pendingSync: true }
+          ];
+        case 'deleteWeightEntry':
+          return result.filter(entry => entry.id !== operation.id);
+        default:
+          return result;
+      }
+    }, entries)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+// Writes waiting for the server, persisted in IndexedDB and replayed in the order they were made
+export class SyncQueue {
+  private writes: QueuedWrite[] = [];
+  private inFlight: QueuedWrite | null = null;
+  private readonly listeners = new Set<(status: SyncStatus) => void>();
+  private status: SyncStatus = {
+    isOnline: typeof navigator === 'undefined' || navigator.onLine,
+    isSyncing: false,
+    pendingCount: 0,
+    conflicts: [],
+    lastSyncedAt: null
+  };
+  private readonly ready: Promise<void>;
+
+  constructor(private readonly store: OfflineStore) {
+    this.ready = store.getAll<QueuedWrite>('syncQueue')
+      .then(writes => {
+        this.writes = writes.sort((a, b) => a.seq - b.seq);
+        this.updateStatus({});
+      })
+      .catch(error => {
+        console.warn('Failed to load unsynced changes:', error);
+      });
+  }
+
+  get pending(): QueuedWrite[] {
+    return this.writes;
+  }
+
+  getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  subscribe(listener: (status: SyncStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private updateStatus(changes: Partial<SyncStatus>): void {
+    this.status = { ...this.status, ...changes, pendingCount: this.writes.length };
+    this.listeners.forEach(listener => listener(this.status));
+  }
+
+  setOnline(isOnline: boolean): void {
+    if (this.status.isOnline !== isOnline) {
+      this.updateStatus({ isOnline });
+    }
+  }
+
+  dismissConflicts(): void {
+    this.updateStatus({ conflicts: [] });
+  }
+
+  whenReady(): Promise<void> {
+    return this.ready;
+  }
+
+  // The first queued operation of a kind that matches, skipping one that is being sent right now
+  find<K extends QueuedOperation['kind']>(
+    kind: K,
+    predicate: (operation: OperationOfKind<K>) => boolean
+  ): { write: QueuedWrite; operation: OperationOfKind<K> } | undefined {
+    for (const write of this.writes) {
+      if (write !== this.inFlight && write.operation.kind === kind) {
+        const operation = write.operation as OperationOfKind<K>;
+        if (predicate(operation)) {
+          return { write, operation };
+        }
+      }
+    }
+    return undefined;
+  }
+
+  async enqueue(operation: QueuedOperation, description: string): Promise<QueuedWrite> {
+    await this.ready;
+    const record = { queuedAt: new Date().toISOString(), description, operation };
+    const seq = await this.store.add('syncQueue', record) as number;
+    const write = { ...record, seq };
+    this.writes = [...this.writes, write];
+    this.updateStatus({});
+    return write;
+  }
+
+  async replace(write: QueuedWrite, operation: QueuedOperation): Promise<void> {
+    const updated = { ...write, operation };
+    await this.store.put('syncQueue', updated);
+    this.writes = this.writes.map(item => (item.seq === write.seq ? updated : item));
+    this.updateStatus({});
+  }
+
+  async remove(write: QueuedWrite): Promise<void> {
+    await this.store.delete('syncQueue', write.seq);
+    this.writes = this.writes.filter(item => item.seq !== write.seq);
+    this.updateStatus({});
+  }
+
+  async clear(): Promise<void> {
+    await this.ready;
+    await this.store.clear('syncQueue');
+    this.writes = [];
+    this.updateStatus({ conflicts: [] });
+  }
+
+  // Send queued writes oldest first. Stops at the first write that fails for a reason that may
+  // clear up (no network, expired session, server error); writes the server refuses are dropped
+  // and reported as conflicts.
+  async replay(send: (operation: QueuedOperation) => Promise<void>): Promise<void> {
+    await this.ready;
+    if (this.status.isSyncing || this.writes.length === 0) return;
+
+    this.updateStatus({ isSyncing: true });
+    const conflicts: SyncConflict[] = [];
+    let sentAny = false;
+
+    try {
+      while (this.writes.length > 0) {
+        const write = this.writes[0];
+        this.inFlight = write;
+        try {
+          await send(write.operation);
+        } catch (error) {
+          const reason = getRejectionReason(error);
+          if (reason === null) break;
+          conflicts.push({ description: write.description, reason });
+        }
+        await this.remove(write);
+        sentAny = true;
+      }
+    } finally {
+      this.inFlight = null;
+      this.updateStatus({
+        isSyncing: false,
+        conflicts: [...this.status.conflicts, ...conflicts],
+        lastSyncedAt: sentAny ? new Date().toISOString() : this.status.lastSyncedAt
+      });
+    }
+  }
+}
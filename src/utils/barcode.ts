@@ -0,0 +1,20 @@
+// Strip spaces and dashes from a typed or pasted barcode and check its length and GS1 check digit.
+// Returns the code as a GTIN (UPC-A is zero-padded to EAN-13), or null if it isn't valid.
+export const normalizeBarcode = (code: string): string | null => {
+  const digits = code.replace(/[\s-]/g, '');
+  if (!/^(\d{8}|\d{12,14})$/.test(digits)) {
+    return null;
+  }
+
+  // Weights alternate 3 and 1 starting from the digit next to the check digit
+  const body = digits.slice(0, -1);
+  const sum = body
+    .split('')
+    .reverse()
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  if ((10 - (sum % 10)) % 10 !== Number(digits[digits.length - 1])) {
+    return null;
+  }
+
+  return digits.length === 12 ? `0${digits}` : digits;
+};
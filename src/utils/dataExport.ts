@@ -0,0 +1,126 @@
+import { FoodLogEntry, FoodLogInput, WeightEntry } from "../services/apiClient";
+import { toCsv } from "./csv";
+import { parseLocalDate, toTimeInputValue } from "./dates";
+import { MEAL_OPTIONS } from "./meals";
+
+export const ARCHIVE_FORMAT = 'calorie-tracker-archive';
+export const ARCHIVE_VERSION = 1;
+export const MAX_EXPORT_DAYS = 366;
+
+export type ArchivedWeightEntry = Omit<WeightEntry, 'id' | 'pendingSync'>;
+
+// Everything logged in a date range, in the shape the import endpoints accept
+export interface DataArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string; // ISO timestamp
+  from: string; // YYYY-MM-DD
+  to: string;
+  foodLogs: FoodLogInput[];
+  weights: ArchivedWeightEntry[];
+}
+
+// Number of calendar days in an inclusive range, or 0 when `from` is after `to`
+export const countRangeDays = (from: string, to: string): number =>
+  Math.max(0, Math.round((parseLocalDate(to).getTime() - parseLocalDate(from).getTime()) / (24 * 60 * 60 * 1000)) + 1);
+
+// Drop server-assigned fields; everything else is kept so the entry can be recreated exactly
+const toArchivedLogEntry = (entry: FoodLogEntry): FoodLogInput => ({
+  name: entry.name,
+  calories: entry.calories,
+  protein: entry.protein,
+  carbs: entry.carbs,
+  fat: entry.fat,
+  portionSize: entry.portionSize,
+  servingUnit: entry.servingUnit,
+  servingQuantity: entry.servingQuantity,
+  loggedAt: entry.loggedAt,
+  logDate: entry.logDate,
+  meal: entry.meal,
+  caloriesPer100g: entry.caloriesPer100g,
+  proteinPer100g: entry.proteinPer100g,
+  carbsPer100g: entry.carbsPer100g,
+  fatPer100g: entry.fatPer100g,
+  micronutrientsPer100g: entry.micronutrientsPer100g
+});
+
+export const buildArchive = (from: string, to: string, foodLogs: FoodLogEntry[], weights: WeightEntry[]): DataArchive => ({
+  format: ARCHIVE_FORMAT,
+  version: ARCHIVE_VERSION,
+  exportedAt: new Date().toISOString(),
+  from,
+  to,
+  foodLogs: foodLogs.map(toArchivedLogEntry),
+  weights: weights.map(({ date, weightKg }) => ({ date, weightKg }))
+});
+
+// One row per logged food, for spreadsheets
+export const toFoodLogCsv = (entries: FoodLogEntry[]): string =>
+  toCsv(
+    ['Date', 'Time', 'Meal', 'Food', 'Grams', 'Serving', 'Calories', 'Protein (g)', 'Carbs (g)', 'Fat (g)'],
+    entries.map(entry => [
+      entry.logDate,
+      toTimeInputValue(new Date(entry.loggedAt)),
+      MEAL_OPTIONS.find(option => option.value === entry.meal)?.label ?? entry.meal,
+      entry.name,
+      entry.portionSize,
+      `${entry.servingQuantity} ${entry.servingUnit}`,
+      entry.calories,
+      entry.protein,
+      entry.carbs,
+      entry.fat
+    ])
+  );
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Parse and sanity-check an archive file; the server validates each entry again on import
+export const parseArchive = (text: string): DataArchive => {
+  let data: Partial<DataArchive>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (!data || data.format !== ARCHIVE_FORMAT) {
+    throw new Error('The file is not a calorie tracker export.');
+  }
+  if (!isNumber(data.version) || data.version > ARCHIVE_VERSION) {
+    throw new Error('The file was exported by a newer version of the app.');
+  }
+  if (!Array.isArray(data.foodLogs) || !Array.isArray(data.weights)) {
+    throw new Error('The file is missing its food log or weight history.');
+  }
+
+  const badLogIndex = data.foodLogs.findIndex(entry =>
+    !entry || typeof entry.name !== 'string' || typeof entry.loggedAt !== 'string' || typeof entry.logDate !== 'string'
+    || !isNumber(entry.calories) || !isNumber(entry.portionSize)
+  );
+  if (badLogIndex >= 0) {
+    throw new Error(`Food log entry ${badLogIndex + 1} is incomplete.`);
+  }
+
+  const badWeightIndex = data.weights.findIndex(entry => !entry || typeof entry.date !== 'string' || !isNumber(entry.weightKg));
+  if (badWeightIndex >= 0) {
+    throw new Error(`Weigh-in ${badWeightIndex + 1} is incomplete.`);
+  }
+
+  return data as DataArchive;
+};
+
+// Save text as a file through the browser's download prompt
+export const downloadTextFile = (filename: string, content: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const getExportFilename = (from: string, to: string, extension: 'csv' | 'json'): string =>
+  `calorie-tracker-${from}-to-${to}.${extension}`;
+
@@ -0,0 +1,56 @@
+// Helpers for working with calendar days (YYYY-MM-DD) in the user's local timezone
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// Format a Date as YYYY-MM-DD using local time (toISOString would use UTC)
+export const toLocalDateString = (date: Date): string => {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Parse YYYY-MM-DD as local midnight (Date.parse would treat it as UTC)
+export const parseLocalDate = (dateString: string): Date => {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const getTodayDateString = (): string => toLocalDateString(new Date());
+
+export const addDays = (dateString: string, days: number): string => {
+  const date = parseLocalDate(dateString);
+  date.setDate(date.getDate() + days);
+  return toLocalDateString(date);
+};
+
+// Combine a calendar day with the current local time of day
+export const atCurrentTime = (dateString: string): Date => {
+  const now = new Date();
+  const date = parseLocalDate(dateString);
+  date.setHours(now.getHours(), now.getMinutes(), now.getSeconds(), now.getMilliseconds());
+  return date;
+};
+
+export const formatDisplayDate = (dateString: string): string => {
+  const today = getTodayDateString();
+  if (dateString === today) return 'Today';
+  if (dateString === addDays(today, -1)) return 'Yesterday';
+
+  return parseLocalDate(dateString).toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+};
+
+// Format a Date's local time as HH:MM for <input type="time">
+export const toTimeInputValue = (date: Date): string => {
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+// Combine a calendar day with an HH:MM local time
+export const combineDateAndTime = (dateString: string, time: string): Date => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = parseLocalDate(dateString);
+  date.setHours(hours || 0, minutes || 0, 0, 0);
+  return date;
+};
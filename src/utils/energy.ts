@@ -0,0 +1,78 @@
+// Energy expenditure and calorie target calculations
+
+export type Sex = 'male' | 'female';
+export type ActivityLevel = 'sedentary' | 'light' | 'moderate' | 'active' | 'veryActive';
+export type GoalPreset = 'cut' | 'maintain' | 'bulk';
+export type BmrFormula = 'mifflin-st-jeor' | 'katch-mcardle';
+
+export interface ActivityOption {
+  value: ActivityLevel;
+  label: string;
+  description: string;
+  multiplier: number;
+}
+
+export const ACTIVITY_LEVELS: ActivityOption[] = [
+  { value: 'sedentary', label: 'Sedentary', description: 'Desk job, little exercise', multiplier: 1.2 },
+  { value: 'light', label: 'Lightly active', description: 'Exercise 1-3 days/week', multiplier: 1.375 },
+  { value: 'moderate', label: 'Moderately active', description: 'Exercise 3-5 days/week', multiplier: 1.55 },
+  { value: 'active', label: 'Very active', description: 'Hard exercise 6-7 days/week', multiplier: 1.725 },
+  { value: 'veryActive', label: 'Extremely active', description: 'Physical job or twice-daily training', multiplier: 1.9 }
+];
+
+export interface GoalOption {
+  value: GoalPreset;
+  label: string;
+  calorieAdjustment: number; // fraction of TDEE added to (or removed from) the target
+  proteinPerKg: number;
+  fatCalorieShare: number; // fraction of target calories from fat
+}
+
+export const GOAL_PRESETS: GoalOption[] = [
+  { value: 'cut', label: 'Cut (lose fat)', calorieAdjustment: -0.2, proteinPerKg: 2.2, fatCalorieShare: 0.25 },
+  { value: 'maintain', label: 'Maintain', calorieAdjustment: 0, proteinPerKg: 1.8, fatCalorieShare: 0.3 },
+  { value: 'bulk', label: 'Bulk (build muscle)', calorieAdjustment: 0.1, proteinPerKg: 2.0, fatCalorieShare: 0.25 }
+];
+
+export interface BodyProfile {
+  weightKg: number;
+  heightCm: number;
+  age: number;
+  sex: Sex;
+  bodyFatPercent?: number;
+}
+
+export interface MacroTargets {
+  calories: number;
+  protein: number; // grams
+  carbs: number;
+  fat: number;
+}
+
+// Mifflin-St Jeor needs height, age and sex; Katch-McArdle uses lean body mass
+// and is preferred when body fat is known
+export const calculateBmr = (profile: BodyProfile): { bmr: number; formula: BmrFormula } => {
+  if (profile.bodyFatPercent !== undefined && profile.bodyFatPercent > 0 && profile.bodyFatPercent < 70) {
+    const leanMassKg = profile.weightKg * (1 - profile.bodyFatPercent / 100);
+    return { bmr: 370 + 21.6 * leanMassKg, formula: 'katch-mcardle' };
+  }
+
+  const base = 10 * profile.weightKg + 6.25 * profile.heightCm - 5 * profile.age;
+  return { bmr: base + (profile.sex === 'male' ? 5 : -161), formula: 'mifflin-st-jeor' };
+};
+
+export const calculateTdee = (bmr: number, activityLevel: ActivityLevel): number => {
+  const activity = ACTIVITY_LEVELS.find(option => option.value === activityLevel) ?? ACTIVITY_LEVELS[0];
+  return bmr * activity.multiplier;
+};
+
+// Daily calorie target for a goal, split into protein, fat and (the remainder) carbs
+export const calculateMacroTargets = (tdee: number, weightKg: number, goal: GoalPreset): MacroTargets => {
+  const preset = GOAL_PRESETS.find(option => option.value === goal) ?? GOAL_PRESETS[1];
+  const calories = Math.round(tdee * (1 + preset.calorieAdjustment));
+  const protein = Math.round(weightKg * preset.proteinPerKg);
+  const fat = Math.round((calories * preset.fatCalorieShare) / 9);
+  const carbs = Math.max(0, Math.round((calories - protein * 4 - fat * 9) / 4));
+
+  return { calories, protein, carbs, fat };
+};
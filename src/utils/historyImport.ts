@@ -0,0 +1,351 @@
+import { FoodLogInput, MealType, Micronutrients, MicronutrientKey } from "../services/apiClient";
+import { parseCsv } from "./csv";
+import { ArchivedWeightEntry } from "./dataExport";
+import { combineDateAndTime } from "./dates";
+import { MAX_WEIGHT_KG, MIN_WEIGHT_KG, WeightUnit, toKg } from "./weight";
+
+export type HistorySource = 'MyFitnessPal' | 'Cronometer';
+
+// A row that couldn't be mapped; `row` is the 1-based line in the file, counting the header
+export interface ImportRowError {
+  row: number;
+  message: string;
+}
+
+export interface ParsedHistoryFile {
+  fileName: string;
+  source: HistorySource;
+  description: string; // e.g. 'Cronometer food entries'
+  foodLogs: FoodLogInput[];
+  weights: ArchivedWeightEntry[];
+  errors: ImportRowError[];
+  assumedWeightUnit: boolean; // the file has no unit for weights, so the chosen unit was applied
+  nominalPortionCount: number; // entries whose amount isn't in grams (see NOMINAL_PORTION_GRAMS)
+}
+
+// Entries logged in a household unit ("1 cup") or as a meal total have no known weight; they're
+// stored against a nominal 100g so the per-100g basis equals the logged amount and editing the
+// quantity still scales correctly
+const NOMINAL_PORTION_GRAMS = 100;
+const MAX_UNIT_LABEL_LENGTH = 50;
+
+// Neither app exports a time of day for every entry, so entries without one get a typical meal time
+const DEFAULT_MEAL_TIMES: Record<MealType, string> = {
+  breakfast: '08:00',
+  lunch: '12:30',
+  dinner: '18:30',
+  snacks: '15:00'
+};
+
+const GRAMS_PER_UNIT: Record<string, number> = {
+  g: 1,
+  gram: 1,
+  grams: 1,
+  kg: 1000,
+  oz: 28.3495,
+  lb: 453.592,
+  lbs: 453.592
+};
+
+class RowError extends Error {}
+
+interface Table {
+  header: string[]; // lowercased and trimmed
+  rows: { row: number; values: string[] }[];
+}
+
+const readTable = (text: string): Table => {
+  const [header = [], ...rows] = parseCsv(text);
+  return {
+    header: header.map(name => name.trim().toLowerCase()),
+    rows: rows.map((values, index) => ({ row: index + 2, values }))
+  };
+};
+
+// Reads named columns from a row; a missing column reads as blank
+const columnReader = (header: string[], values: string[]) => (name: string): string => {
+  const index = header.indexOf(name.toLowerCase());
+  return index >= 0 ? (values[index] ?? '').trim() : '';
+};
+
+const hasColumns = (header: string[], ...names: string[]) => names.every(name => header.includes(name.toLowerCase()));
+
+// Blank cells are treated as zero; anything else has to be a non-negative number
+const readAmount = (value: string, column: string): number => {
+  if (value === '') return 0;
+  const amount = Number(value.replace(/,/g, ''));
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new RowError(`${column} must be a non-negative number`);
+  }
+  return amount;
+};
+
+// Blank cells stay unknown rather than zero
+const readOptionalAmount = (value: string, column: string): number | null =>
+  value === '' ? null : readAmount(value, column);
+
+// Both apps write YYYY-MM-DD; US-style M/D/YYYY is accepted too. Date.parse would roll 2024-02-31
+// over to March, so the parts have to survive a round trip through Date.UTC.
+const readDate = (value: string): string => {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const parts = iso ? [iso[1], iso[2], iso[3]] : us ? [us[3], us[1], us[2]] : null;
+  if (!parts) {
+    throw new RowError(`"${value}" is not a date`);
+  }
+
+  const [year, month, day] = parts.map(Number);
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  if (parsed.getUTCFullYear() !== year || parsed.getUTCMonth() !== month - 1 || parsed.getUTCDate() !== day) {
+    throw new RowError(`"${value}" is not a valid date`);
+  }
+  return `${parts[0]}-${parts[1].padStart(2, '0')}-${parts[2].padStart(2, '0')}`;
+};
+
+// "8:15 AM", "20:15" or "20:15:00" as HH:MM, or null when blank or unrecognised. A time that looks
+// right but can't exist, such as 25:00 or 13:00 PM, flags the row instead of wrapping around.
+const readTime = (value: string): string | null => {
+  const match = value.match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*(am|pm)?$/i);
+  if (!match) return null;
+
+  const meridiem = match[3]?.toLowerCase();
+  let hours = Number(match[1]);
+  if (hours > (meridiem ? 12 : 23) || Number(match[2]) > 59) {
+    throw new RowError(`"${value}" is not a valid time`);
+  }
+  if (meridiem) {
+    hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0);
+  }
+  return `${String(hours).padStart(2, '0')}:${match[2]}`;
+};
+
+const readMeal = (value: string): MealType => {
+  const meal = value.toLowerCase();
+  if (meal.startsWith('breakfast')) return 'breakfast';
+  if (meal.startsWith('lunch')) return 'lunch';
+  if (meal.startsWith('dinner')) return 'dinner';
+  return 'snacks';
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+interface MappedEntry {
+  name: string;
+  date: string;
+  time: string | null;
+  meal: MealType;
+  grams: number | null; // null when the amount isn't a weight
+  quantity: number;
+  unit: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  micronutrients: Micronutrients; // totals for the logged amount
+}
+
+const toFoodLogInput = (entry: MappedEntry): FoodLogInput => {
+  const portionSize = entry.grams ?? NOMINAL_PORTION_GRAMS;
+  const per100g = (value: number) => round((value * 100) / portionSize);
+
+  return {
+    name: entry.name,
+    calories: Math.round(entry.calories),
+    protein: round(entry.protein),
+    carbs: round(entry.carbs),
+    fat: round(entry.fat),
+    portionSize: round(portionSize),
+    servingUnit: entry.grams !== null ? 'g' : entry.unit.slice(0, MAX_UNIT_LABEL_LENGTH),
+    servingQuantity: entry.grams !== null ? round(entry.grams) : round(entry.quantity),
+    loggedAt: combineDateAndTime(entry.date, entry.time ?? DEFAULT_MEAL_TIMES[entry.meal]).toISOString(),
+    logDate: entry.date,
+    meal: entry.meal,
+    caloriesPer100g: per100g(entry.calories),
+    proteinPer100g: per100g(entry.protein),
+    carbsPer100g: per100g(entry.carbs),
+    fatPer100g: per100g(entry.fat),
+    micronutrientsPer100g: Object.fromEntries(
+      Object.entries(entry.micronutrients).map(([key, value]) => [key, value === null || value === undefined ? null : per100g(value)])
+    )
+  };
+};
+
+const readMicronutrients = (
+  read: (name: string) => string,
+  columns: [MicronutrientKey, string, number?][] // key, column, optional factor to our unit
+): Micronutrients =>
+  Object.fromEntries(columns.map(([key, column, factor = 1]) => {
+    const value = readOptionalAmount(read(column), column);
+    return [key, value === null ? null : round(value * factor)];
+  }));
+
+// Cronometer writes amounts like "150.00 g" or "1.00 cup"
+const readServingAmount = (value: string): { quantity: number; unit: string; grams: number | null } => {
+  const match = value.match(/^([\d.,]+)\s*(.*)$/);
+  const quantity = match ? Number(match[1].replace(/,/g, '')) : NaN;
+  if (!match || !Number.isFinite(quantity) || quantity <= 0) {
+    throw new RowError(`Amount "${value}" must start with a positive number`);
+  }
+
+  const unit = match[2].trim() || 'serving';
+  const gramsPerUnit = GRAMS_PER_UNIT[unit.toLowerCase()];
+  return { quantity, unit, grams: gramsPerUnit !== undefined ? quantity * gramsPerUnit : null };
+};
+
+const readWeight = (value: string, unit: WeightUnit): number => {
+  const weightKg = round(toKg(readAmount(value, 'Weight'), unit));
+  if (weightKg < MIN_WEIGHT_KG || weightKg > MAX_WEIGHT_KG) {
+    throw new RowError(`Weight must be between ${MIN_WEIGHT_KG} and ${MAX_WEIGHT_KG} kg`);
+  }
+  return weightKg;
+};
+
+// Map each data row, collecting per-row errors instead of stopping at the first one
+const mapRows = <T>(table: Table, map: (read: (name: string) => string) => T | null) => {
+  const results: T[] = [];
+  const errors: ImportRowError[] = [];
+
+  for (const { row, values } of table.rows) {
+    try {
+      const result = map(columnReader(table.header, values));
+      if (result !== null) {
+        results.push(result);
+      }
+    } catch (error) {
+      if (!(error instanceof RowError)) throw error;
+      errors.push({ row, message: error.message });
+    }
+  }
+  return { results, errors };
+};
+
+// MyFitnessPal's Nutrition Summary has one row of totals per meal per day, without food names
+const parseMyFitnessPalNutrition = (table: Table) => mapRows(table, read => {
+  const mealLabel = read('Meal') || 'Snacks';
+  return toFoodLogInput({
+    name: `${mealLabel} (MyFitnessPal)`,
+    date: readDate(read('Date')),
+    time: null,
+    meal: readMeal(mealLabel),
+    grams: null,
+    quantity: 1,
+    unit: 'meal',
+    calories: readAmount(read('Calories'), 'Calories'),
+    protein: readAmount(read('Protein (g)'), 'Protein (g)'),
+    carbs: readAmount(read('Carbohydrates (g)'), 'Carbohydrates (g)'),
+    fat: readAmount(read('Fat (g)'), 'Fat (g)'),
+    // MyFitnessPal reports vitamins and minerals other than these as % of daily value, so they're left out
+    micronutrients: readMicronutrients(read, [
+      ['fiber', 'Fiber'],
+      ['sugar', 'Sugar'],
+      ['saturatedFat', 'Saturated Fat'],
+      ['sodium', 'Sodium (mg)'],
+      ['potassium', 'Potassium'],
+      ['cholesterol', 'Cholesterol']
+    ])
+  });
+});
+
+// Cronometer's servings.csv (Food & Recipe Entries) has one row per logged food
+const parseCronometerServings = (table: Table) => mapRows(table, read => {
+  const name = read('Food Name');
+  if (!name) {
+    throw new RowError('Food Name is missing');
+  }
+  const amount = readServingAmount(read('Amount'));
+
+  return toFoodLogInput({
+    name,
+    date: readDate(read('Day')),
+    time: readTime(read('Time')),
+    meal: readMeal(read('Group')),
+    ...amount,
+    calories: readAmount(read('Energy (kcal)'), 'Energy (kcal)'),
+    protein: readAmount(read('Protein (g)'), 'Protein (g)'),
+    carbs: readAmount(read('Carbs (g)'), 'Carbs (g)'),
+    fat: readAmount(read('Fat (g)'), 'Fat (g)'),
+    micronutrients: readMicronutrients(read, [
+      ['fiber', 'Fiber (g)'],
+      ['sugar', 'Sugars (g)'],
+      ['saturatedFat', 'Saturated (g)'],
+      ['sodium', 'Sodium (mg)'],
+      ['potassium', 'Potassium (mg)'],
+      ['cholesterol', 'Cholesterol (mg)'],
+      ['calcium', 'Calcium (mg)'],
+      ['iron', 'Iron (mg)'],
+      ['vitaminA', 'Vitamin A (µg)'],
+      ['vitaminC', 'Vitamin C (mg)'],
+      ['vitaminD', 'Vitamin D (IU)', 0.025] // 40 IU per µg
+    ])
+  });
+});
+
+// Cronometer's biometrics.csv lists every metric; only weight rows are imported
+const parseCronometerBiometrics = (table: Table) => mapRows(table, read => {
+  if (read('Metric').toLowerCase() !== 'weight') {
+    return null;
+  }
+  const unit = read('Unit').toLowerCase();
+  if (unit !== 'kg' && unit !== 'lbs' && unit !== 'lb') {
+    throw new RowError(`Weight unit "${read('Unit')}" isn't kg or lbs`);
+  }
+  return { date: readDate(read('Day')), weightKg: readWeight(read('Amount'), unit === 'kg' ? 'kg' : 'lbs') };
+});
+
+// MyFitnessPal's Measurement Summary gives weight in the account's display unit, which isn't in the file
+const parseMyFitnessPalMeasurements = (table: Table, weightUnit: WeightUnit) => mapRows(table, read => {
+  if (read('Weight') === '') {
+    return null;
+  }
+  return { date: readDate(read('Date')), weightKg: readWeight(read('Weight'), weightUnit) };
+});
+
+// Recognise a MyFitnessPal or Cronometer export by its columns and map its rows to log entries or
+// weigh-ins. Throws when the file isn't one of the supported exports.
+export const parseHistoryFile = (fileName: string, text: string, weightUnit: WeightUnit): ParsedHistoryFile => {
+  const table = readTable(text);
+  const { header } = table;
+  const base = { fileName, foodLogs: [], weights: [], errors: [], assumedWeightUnit: false, nominalPortionCount: 0 };
+
+  if (hasColumns(header, 'Day', 'Food Name', 'Energy (kcal)')) {
+    const { results, errors } = parseCronometerServings(table);
+    return {
+      ...base,
+      source: 'Cronometer',
+      description: 'Cronometer food entries',
+      foodLogs: results,
+      errors,
+      nominalPortionCount: results.filter(entry => entry.servingUnit !== 'g').length
+    };
+  }
+  if (hasColumns(header, 'Day', 'Metric', 'Unit', 'Amount')) {
+    const { results, errors } = parseCronometerBiometrics(table);
+    return { ...base, source: 'Cronometer', description: 'Cronometer weigh-ins', weights: results, errors };
+  }
+  if (hasColumns(header, 'Date', 'Meal', 'Calories')) {
+    const { results, errors } = parseMyFitnessPalNutrition(table);
+    return {
+      ...base,
+      source: 'MyFitnessPal',
+      description: 'MyFitnessPal meal totals',
+      foodLogs: results,
+      errors,
+      nominalPortionCount: results.length
+    };
+  }
+  if (hasColumns(header, 'Date', 'Weight')) {
+    const { results, errors } = parseMyFitnessPalMeasurements(table, weightUnit);
+    return {
+      ...base,
+      source: 'MyFitnessPal',
+      description: 'MyFitnessPal weigh-ins',
+      weights: results,
+      errors,
+      assumedWeightUnit: true
+    };
+  }
+
+  throw new Error(
+    `${fileName} isn't a supported export. Use MyFitnessPal's Nutrition or Measurement Summary, or Cronometer's servings.csv or biometrics.csv.`
+  );
+};
@@ -0,0 +1,24 @@
+import { MealType } from "../services/apiClient";
+
+export interface MealOption {
+  value: MealType;
+  label: string;
+  icon: string;
+}
+
+// Meals in the order they're shown in the food log
+export const MEAL_OPTIONS: MealOption[] = [
+  { value: 'breakfast', label: 'Breakfast', icon: '🍳' },
+  { value: 'lunch', label: 'Lunch', icon: '🥪' },
+  { value: 'dinner', label: 'Dinner', icon: '🍝' },
+  { value: 'snacks', label: 'Snacks', icon: '🍎' }
+];
+
+// Pick a sensible default meal for the given local time
+export const getMealForTime = (date: Date = new Date()): MealType => {
+  const hour = date.getHours();
+  if (hour >= 4 && hour < 11) return 'breakfast';
+  if (hour >= 11 && hour < 16) return 'lunch';
+  if (hour >= 16 && hour < 22) return 'dinner';
+  return 'snacks';
+};
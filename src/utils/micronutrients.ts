@@ -0,0 +1,43 @@
+import { MicronutrientKey, Micronutrients } from "../services/apiClient";
+
+export const MICRONUTRIENTS: { key: MicronutrientKey; label: string; unit: 'g' | 'mg' | 'µg' }[] = [
+  { key: 'fiber', label: 'Fiber', unit: 'g' },
+  { key: 'sugar', label: 'Sugar', unit: 'g' },
+  { key: 'saturatedFat', label: 'Saturated fat', unit: 'g' },
+  { key: 'sodium', label: 'Sodium', unit: 'mg' },
+  { key: 'potassium', label: 'Potassium', unit: 'mg' },
+  { key: 'cholesterol', label: 'Cholesterol', unit: 'mg' },
+  { key: 'calcium', label: 'Calcium', unit: 'mg' },
+  { key: 'iron', label: 'Iron', unit: 'mg' },
+  { key: 'vitaminA', label: 'Vitamin A', unit: 'µg' },
+  { key: 'vitaminC', label: 'Vitamin C', unit: 'mg' },
+  { key: 'vitaminD', label: 'Vitamin D', unit: 'µg' }
+];
+
+const roundToTenth = (value: number) => Math.round(value * 10) / 10;
+
+const isKnown = (value: number | null | undefined): value is number => value !== null && value !== undefined;
+
+// Scale per-100g micronutrients to a portion; unknown values stay unknown
+export const scaleMicronutrients = (per100g: Micronutrients = {}, grams: number): Micronutrients =>
+  Object.fromEntries(MICRONUTRIENTS.map(({ key }) => {
+    const value = per100g[key];
+    return [key, isKnown(value) ? roundToTenth((value / 100) * grams) : null];
+  }));
+
+// Sum micronutrients across foods. A nutrient is unknown only if no food has it;
+// `incomplete` lists nutrients that some, but not all, foods are missing.
+export const sumMicronutrients = (items: Micronutrients[]): { totals: Micronutrients; incomplete: MicronutrientKey[] } => {
+  const totals: Micronutrients = {};
+  const incomplete: MicronutrientKey[] = [];
+
+  for (const { key } of MICRONUTRIENTS) {
+    const known = items.map(item => item[key]).filter(isKnown);
+    totals[key] = known.length > 0 ? roundToTenth(known.reduce((sum, value) => sum + value, 0)) : null;
+    if (known.length > 0 && known.length < items.length) {
+      incomplete.push(key);
+    }
+  }
+
+  return { totals, incomplete };
+};
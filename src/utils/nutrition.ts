@@ -0,0 +1,45 @@
+// Calories and macros for a food, a portion or a group of foods
+export interface NutritionValues {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+const roundToTenth = (value: number) => Math.round(value * 10) / 10;
+
+// Scale per-100g values to a portion, rounding calories to whole numbers and macros to 1 decimal
+export const scaleNutrition = (per100g: NutritionValues, grams: number): NutritionValues => ({
+  calories: Math.round((per100g.calories / 100) * grams),
+  protein: roundToTenth((per100g.protein / 100) * grams),
+  carbs: roundToTenth((per100g.carbs / 100) * grams),
+  fat: roundToTenth((per100g.fat / 100) * grams)
+});
+
+// Sum calories and macros, rounding macros to 1 decimal
+export const sumNutrition = (items: NutritionValues[]): NutritionValues => {
+  const totals = items.reduce(
+    (sum, item) => ({
+      calories: sum.calories + item.calories,
+      protein: sum.protein + item.protein,
+      carbs: sum.carbs + item.carbs,
+      fat: sum.fat + item.fat
+    }),
+    { calories: 0, protein: 0, carbs: 0, fat: 0 }
+  );
+
+  return {
+    calories: totals.calories,
+    protein: roundToTenth(totals.protein),
+    carbs: roundToTenth(totals.carbs),
+    fat: roundToTenth(totals.fat)
+  };
+};
+
+// Multiply calories and macros by a factor, e.g. to split a recipe's totals into servings
+export const multiplyNutrition = (values: NutritionValues, factor: number): NutritionValues => ({
+  calories: Math.round(values.calories * factor),
+  protein: roundToTenth(values.protein * factor),
+  carbs: roundToTenth(values.carbs * factor),
+  fat: roundToTenth(values.fat * factor)
+});
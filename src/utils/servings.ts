@@ -0,0 +1,28 @@
+import { FoodServing, LoggedPortion, QuickAddFood } from "../services/apiClient";
+
+// Portions entered in plain grams use this unit
+export const GRAM_UNIT = 'g';
+export const MAX_PORTION_GRAMS = 2000;
+
+const GRAM_SERVING: FoodServing = { label: GRAM_UNIT, grams: 1 };
+
+// Units offered for a food: grams first, then its household servings
+export const getPortionUnits = (servings: FoodServing[] = []): FoodServing[] => [GRAM_SERVING, ...servings];
+
+// Resolve a quantity of a unit to grams, rounded to 1 decimal
+export const resolvePortionGrams = (quantity: number, unit: FoodServing): number =>
+  Math.round(quantity * unit.grams * 10) / 10;
+
+// e.g. "150g" or "2 slice (60g)"
+export const formatPortion = (quantity: number, unit: string, grams: number): string =>
+  unit === GRAM_UNIT ? `${grams}g` : `${quantity} ${unit} (${grams}g)`;
+
+// Portion for one-click logging: the last one used, else one serving of a recipe or food, else 100g
+export const getQuickAddPortion = ({ food, lastPortion }: QuickAddFood): LoggedPortion => {
+  if (lastPortion) return lastPortion;
+
+  const serving = food.servings?.[0];
+  return serving
+    ? { portionSize: serving.grams, servingUnit: serving.label, servingQuantity: 1 }
+    : { portionSize: 100, servingUnit: GRAM_UNIT, servingQuantity: 100 };
+};
@@ -0,0 +1,65 @@
+import { WeightEntry } from "../services/apiClient";
+import { parseLocalDate } from "./dates";
+
+export type WeightUnit = 'kg' | 'lbs';
+
+export const LBS_PER_KG = 2.20462;
+
+// Weigh-ins the server accepts
+export const MIN_WEIGHT_KG = 20;
+export const MAX_WEIGHT_KG = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const toKg = (weight: number, unit: WeightUnit): number => (unit === 'kg' ? weight : weight / LBS_PER_KG);
+
+export const fromKg = (weightKg: number, unit: WeightUnit): number => (unit === 'kg' ? weightKg : weightKg * LBS_PER_KG);
+
+export interface TrendPoint {
+  date: string;
+  weightKg: number;
+}
+
+// Trailing moving average: each point is the mean of the weigh-ins in the
+// `windowDays` days ending on that date. Entries must be sorted by date.
+export const calculateMovingAverage = (entries: WeightEntry[], windowDays = 7): TrendPoint[] => {
+  return entries.map((entry, index) => {
+    const end = parseLocalDate(entry.date).getTime();
+    let sum = 0;
+    let count = 0;
+
+    for (let i = index; i >= 0; i--) {
+      if (end - parseLocalDate(entries[i].date).getTime() >= windowDays * DAY_MS) break;
+      sum += entries[i].weightKg;
+      count++;
+    }
+
+    return { date: entry.date, weightKg: sum / count };
+  });
+};
+
+// Weekly rate of change (kg/week) from a least-squares fit over the last
+// `lookbackDays` days of weigh-ins. Returns null with fewer than two
+// weigh-ins in that window.
+export const calculateWeeklyRate = (entries: WeightEntry[], lookbackDays = 28): number | null => {
+  if (entries.length < 2) return null;
+
+  const latest = parseLocalDate(entries[entries.length - 1].date).getTime();
+  const points = entries
+    .map(entry => ({
+      day: (parseLocalDate(entry.date).getTime() - latest) / DAY_MS,
+      weightKg: entry.weightKg
+    }))
+    .filter(point => point.day > -lookbackDays);
+
+  if (points.length < 2) return null;
+
+  const meanDay = points.reduce((sum, point) => sum + point.day, 0) / points.length;
+  const meanWeight = points.reduce((sum, point) => sum + point.weightKg, 0) / points.length;
+  const numerator = points.reduce((sum, point) => sum + (point.day - meanDay) * (point.weightKg - meanWeight), 0);
+  const denominator = points.reduce((sum, point) => sum + (point.day - meanDay) ** 2, 0);
+
+  if (denominator === 0) return null;
+
+  return (numerator / denominator) * 7;
+};